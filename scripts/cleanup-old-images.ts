@@ -1,9 +1,25 @@
 import 'dotenv/config';
 import mongoose from 'mongoose';
-import { Expense } from '../src/models/ExpenseModel';
-import { CloudinaryService } from '../src/services/CloudinaryService';
+import { DeletedExpense, Expense, Receipt, User } from '../src/models/ExpenseModel';
+import { DateService } from '../src/services/DateService';
+import { ImageRetentionService } from '../src/services/ImageRetentionService';
+import { imageStorageFor } from '../src/services/ImageStorage';
+
+// Applies each user's image retention setting (or IMAGE_RETENTION) to old receipt photos:
+//   bun run scripts/cleanup-old-images.ts [--dry-run] [--user <userId>]
+// --dry-run prints what would be deleted or compressed without changing anything. Photos of trashed
+// expenses are left to the trash, which removes them when the entry expires.
+
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
 
 async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const onlyUser = flag(args, '--user');
+
   const mongoUri = process.env.MONGO_URI;
   if (!mongoUri) {
     console.error('❌ MONGO_URI is required');
@@ -12,67 +28,128 @@ async function main() {
 
   await mongoose.connect(mongoUri);
   console.log('✅ Connected to MongoDB');
+  console.log(`🧹 Deployment default: ${ImageRetentionService.describe(ImageRetentionService.fromEnv())}${dryRun ? ' (dry run, nothing will change)' : ''}`);
 
-  const cutoff = new Date();
-  cutoff.setFullYear(cutoff.getFullYear() - 1);
-  const cutoffStr = cutoff.toISOString().slice(0, 10); // YYYY-MM-DD
+  const withImage = { imageUrl: { $exists: true, $ne: '' }, imageDeletedAt: { $exists: false } };
+  const userIds: string[] = onlyUser ? [onlyUser] : await Expense.distinct('userId', withImage);
+  const users = new Map((await User.find({ userId: { $in: userIds } })).map((u) => [u.userId, u]));
 
-  console.log(`🧹 Cleaning images older than ${cutoffStr}`);
+  const totals = { deleted: 0, compressed: 0, kept: 0, errors: 0 };
 
-  let cloud: CloudinaryService | null = null;
-  try {
-    cloud = new CloudinaryService();
-  } catch (e) {
-    console.warn('Cloudinary not configured. Cloudinary deletions will be skipped.');
-  }
+  for (const userId of userIds) {
+    const user = users.get(userId);
+    const policy = ImageRetentionService.resolve(user?.imageRetention);
+    const today = DateService.today(DateService.resolveTimezone(userId, user?.timezone));
+    const cutoff = ImageRetentionService.cutoff(policy, today);
+    if (!cutoff || policy.mode === 'forever') {
+      console.log(`👤 ${userId}: ${ImageRetentionService.describe(policy)}`);
+      continue;
+    }
 
-  const cursor = Expense.find({
-    imageUrl: { $exists: true, $ne: '' },
-    imageDeletedAt: { $exists: false },
-    date: { $lt: cutoffStr },
-  }).cursor();
-
-  let processed = 0;
-  let deleted = 0;
-  let errors = 0;
-
-  for await (const exp of cursor) {
-    processed++;
-    try {
-      const provider = (exp as any).imageProvider as 'drive' | 'cloudinary' | undefined;
-      const ref = (exp as any).imageRef as string | undefined;
-
-      if (provider === 'cloudinary' && ref) {
-        if (cloud) {
-          try {
-            await cloud.deleteImage(ref);
-            deleted++;
-            console.log(`🗑️ Deleted Cloudinary image ${ref} for expense #${exp.number} (${exp.userId})`);
-          } catch (e) {
-            errors++;
-            console.error(`❌ Failed to delete Cloudinary image ${ref}:`, e);
+    // "<provider>: <action>" -> number of images, printed once per user
+    const report = new Map<string, number>();
+    const tally = (line: string) => report.set(line, (report.get(line) || 0) + 1);
+    // Split receipts share one photo across several expenses; handle each stored image once
+    const handled = new Set<string>();
+
+    const cursor = Expense.find({
+      userId,
+      ...withImage,
+      date: { $lt: cutoff },
+      ...(policy.mode === 'compress' ? { imageCompressedAt: { $exists: false } } : {}),
+    }).cursor();
+
+    for await (const exp of cursor) {
+      const provider = exp.imageProvider;
+      const ref = exp.imageRef;
+      try {
+        if (!provider || !ref) {
+          // Nothing to remove remotely; forget the dangling link
+          if (policy.mode === 'delete') {
+            tally('unknown storage: delete link');
+            if (!dryRun) {
+              await Expense.updateOne({ _id: exp._id }, { $set: { imageDeletedAt: new Date() }, $unset: { imageUrl: 1 } });
+            }
+            totals.deleted++;
           }
-        } else {
-          console.warn(`⚠️ Cloudinary not configured; skipping deletion for ${ref}`);
+          continue;
         }
-      } else {
-        console.warn(`⚠️ Missing provider/ref for expense #${exp.number}; skipping remote deletion`);
-      }
 
-      await Expense.updateOne(
-        { _id: exp._id },
-        {
-          $set: { imageDeletedAt: new Date() },
-          $unset: { imageUrl: 1, imageRef: 1, imageProvider: 1 },
+        const key = `${provider}:${ref}`;
+        if (handled.has(key)) continue;
+        handled.add(key);
+
+        // A photo also attached to a newer expense stays until that one is old enough too
+        if (await Expense.exists({ imageProvider: provider, imageRef: ref, date: { $gte: cutoff } })) {
+          tally(`${provider}: keep (also on a newer expense)`);
+          totals.kept++;
+          continue;
         }
-      );
-    } catch (e) {
-      errors++;
-      console.error('❌ Error processing expense', exp._id?.toString(), e);
+
+        // Restoring a trashed expense would bring back a link to a deleted file
+        const inTrash = { 'expense.imageProvider': provider, 'expense.imageRef': ref };
+        if (policy.mode === 'delete' && (await DeletedExpense.exists(inTrash))) {
+          tally(`${provider}: keep (also on a trashed expense)`);
+          totals.kept++;
+          continue;
+        }
+
+        const storage = imageStorageFor(provider);
+        if (!storage) {
+          tally(`${provider}: keep (storage not configured)`);
+          totals.kept++;
+          continue;
+        }
+        if (policy.mode === 'compress' && !storage.compress) {
+          tally(`${provider}: keep (can't compress on this storage)`);
+          totals.kept++;
+          continue;
+        }
+
+        tally(`${provider}: ${policy.mode}`);
+        if (dryRun) {
+          if (policy.mode === 'delete') totals.deleted++;
+          else totals.compressed++;
+          continue;
+        }
+
+        if (policy.mode === 'delete') {
+          await storage.delete(ref);
+          await Expense.updateMany(
+            { imageProvider: provider, imageRef: ref },
+            {
+              $set: { imageDeletedAt: new Date() },
+              $unset: { imageUrl: 1, imageRef: 1, imageProvider: 1, imageCompressedAt: 1 },
+            }
+          );
+          await Receipt.updateMany({ imageProvider: provider, imageRef: ref }, { $unset: { imageUrl: 1, imageRef: 1, imageProvider: 1 } });
+          totals.deleted++;
+        } else {
+          const image = await storage.compress!(ref);
+          await Expense.updateMany(
+            { imageProvider: provider, imageRef: ref },
+            { $set: { imageUrl: image.url, imageRef: image.ref, imageCompressedAt: new Date() } }
+          );
+          await Receipt.updateMany({ imageProvider: provider, imageRef: ref }, { $set: { imageUrl: image.url, imageRef: image.ref } });
+          await DeletedExpense.updateMany(inTrash, {
+            $set: { 'expense.imageUrl': image.url, 'expense.imageRef': image.ref, 'expense.imageCompressedAt': new Date() },
+          });
+          totals.compressed++;
+        }
+      } catch (e) {
+        totals.errors++;
+        console.error(`❌ Failed to ${policy.mode} ${provider} image ${ref} (expense #${exp.number}):`, e);
+      }
     }
+
+    const lines = [...report].map(([line, count]) => `   ${count} × ${line}`);
+    console.log(`👤 ${userId}: ${ImageRetentionService.describe(policy)}, images dated before ${cutoff}${lines.length ? '' : ': nothing due'}`);
+    lines.forEach((line) => console.log(line));
   }
 
-  console.log(`✅ Done. Processed: ${processed}, Deleted: ${deleted}, Errors: ${errors}`);
+  console.log(
+    `${dryRun ? '🔍 Dry run.' : '✅ Done.'} Deleted: ${totals.deleted}, Compressed: ${totals.compressed}, Kept: ${totals.kept}, Errors: ${totals.errors}`
+  );
   await mongoose.disconnect();
 }
 
@@ -0,0 +1,136 @@
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { DeletedExpense, Expense, Receipt } from '../src/models/ExpenseModel';
+import { imageStorageFor } from '../src/services/ImageStorage';
+
+// Copies receipt photos from one storage backend to another and points expenses, receipts and trashed
+// expenses at the copy:
+//   bun run scripts/migrate-images.ts --from cloudinary --to s3 [--dry-run] [--user <userId>] [--delete-source]
+// Originals stay where they are unless --delete-source is given. Migrated images no longer match
+// --from, so an interrupted run can simply be started again.
+
+const EXTENSIONS: { [mimetype: string]: string } = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'image/heic': '.heic',
+};
+
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+// Last path segment of the old ref, with an extension when the backend didn't keep one (Drive IDs, Cloudinary public_ids)
+function filenameFor(ref: string, mimetype: string): string {
+  const name = ref.split('/').pop() || ref;
+  return /\.[a-z0-9]{2,5}$/i.test(name) ? name : `${name}${EXTENSIONS[mimetype] || '.jpg'}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const from = flag(args, '--from');
+  const to = flag(args, '--to');
+  const onlyUser = flag(args, '--user');
+  const dryRun = args.includes('--dry-run');
+  const deleteSource = args.includes('--delete-source');
+
+  if (!from || !to || from === to) {
+    console.error('Usage: bun run scripts/migrate-images.ts --from <cloudinary|drive|local|s3> --to <cloudinary|drive|local|s3> [--dry-run] [--user <userId>] [--delete-source]');
+    process.exit(1);
+  }
+  const source = imageStorageFor(from);
+  const target = imageStorageFor(to);
+  if (!source || !target) {
+    console.error(`❌ ${!source ? from : to} storage is not configured`);
+    process.exit(1);
+  }
+
+  const mongoUri = process.env.MONGO_URI;
+  if (!mongoUri) {
+    console.error('❌ MONGO_URI is required');
+    process.exit(1);
+  }
+
+  await mongoose.connect(mongoUri);
+  console.log('✅ Connected to MongoDB');
+  console.log(`🚚 Moving images from ${from} to ${to}${dryRun ? ' (dry run, nothing will change)' : ''}`);
+
+  const expenses = Expense.find({
+    imageProvider: from,
+    imageRef: { $exists: true, $ne: '' },
+    imageDeletedAt: { $exists: false },
+    ...(onlyUser ? { userId: onlyUser } : {}),
+  }).sort({ userId: 1, date: 1 }).cursor();
+  // Trashed expenses can still be restored, so their photos move too
+  const trashed = DeletedExpense.find({
+    'expense.imageProvider': from,
+    'expense.imageRef': { $exists: true, $ne: '' },
+    ...(onlyUser ? { userId: onlyUser } : {}),
+  }).sort({ userId: 1, 'expense.date': 1 }).cursor();
+
+  // Split receipts share one photo across several expenses; copy each stored image once
+  const handled = new Set<string>();
+  let migrated = 0;
+  let errors = 0;
+
+  const migrate = async (exp: { userId: string; number: number; date: string; imageRef?: string | undefined }, label: string) => {
+    const ref = exp.imageRef!;
+    if (handled.has(ref)) return;
+    handled.add(ref);
+
+    if (dryRun) {
+      migrated++;
+      console.log(`📄 ${exp.userId} ${label} (${exp.date}): ${ref}`);
+      return;
+    }
+
+    try {
+      const { data, mimetype } = await source.download(ref);
+      const [y, m, d] = exp.date.split('-').map((p) => parseInt(p, 10));
+      const image = await target.upload({
+        buffer: data,
+        mimetype,
+        filename: filenameFor(ref, mimetype),
+        userId: exp.userId,
+        date: new Date(y!, m! - 1, d!),
+      });
+
+      const update = { $set: { imageProvider: image.provider, imageRef: image.ref, imageUrl: image.url } };
+      const expenses = await Expense.updateMany({ imageProvider: from, imageRef: ref }, update);
+      await Receipt.updateMany({ imageProvider: from, imageRef: ref }, update);
+      const inTrash = await DeletedExpense.updateMany(
+        { 'expense.imageProvider': from, 'expense.imageRef': ref },
+        { $set: { 'expense.imageProvider': image.provider, 'expense.imageRef': image.ref, 'expense.imageUrl': image.url } }
+      );
+      migrated++;
+      console.log(
+        `✅ ${exp.userId} ${label}: ${ref} -> ${image.ref} (${expenses.modifiedCount} expense${expenses.modifiedCount === 1 ? '' : 's'}` +
+          `${inTrash.modifiedCount ? `, ${inTrash.modifiedCount} in the trash` : ''})`
+      );
+
+      if (deleteSource) {
+        try {
+          await source.delete(ref);
+        } catch (e) {
+          console.warn(`⚠️ Copied, but could not delete ${from} image ${ref}:`, (e as any)?.message || e);
+        }
+      }
+    } catch (e) {
+      errors++;
+      console.error(`❌ Failed to migrate ${from} image ${ref} (expense ${label}):`, e);
+    }
+  };
+
+  for await (const exp of expenses) await migrate(exp, `#${exp.number}`);
+  for await (const doc of trashed) await migrate({ ...doc.expense, userId: doc.userId }, `#${doc.number} (trash)`);
+
+  console.log(`${dryRun ? '🔍 Dry run.' : '✅ Done.'} Images: ${migrated}, Errors: ${errors}`);
+  await mongoose.disconnect();
+}
+
+main().catch((e) => {
+  console.error('❌ Fatal error in migration:', e);
+  process.exit(1);
+});
@@ -16,6 +16,10 @@ export class WhatsAppCloudAdapter implements Client {
       await this.sendText(to, content);
       return;
     }
+    if (content.mimetype.startsWith("image/")) {
+      await this.sendImage(to, content);
+      return;
+    }
     await this.sendDocument(to, content);
   }
 
@@ -67,6 +71,30 @@ export class WhatsAppCloudAdapter implements Client {
     }
   }
 
+  // Photos are sent as images so they open inline in the chat
+  private async sendImage(to: string, media: MessageMedia): Promise<void> {
+    const mediaId = await this.uploadMedia(media);
+    const url = `https://graph.facebook.com/${GRAPH_VERSION}/${this.phoneNumberId}/messages`;
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        to,
+        type: "image",
+        image: { id: mediaId },
+      }),
+    });
+    if (!res.ok) {
+      const body = await res.text();
+      console.error("Failed to send image:", res.status, body);
+      throw new Error(`Send image failed: ${res.status}`);
+    }
+  }
+
   private async uploadMedia(media: MessageMedia): Promise<string> {
     const url = `https://graph.facebook.com/${GRAPH_VERSION}/${this.phoneNumberId}/media`;
     const buffer = Buffer.from(media.data, "base64");
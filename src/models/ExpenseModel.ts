@@ -1,23 +1,45 @@
 import { Schema, Document, model } from "mongoose";
+import type { ExpenseChangeAction, ExpenseLocation, ExpenseSnapshot, ImageProvider, ImageRetention, PendingBulkEdit, PendingImport, PendingReceipt, ReceiptLineItem, RecurringFrequency } from "../types/types";
+
+interface ICategoryBudget {
+  category: string;
+  budget: number;
+}
 
 interface IBudget extends Document {
   userId: string;
   month: string;
   budget: number;
   currency: string;
+  categoryBudgets: ICategoryBudget[];
+  recurring: boolean; // copied into the next month automatically
+  carriedOver: number; // unspent (+) or overspent (-) amount brought in from the previous month
 }
 
 interface IExpense extends Document {
   userId: string;
   item: string;
+  category?: string;
   price: number;
   currency: string;
   date: string;
   number: number;
   imageUrl?: string;
-  imageProvider?: 'drive' | 'cloudinary';
+  imageProvider?: ImageProvider;
   imageRef?: string; // Drive fileId or Cloudinary public_id
+  imageHash?: string; // perceptual hash from Cloudinary
+  imageDigest?: string; // SHA-256 of the uploaded bytes
   imageDeletedAt?: Date;
+  imageCompressedAt?: Date; // replaced with a smaller copy by the retention cleanup
+  recurringId?: string; // RecurringExpense that posted this entry
+  originalPrice?: number; // amount as entered, when it wasn't in the user's currency
+  originalCurrency?: string;
+  exchangeRate?: number; // originalCurrency -> currency rate used for `price`
+  receiptId?: string; // Receipt this expense was split from (or saved as the total of)
+  merchant?: string;
+  paymentMethod?: string; // canonical name from PaymentMethodService, or as the user typed it
+  receiptDate?: string; // YYYY-MM-DD printed on the receipt
+  location?: ExpenseLocation;
 }
 
 interface IConversation extends Document {
@@ -31,21 +53,63 @@ const BudgetSchema = new Schema<IBudget>({
   month: { type: String, required: true },
   budget: { type: Number, required: true },
   currency: { type: String, required: true, default: "USD" },
+  categoryBudgets: {
+    type: [
+      new Schema<ICategoryBudget>(
+        {
+          category: { type: String, required: true },
+          budget: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+    ],
+    default: [],
+  },
+  recurring: { type: Boolean, default: true },
+  carriedOver: { type: Number, default: 0 },
 });
 
 const ExpenseSchema = new Schema<IExpense>({
   userId: { type: String, required: true },
   item: { type: String, required: true },
+  category: { type: String, index: true },
   price: { type: Number, required: true },
   currency: { type: String, required: true, default: "USD" },
   date: { type: String, required: true },
   number: { type: Number, required: true, index: true },
   imageUrl: { type: String },
-  imageProvider: { type: String, enum: ['drive', 'cloudinary'] },
+  imageProvider: { type: String, enum: ['drive', 'cloudinary', 'local', 's3'] },
   imageRef: { type: String },
+  imageHash: { type: String },
+  imageDigest: { type: String },
   imageDeletedAt: { type: Date },
+  imageCompressedAt: { type: Date },
+  recurringId: { type: String },
+  originalPrice: { type: Number },
+  originalCurrency: { type: String },
+  exchangeRate: { type: Number },
+  receiptId: { type: String, index: true },
+  merchant: { type: String },
+  paymentMethod: { type: String },
+  receiptDate: { type: String },
+  location: {
+    type: new Schema<ExpenseLocation>(
+      {
+        latitude: { type: Number, required: true },
+        longitude: { type: Number, required: true },
+        name: { type: String },
+        address: { type: String },
+      },
+      { _id: false }
+    ),
+  },
 });
 
+// Date-range queries and reports
+ExpenseSchema.index({ userId: 1, date: 1 });
+// Re-sent receipt photos
+ExpenseSchema.index({ userId: 1, imageDigest: 1 }, { sparse: true });
+
 const ConversationSchema = new Schema<IConversation>({
   userId: { type: String, required: true },
   message: { type: String, required: true },
@@ -75,11 +139,18 @@ export const Counter = model<ICounter>("Counter", CounterSchema);
 // User state for onboarding
 interface IUser extends Document {
   userId: string;
-  state: 'new' | 'awaiting_budget' | 'awaiting_currency' | 'active' | 'awaiting_ocr_confirmation' | 'awaiting_currency_change' | 'awaiting_history_delete_confirm';
+  state: 'new' | 'awaiting_budget' | 'awaiting_currency' | 'active' | 'awaiting_ocr_confirmation' | 'awaiting_currency_change' | 'awaiting_history_delete_confirm' | 'awaiting_import_confirm' | 'awaiting_receipt_split' | 'awaiting_duplicate_confirm' | 'awaiting_bulk_confirm';
   currency?: string;
+  categories?: string[];
+  rolloverEnabled?: boolean;
+  timezone?: string; // IANA name, e.g. Asia/Dhaka
+  imageRetention?: ImageRetention; // unset follows IMAGE_RETENTION
   pendingExpense?: any;
   pendingCurrency?: string;
   pendingDelete?: boolean;
+  pendingImport?: PendingImport;
+  pendingReceipt?: PendingReceipt;
+  pendingBulkEdit?: PendingBulkEdit;
   createdAt: Date;
 }
 
@@ -87,10 +158,186 @@ const UserSchema = new Schema<IUser>({
   userId: { type: String, required: true, unique: true },
   state: { type: String, required: true, default: 'new' },
   currency: { type: String },
+  categories: { type: [String], default: undefined },
+  rolloverEnabled: { type: Boolean },
+  timezone: { type: String },
+  imageRetention: {
+    type: new Schema(
+      {
+        mode: { type: String, enum: ['forever', 'delete', 'compress'], required: true },
+        months: { type: Number },
+      },
+      { _id: false }
+    ),
+  },
   pendingExpense: { type: Schema.Types.Mixed },
   pendingCurrency: { type: String },
   pendingDelete: { type: Boolean },
+  pendingImport: { type: Schema.Types.Mixed },
+  pendingReceipt: { type: Schema.Types.Mixed },
+  pendingBulkEdit: { type: Schema.Types.Mixed },
   createdAt: { type: Date, default: Date.now },
 });
 
 export const User = model<IUser>("User", UserSchema);
+
+// Learned item -> category assignments from user corrections
+interface ICategoryMapping extends Document {
+  userId: string;
+  keyword: string;
+  category: string;
+  updatedAt: Date;
+}
+
+const CategoryMappingSchema = new Schema<ICategoryMapping>({
+  userId: { type: String, required: true },
+  keyword: { type: String, required: true },
+  category: { type: String, required: true },
+  updatedAt: { type: Date, default: Date.now },
+});
+CategoryMappingSchema.index({ userId: 1, keyword: 1 }, { unique: true });
+
+export const CategoryMapping = model<ICategoryMapping>("CategoryMapping", CategoryMappingSchema);
+
+// Recurring expenses (rent, subscriptions, loans) posted automatically by the scheduler
+
+interface IRecurringExpense extends Document {
+  userId: string;
+  number: number; // shown to the user as #R1, #R2, ...
+  item: string;
+  category?: string;
+  price: number;
+  currency: string;
+  frequency: RecurringFrequency;
+  dayOfMonth?: number; // 1-31 for monthly/yearly
+  month?: number; // 1-12 for yearly
+  dayOfWeek?: number; // 0 (Sun) - 6 (Sat) for weekly
+  nextRunDate: string; // YYYY-MM-DD
+  active: boolean;
+  lastPostedAt?: Date;
+  createdAt: Date;
+}
+
+const RecurringExpenseSchema = new Schema<IRecurringExpense>({
+  userId: { type: String, required: true, index: true },
+  number: { type: Number, required: true },
+  item: { type: String, required: true },
+  category: { type: String },
+  price: { type: Number, required: true },
+  currency: { type: String, required: true },
+  frequency: { type: String, enum: ['daily', 'weekly', 'monthly', 'yearly'], required: true },
+  dayOfMonth: { type: Number },
+  month: { type: Number },
+  dayOfWeek: { type: Number },
+  nextRunDate: { type: String, required: true, index: true },
+  active: { type: Boolean, default: true },
+  lastPostedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+});
+
+export const RecurringExpense = model<IRecurringExpense>("RecurringExpense", RecurringExpenseSchema);
+
+// Scanned receipts split into line items; each saved Expense points back here through receiptId
+interface IReceipt extends Document {
+  userId: string;
+  date: string; // YYYY-MM-DD
+  currency: string; // as printed on the receipt
+  items: ReceiptLineItem[];
+  tax: number;
+  discount: number;
+  total: number;
+  merchant?: string;
+  paymentMethod?: string;
+  imageUrl?: string;
+  imageProvider?: ImageProvider;
+  imageRef?: string;
+  createdAt: Date;
+}
+
+const ReceiptSchema = new Schema<IReceipt>({
+  userId: { type: String, required: true, index: true },
+  date: { type: String, required: true },
+  currency: { type: String, required: true },
+  items: {
+    type: [
+      new Schema<ReceiptLineItem>(
+        {
+          name: { type: String, required: true },
+          quantity: { type: Number, required: true },
+          unitPrice: { type: Number, required: true },
+          total: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+    ],
+    default: [],
+  },
+  tax: { type: Number, default: 0 },
+  discount: { type: Number, default: 0 },
+  total: { type: Number, required: true },
+  merchant: { type: String },
+  paymentMethod: { type: String },
+  imageUrl: { type: String },
+  imageProvider: { type: String, enum: ['drive', 'cloudinary', 'local', 's3'] },
+  imageRef: { type: String },
+  createdAt: { type: Date, default: Date.now },
+});
+
+export const Receipt = model<IReceipt>("Receipt", ReceiptSchema);
+
+// Audit trail: one entry per change to an expense, with the expense before and after
+interface IExpenseHistory extends Document {
+  userId: string;
+  expenseId: string;
+  number: number;
+  action: ExpenseChangeAction;
+  before?: ExpenseSnapshot; // absent for "create"
+  after?: ExpenseSnapshot; // absent for "delete"
+  source?: string; // message that made the change
+  actionId: string; // shared by every entry one command produced
+  automatic?: boolean;
+  undoOf?: string; // actionId this entry reverted
+  undoneAt?: Date;
+  createdAt: Date;
+}
+
+const ExpenseHistorySchema = new Schema<IExpenseHistory>({
+  userId: { type: String, required: true },
+  expenseId: { type: String, required: true },
+  number: { type: Number, required: true },
+  action: { type: String, enum: ['create', 'edit', 'delete', 'restore'], required: true },
+  before: { type: Schema.Types.Mixed },
+  after: { type: Schema.Types.Mixed },
+  source: { type: String },
+  actionId: { type: String, required: true },
+  automatic: { type: Boolean },
+  undoOf: { type: String },
+  undoneAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+});
+ExpenseHistorySchema.index({ userId: 1, number: 1, createdAt: 1 });
+ExpenseHistorySchema.index({ userId: 1, createdAt: -1 });
+
+export const ExpenseHistory = model<IExpenseHistory>("ExpenseHistory", ExpenseHistorySchema);
+
+// Deleted expenses, restorable until MongoDB's TTL monitor removes them 30 days later. TrashService
+// deletes their photos shortly before that.
+interface IDeletedExpense extends Document {
+  userId: string;
+  expenseId: string;
+  number: number;
+  expense: ExpenseSnapshot;
+  deletedAt: Date;
+}
+
+const DeletedExpenseSchema = new Schema<IDeletedExpense>({
+  userId: { type: String, required: true },
+  expenseId: { type: String, required: true, unique: true },
+  number: { type: Number, required: true },
+  expense: { type: Schema.Types.Mixed, required: true },
+  deletedAt: { type: Date, default: Date.now },
+});
+DeletedExpenseSchema.index({ userId: 1, number: 1 });
+DeletedExpenseSchema.index({ deletedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const DeletedExpense = model<IDeletedExpense>("DeletedExpense", DeletedExpenseSchema);
@@ -3,13 +3,26 @@ import type { Context } from 'hono';
 import { WhatsAppCloudAdapter } from './adapters/WhatsAppCloudAdapter';
 import { ExpenseService } from './services/ExpenseService';
 import { ExcelService } from './services/ExcelService';
+import { ExportService } from './services/ExportService';
+import { ImportService } from './services/ImportService';
+import { BulkEditService } from './services/BulkEditService';
+import { ReportRequestParser } from './services/ReportRequestParser';
 import { MongoService } from './services/MongoService';
 import { Message, MessageMedia } from './types/wa';
 import mongoose from 'mongoose';
-import { Expense, Budget, Conversation, Counter, User } from './models/ExpenseModel';
+import { Expense, Budget, Conversation, Counter, User, CategoryMapping, RecurringExpense, ExpenseHistory, DeletedExpense, Receipt } from './models/ExpenseModel';
 import { CurrencyService } from './services/CurrencyService';
-import { CloudinaryService } from './services/CloudinaryService';
-import { DriveService } from './services/DriveService';
+import { CategoryService } from './services/CategoryService';
+import { DateService } from './services/DateService';
+import { ExchangeRateService } from './services/ExchangeRateService';
+import { createReceiptProvider } from './services/ReceiptProvider';
+import { ImageLinkService } from './services/ImageLinkService';
+import { ImageRetentionService } from './services/ImageRetentionService';
+import { QueryService } from './services/QueryService';
+import { SummaryService } from './services/SummaryService';
+import { createImageStorage, imageStorageFor } from './services/ImageStorage';
+import { RecurringService } from './services/RecurringService';
+import { TrashService } from './services/TrashService';
 
 const VERIFY_TOKEN = process.env.META_VERIFY_TOKEN || '';
 const ACCESS_TOKEN = process.env.META_ACCESS_TOKEN || '';
@@ -24,25 +37,13 @@ if (!process.env.GROQ_API_KEY || !process.env.MONGO_URI || !ACCESS_TOKEN || !PHO
 // Hidden admin-like purge: delete all user data silently when trigger phrase is received
 async function purgeUserAllData(userId: string): Promise<void> {
   try {
-    // Attempt to delete any Cloudinary images referenced by expenses
-    const expensesWithImages = await Expense.find({ userId, imageProvider: 'cloudinary', imageRef: { $exists: true, $ne: null } });
-    if (expensesWithImages?.length) {
-      for (const exp of expensesWithImages) {
-        const publicId = (exp as any).imageRef as string | undefined;
-        if (publicId && cloudinaryService) {
-          try { await cloudinaryService.deleteImage(publicId); } catch { /* ignore */ }
-        }
-      }
-    }
-
-    // Attempt to delete any Google Drive images referenced by expenses
-    const driveImageExpenses = await Expense.find({ userId, imageProvider: 'drive', imageRef: { $exists: true, $ne: null } });
-    if (driveImageExpenses?.length && driveService) {
-      for (const exp of driveImageExpenses) {
-        const fileId = (exp as any).imageRef as string | undefined;
-        if (fileId) {
-          try { await driveService.deleteFile(fileId); } catch { /* ignore */ }
-        }
+    // Attempt to delete any stored images referenced by expenses, wherever they were kept
+    const expensesWithImages = await Expense.find({ userId, imageRef: { $exists: true, $ne: null } });
+    const trashed = await DeletedExpense.find({ userId });
+    for (const exp of [...expensesWithImages, ...trashed.map((t) => t.expense)]) {
+      const storage = imageStorageFor(exp.imageProvider);
+      if (storage && exp.imageRef) {
+        try { await storage.delete(exp.imageRef); } catch { /* ignore */ }
       }
     }
 
@@ -52,7 +53,12 @@ async function purgeUserAllData(userId: string): Promise<void> {
       Conversation.deleteMany({ userId }),
       Budget.deleteMany({ userId }),
       User.deleteOne({ userId }),
-      Counter.deleteOne({ key: `expense_number:${userId}` }),
+      Counter.deleteMany({ key: { $in: [`expense_number:${userId}`, `recurring_number:${userId}`] } }),
+      CategoryMapping.deleteMany({ userId }),
+      RecurringExpense.deleteMany({ userId }),
+      ExpenseHistory.deleteMany({ userId }),
+      DeletedExpense.deleteMany({ userId }),
+      Receipt.deleteMany({ userId }),
     ]);
   } catch (e) {
     console.error('❌ Error purging user data:', e);
@@ -85,23 +91,28 @@ async function checkMetaToken(): Promise<void> {
 }
 
 const adapter = new WhatsAppCloudAdapter({ accessToken: ACCESS_TOKEN, phoneNumberId: PHONE_NUMBER_ID });
-const mongoService = new MongoService();
-const expenseService = new ExpenseService(adapter);
-const excelService = new ExcelService(adapter);
-
-// Optional Cloudinary integration for deleting stored images during purge
-let cloudinaryService: CloudinaryService | null = null;
-try {
-  cloudinaryService = new CloudinaryService();
-} catch (e) {
-  cloudinaryService = null;
-}
-
-let driveService: DriveService | null = null;
-try {
-  driveService = new DriveService();
-} catch (e) {
-  driveService = null;
+const exchangeRateService = new ExchangeRateService();
+const mongoService = new MongoService(exchangeRateService);
+const expenseService = new ExpenseService(adapter, exchangeRateService, createReceiptProvider(), createImageStorage());
+const excelService = new ExcelService(adapter, exchangeRateService);
+const exportService = new ExportService(adapter, exchangeRateService);
+const importService = new ImportService(adapter, mongoService, exchangeRateService);
+const bulkEditService = new BulkEditService(adapter, mongoService);
+const recurringService = new RecurringService(adapter, expenseService, mongoService);
+const trashService = new TrashService();
+const queryService = new QueryService(adapter, mongoService);
+const summaryService = new SummaryService(adapter, mongoService);
+
+// Current month/day in the user's local time zone, for budget replies
+async function localCalendar(userId: string) {
+  const timeZone = await mongoService.getUserTimezone(userId);
+  const today = DateService.today(timeZone);
+  return {
+    timeZone,
+    today,
+    monthName: DateService.monthName(today.slice(0, 7)),
+    year: parseInt(today.slice(0, 4), 10),
+  };
 }
 
 // Dedup store for webhook message IDs
@@ -124,11 +135,13 @@ async function downloadMediaById(mediaId: string): Promise<MessageMedia> {
   return new MessageMedia(mimetype, b64);
 }
 
-function makeMessageShim(params: { from: string; text?: string; mediaId?: string; caption?: string }): Message {
-  const { from, text, mediaId, caption } = params;
+function makeMessageShim(params: { from: string; text?: string; mediaId?: string; caption?: string; type?: Message['type']; filename?: string }): Message {
+  const { from, text, mediaId, caption, type, filename } = params;
   const hasMedia = !!mediaId;
   const body = (text || caption || '').toString();
   const msg: Message = { from, body, hasMedia };
+  if (type) msg.type = type;
+  if (filename) msg.filename = filename;
   if (hasMedia) {
     msg.downloadMedia = async () => {
       try {
@@ -197,8 +210,24 @@ app.post('/webhook', async (c: Context) => {
             const shim = makeMessageShim({ from, caption, mediaId });
             await routeMessage(shim);
           } else if (msg.type === 'document') {
-            // Not used in current flows; ignore or send help
-            const shim = makeMessageShim({ from, text: 'help' });
+            // CSV imports
+            const shim = makeMessageShim({
+              from,
+              caption: msg.document?.caption || '',
+              mediaId: msg.document?.id,
+              type: 'document',
+              filename: msg.document?.filename || '',
+            });
+            await routeMessage(shim);
+          } else if (msg.type === 'location' && msg.location) {
+            // Tags the expense the user just added
+            const shim = makeMessageShim({ from, type: 'location' });
+            shim.location = {
+              latitude: Number(msg.location.latitude),
+              longitude: Number(msg.location.longitude),
+              ...(msg.location.name ? { name: String(msg.location.name) } : {}),
+              ...(msg.location.address ? { address: String(msg.location.address) } : {}),
+            };
             await routeMessage(shim);
           } else {
             // Unsupported types -> send hint
@@ -213,6 +242,34 @@ app.post('/webhook', async (c: Context) => {
   return c.json({ status: 'ok' });
 });
 
+// Receipt viewer for the signed links in replies and spreadsheets: redirects to the stored image, or
+// serves it directly from storage without a public URL (local disk, private buckets)
+app.get('/v/:token', async (c: Context) => {
+  const verified = ImageLinkService.verifyToken(c.req.param('token') || '');
+  if (verified === 'expired') {
+    return c.text('This link has expired. Send "#<number> image" in WhatsApp to get the receipt again.', 410);
+  }
+  if (!verified || !mongoose.isValidObjectId(verified.expenseId)) {
+    return c.text('Not found', 404);
+  }
+  const expense = await Expense.findById(verified.expenseId);
+  if (!expense) return c.text('Not found', 404);
+  if (expense.imageDeletedAt || !expense.imageUrl) {
+    return c.text('This receipt image has been removed and is no longer available.', 410);
+  }
+  const storage = imageStorageFor(expense.imageProvider);
+  if (!storage || !expense.imageRef) return c.redirect(expense.imageUrl, 302);
+  try {
+    const url = await storage.getUrl(expense.imageRef);
+    if (url) return c.redirect(url, 302);
+    const { data, mimetype } = await storage.download(expense.imageRef);
+    return c.body(new Uint8Array(data), 200, { 'Content-Type': mimetype, 'Cache-Control': 'private, max-age=300' });
+  } catch (e) {
+    console.error('❌ Failed to read stored image', expense.imageRef, e);
+    return c.text('This receipt image could not be found.', 404);
+  }
+});
+
 async function routeMessage(message: Message) {
   try {
     const userId = message.from;
@@ -253,6 +310,30 @@ async function routeMessage(message: Message) {
       return;
     }
 
+    // Scan that looks already saved: YES saves it anyway, NO drops it
+    if (userState === 'awaiting_duplicate_confirm') {
+      const handled = await expenseService.handleDuplicateConfirmation(message.body || '', userId, message, mongoService);
+      if (!handled) {
+        await adapter.sendMessage(userId, 'Please reply with YES to save it anyway or NO to skip it.');
+      }
+      return;
+    }
+
+    // Bulk edit/delete preview: YES applies it, NO cancels
+    if (userState === 'awaiting_bulk_confirm') {
+      await bulkEditService.handleConfirmation(message.body || '', message);
+      return;
+    }
+
+    // Multi-item receipt preview: ALL, TOTAL, DROP <lines> or NO
+    if (userState === 'awaiting_receipt_split') {
+      const handled = await expenseService.handleReceiptReply(message.body || '', userId, message, mongoService);
+      if (!handled) {
+        await adapter.sendMessage(userId, 'Please reply ALL to save each item, TOTAL to save one expense, DROP 2 5 to remove lines, or NO to cancel.');
+      }
+      return;
+    }
+
     // Handle pending image expense flow: user needs to reply with amount or full text
     if (userState === 'awaiting_image_expense') {
       const trimmed = (message.body || '').trim();
@@ -264,52 +345,181 @@ async function routeMessage(message: Message) {
       return;
     }
 
+    // Pending CSV import: YES saves the previewed rows, NO discards them
+    if (userState === 'awaiting_import_confirm') {
+      await importService.handleConfirmation(message.body || '', message);
+      return;
+    }
+
+    // Documents are expense imports (CSV, including files this bot exported; Excel workbooks are declined)
+    if (userState === 'active' && message.type === 'document') {
+      await importService.handleDocument(message);
+      return;
+    }
+
+    // Shared location: attach it to the expense just added
+    if (userState === 'active' && message.type === 'location') {
+      await expenseService.attachLocation(message, mongoService);
+      return;
+    }
+
+    // File exports: "Export csv March", "Export ofx this year"; xlsx goes through the spreadsheet builder
+    if (userState === 'active' && ReportRequestParser.isExportCommand(text)) {
+      const { today } = await localCalendar(userId);
+      const request = ReportRequestParser.parse(message.body || '', today);
+      if (request.format === 'xlsx') {
+        await excelService.sendExcelFile(userId, message);
+      } else {
+        await exportService.sendExport(userId, request);
+      }
+      return;
+    }
+
+    // Summary: "Summary", "Summary last month", "Summary March 2025". "Summary this month" must
+    // not fall through to the Excel keywords below
+    if (userState === 'active' && /^summary\b/i.test(text.trim())) {
+      await summaryService.sendSummary(message.body || '', message);
+      return;
+    }
+
+    // Bulk commands: "#010-#015 delete", "#3,#7,#9 category Food", "delete all today". Ahead of the
+    // Excel keywords, which would otherwise take "delete all this month"
+    if (userState === 'active' && BulkEditService.isBulkCommand(message.body || '')) {
+      await bulkEditService.handleCommand(message.body || '', message);
+      return;
+    }
+
+    // Spending questions: "how much did I spend on food last week?". Checked before the Excel keywords
+    // below, which would otherwise catch questions about "this month" or "this year"
+    if (userState === 'active' && QueryService.looksLikeQuery(message.body || '')) {
+      await queryService.handleQuery((message.body || '').trim(), message);
+      return;
+    }
+
     // Excel exports
-    if (
-      userState === 'active' &&
-      (text.includes('send expense info') ||
-        text.includes('give excel file') ||
-        text.includes('give my expense data') ||
-        text.includes('expnese in excel') ||
-        text.includes('expnese in sheet') ||
-        text.includes('excel sheet') ||
-        text.includes('google sheets') ||
-        text.includes('monthly spend data') ||
-        text.includes('full expense data') ||
-        text.includes('all expense') ||
-        text.includes('report') ||
-        text.includes('this month') ||
-        text.includes('this year'))
-    ) {
+    if (userState === 'active' && ReportRequestParser.isSpreadsheetRequest(text)) {
       // If user asked for a report, send a pre-message indicating detected period
       if (text.includes('report')) {
-        const raw = text;
-        const monthNames = [
-          'january','february','march','april','may','june',
-          'july','august','september','october','november','december'
-        ];
-        const now = new Date();
-        let targetMonthIndex: number | null = null;
-        for (const [i, full] of monthNames.entries()) {
-          const short = full.slice(0, 3);
-          if (raw.includes(full) || new RegExp(`\\b${short}\\b`).test(raw)) {
-            targetMonthIndex = i; break;
-          }
+        const { today } = await localCalendar(userId);
+        const request = ReportRequestParser.parse(message.body || '', today);
+        await adapter.sendMessage(userId, `📊 Generating your report for ${request.label} ⏳✨`);
+      }
+      await excelService.sendExcelFile(userId, message);
+      return;
+    }
+
+    // Recurring expenses: "Repeat Netflix 15 monthly on 5th", "Recurring", "#R1 stop"
+    if (userState === 'active' && /^repeat\s+/i.test(text.trim())) {
+      await recurringService.handleRepeatCommand(message.body || '', message);
+      return;
+    }
+    if (userState === 'active' && text.trim() === 'recurring') {
+      await recurringService.handleListCommand(message);
+      return;
+    }
+    if (userState === 'active' && /^#r\d+\s+/i.test(text.trim())) {
+      await recurringService.handleStopCommand(message.body || '', message);
+      return;
+    }
+
+    // Rollover: carry unspent (or overspent) budget into the next month
+    if (userState === 'active' && /^rollover\s+(on|off)$/i.test(text.trim())) {
+      const enabled = /on$/i.test(text.trim());
+      const currency = await mongoService.getUserCurrency(userId);
+      const carriedOver = await mongoService.setRolloverEnabled(userId, enabled);
+      if (enabled) {
+        const sign = carriedOver >= 0 ? '+' : '-';
+        await adapter.sendMessage(
+          userId,
+          `🔁 *Rollover on.* Unspent budget carries into next month; overspending is taken off it.\n` +
+          `Carried into this month: ${sign}${Math.abs(carriedOver).toFixed(2)} ${currency}`
+        );
+      } else {
+        await adapter.sendMessage(userId, `Rollover off. Your budget repeats each month without carrying leftovers.`);
+      }
+      return;
+    }
+
+    // Receipt photo retention: "Retention" shows it; "Retention forever", "Retention 6 months",
+    // "Retention compress after 3 months" or "Retention default" changes it
+    if (userState === 'active' && /^retention\b/i.test(text.trim())) {
+      const requested = (message.body || '').trim().replace(/^retention\s*/i, '');
+      const ownSetting = await mongoService.getImageRetention(userId);
+      let policy = ImageRetentionService.resolve(ownSetting);
+      let reply: string;
+      if (!requested) {
+        reply = `🗂️ Receipt photos: ${ImageRetentionService.describe(policy)}${ownSetting ? '' : ' (default)'}`;
+      } else if (/^default$/i.test(requested)) {
+        await mongoService.setImageRetention(userId, null);
+        policy = ImageRetentionService.fromEnv();
+        reply = `✅ Receipt photos follow the default again: ${ImageRetentionService.describe(policy)}`;
+      } else {
+        const parsed = ImageRetentionService.parse(requested);
+        if (!parsed) {
+          await adapter.sendMessage(userId, '❌ Try: Retention forever, Retention 6 months, Retention compress after 3 months or Retention default');
+          return;
         }
-        const yearMatch = raw.match(/\b(20\d{2}|19\d{2})\b/);
-        const currentMonthName = now.toLocaleString('default', { month: 'long' });
-        const currentYear = now.getFullYear();
-        let selectedMonth: string = currentMonthName;
-        if (targetMonthIndex !== null && targetMonthIndex >= 0 && targetMonthIndex < monthNames.length) {
-          selectedMonth = monthNames[targetMonthIndex]!;
+        await mongoService.setImageRetention(userId, parsed);
+        policy = parsed;
+        reply = `✅ Receipt photos: ${ImageRetentionService.describe(policy)}`;
+      }
+
+      const cutoff = ImageRetentionService.cutoff(policy, (await localCalendar(userId)).today);
+      if (cutoff && policy.mode !== 'forever') {
+        const due = await mongoService.countImagesBefore(userId, cutoff, policy.mode === 'compress');
+        const action = policy.mode === 'delete' ? 'deleted' : 'compressed';
+        reply += due
+          ? `\n${due} photo${due === 1 ? '' : 's'} from before ${cutoff} will be ${action} at the next cleanup.`
+          : `\nNo photos are old enough to be ${action} yet.`;
+      }
+      if (!requested) reply += `\nChange it like: Retention forever, Retention 6 months or Retention compress after 3 months`;
+      await adapter.sendMessage(userId, reply);
+      return;
+    }
+
+    // Category budget: "Budget Food 8000" (0 removes the category limit)
+    if (userState === 'active' && /^budget\s+[^\d\s].*?\s+\d+(?:\.\d+)?\s*$/i.test(text.trim())) {
+      const match = (message.body || '').trim().match(/^budget\s+(.+?)\s+(\d+(?:\.\d+)?)\s*$/i);
+      if (match) {
+        const categories = await mongoService.getUserCategories(userId);
+        const category = CategoryService.matchCategory(match[1]!, categories);
+        if (!category) {
+          await adapter.sendMessage(userId, `❌ Unknown category "${match[1]}".\nYour categories: ${categories.join(', ')}`);
+          return;
+        }
+        const amount = parseFloat(match[2]!);
+        const currency = await mongoService.getUserCurrency(userId);
+        await mongoService.setCategoryBudget(userId, category, amount, currency);
+        const { today, monthName: month } = await localCalendar(userId);
+        const spent = await mongoService.calculateCategoryTotal(userId, category, today);
+        if (amount > 0) {
+          await adapter.sendMessage(
+            userId,
+            `*${category} budget set* to ${amount.toFixed(2)} ${currency} for ${month} ✅\n` +
+            `Spent so far: ${spent.toFixed(2)} ${currency} · Left: ${(amount - spent).toFixed(2)} ${currency}`
+          );
+        } else {
+          await adapter.sendMessage(userId, `Removed the ${category} budget for ${month}.`);
         }
-        const monthLabel = selectedMonth.charAt(0).toUpperCase() + selectedMonth.slice(1);
-        const yearLabel = targetMonthIndex !== null && yearMatch?.[1]
-          ? parseInt(yearMatch[1]!, 10)
-          : currentYear;
-        await adapter.sendMessage(userId, `📊 Generating your report for ${monthLabel} ${yearLabel} ⏳✨`);
+        return;
       }
-      await excelService.sendExcelFile(userId, message);
+    }
+
+    if (userState === 'active' && text.trim() === 'budgets') {
+      const currency = await mongoService.getUserCurrency(userId);
+      const budget = await mongoService.getMonthlyBudget(userId);
+      const categoryBudgets = await mongoService.getCategoryBudgets(userId);
+      const { today } = await localCalendar(userId);
+      let reply = `💰 *Monthly budget:* ${budget.toFixed(2)} ${currency}\n`;
+      if (!categoryBudgets.length) {
+        reply += `\nNo category budgets yet. Set one like: Budget Food 8000`;
+      }
+      for (const entry of categoryBudgets) {
+        const spent = await mongoService.calculateCategoryTotal(userId, entry.category, today);
+        const flag = spent > entry.budget ? '⚠️' : '🏷️';
+        reply += `${flag} ${entry.category}: ${spent.toFixed(2)} / ${entry.budget.toFixed(2)} ${currency}\n`;
+      }
+      await adapter.sendMessage(userId, reply.trim());
       return;
     }
 
@@ -320,13 +530,18 @@ async function routeMessage(message: Message) {
         const newBudget = parseFloat(match[1]!);
         const currency = await mongoService.getUserCurrency(userId);
         await mongoService.setMonthlyBudgetWithCurrency(userId, newBudget, currency);
-        const month = new Date().toLocaleString('default', { month: 'long' });
-        const year = new Date().getFullYear();
-        const dailyLimit = CurrencyService.getDailyLimit(newBudget);
+        const { monthName: month, year, timeZone } = await localCalendar(userId);
+        const carriedOver = await mongoService.getBudgetCarryOver(userId);
+        const dailyLimit = CurrencyService.getDailyLimit(newBudget + carriedOver, timeZone);
+        const carriedLine = carriedOver
+          ? `↪️ Carried over: ${carriedOver > 0 ? '+' : '-'}${Math.abs(carriedOver).toFixed(2)} ${currency}\n`
+          : '';
         await adapter.sendMessage(
           userId,
           `*Budget set* to ${newBudget.toFixed(2)} ${currency} for ${month} ${year} ✅\n` +
-          `🎯 *Daily limit*: ${dailyLimit.toFixed(2)} ${currency}\n\n` 
+          carriedLine +
+          `🎯 *Daily limit*: ${dailyLimit.toFixed(2)} ${currency}\n\n` +
+          `It repeats every month. Carry leftovers forward with: Rollover on`
         );
         return;
       }
@@ -341,7 +556,7 @@ async function routeMessage(message: Message) {
         if (detected) {
           const currentCurrency = await mongoService.getUserCurrency(userId);
           await mongoService.setPendingCurrency(userId, detected);
-          await adapter.sendMessage(userId, `Change currency to ${detected}? Existing entries stay in ${currentCurrency}.\nReply *YES* to confirm and *NO* to cancel.`);
+          await adapter.sendMessage(userId, `Change currency to ${detected}?\nReply *CONVERT* to also convert your existing ${currentCurrency} entries to ${detected}, *YES* to keep them in ${currentCurrency} (totals still convert them), or *NO* to cancel.`);
         } else {
           await adapter.sendMessage(userId, '❌ Invalid currency. Examples: USD, EUR, INR, BDT, Taka, Rupee, Dollar');
         }
@@ -349,14 +564,67 @@ async function routeMessage(message: Message) {
       }
     }
 
+    if (userState === 'active' && text.trim() === 'categories') {
+      const categories = await mongoService.getUserCategories(userId);
+      await adapter.sendMessage(
+        userId,
+        `🏷️ *Your categories:*\n${categories.map((c) => `• ${c}`).join('\n')}\n\nChange one: #001 category Food\nAdd: Category add Pets\nRemove: Category remove Pets`
+      );
+      return;
+    }
+
+    if (userState === 'active' && /^category\s+(add|remove)\s+\S/i.test(text.trim())) {
+      const match = (message.body || '').trim().match(/^category\s+(add|remove)\s+(.+)$/i);
+      if (match) {
+        const action = match[1]!.toLowerCase();
+        const name = CategoryService.formatCategoryName(match[2]!);
+        if (action === 'add') {
+          const categories = await mongoService.addUserCategory(userId, name);
+          await adapter.sendMessage(userId, `✅ Added category ${name}.\nYour categories: ${categories.join(', ')}`);
+        } else {
+          // An empty list would silently bring back the defaults, so the last category stays
+          const current = await mongoService.getUserCategories(userId);
+          if (current.length === 1 && CategoryService.matchCategory(name, current)) {
+            await adapter.sendMessage(userId, `❌ ${current[0]} is your only category. Add another one first (Category add Pets), then remove it.`);
+            return;
+          }
+          const categories = await mongoService.removeUserCategory(userId, name);
+          if (categories) {
+            await adapter.sendMessage(userId, `🗑️ Removed category ${name}.\nYour categories: ${categories.join(', ')}`);
+          } else {
+            await adapter.sendMessage(userId, `❌ Category ${name} not found. Reply *Categories* to see your list.`);
+          }
+        }
+        return;
+      }
+    }
+
+    // Timezone: "Timezone Asia/Dhaka" (or just "Timezone" to see the current one)
+    if (userState === 'active' && /^time\s?zone\b/i.test(text.trim())) {
+      const requested = (message.body || '').trim().replace(/^time\s?zone\s*/i, '');
+      if (!requested) {
+        const { timeZone, today } = await localCalendar(userId);
+        await adapter.sendMessage(userId, `🕒 Your timezone: ${timeZone} (today is ${today})\nChange it like: Timezone Asia/Dhaka`);
+        return;
+      }
+      const timeZone = DateService.normalizeTimezone(requested);
+      if (!timeZone) {
+        await adapter.sendMessage(userId, '❌ Unknown timezone. Use a name like Asia/Dhaka, Asia/Dubai or Europe/London.');
+        return;
+      }
+      await mongoService.setUserTimezone(userId, timeZone);
+      await adapter.sendMessage(userId, `✅ Timezone set to ${timeZone}. Today is ${DateService.today(timeZone)} for you.`);
+      return;
+    }
+
     if (userState === 'active' && text === 'help') {
-      const helpMessage = `*Quick Commands:*\n\n📝 *Add:* Grocery 100\n✏️ *Edit:* #001 Edit 80\n🗑️ *Delete:* #001 Delete\n💰 *Budget:* Budget 30000\n💱 *Currency:* Currency BDT\n📊 *Report:* Report (current month) or Report January [2025]\n📷 *Scan:* Send a receipt photo (optional caption like Food)\n🙋 *Help:* Help`;
+      const helpMessage = `*Quick Commands:*\n\n📝 *Add:* Grocery 100 (other currency: Taxi 20 EUR)\n📅 *Backdate:* Taxi 300 yesterday or #001 date 12 Mar\n✏️ *Edit:* #001 Edit 80\n🏷️ *Category:* #001 category Food (list: Categories)\n💳 *Details:* #001 paid card or #001 merchant Corner Market (share a location right after adding to tag where)\n🗑️ *Delete:* #001 Delete (bring it back within 30 days: #001 restore)\n📦 *Bulk:* #010-#015 delete, #3,#7,#9 category Food or delete all today\n↩️ *Undo:* Undo reverts your last change; #001 history shows every change\n💰 *Budget:* Budget 30000 or Budget Food 8000 (list: Budgets)\n🔁 *Rollover:* Rollover on / Rollover off\n📅 *Repeat:* Repeat Netflix 15 monthly on 5th (list: Recurring, stop: #R1 stop)\n💱 *Currency:* Currency BDT\n🕒 *Timezone:* Timezone Asia/Dhaka\n🗂️ *Photos:* Retention forever, Retention 6 months or Retention compress after 3 months\n❓ *Ask:* How much did I spend on food last week?\n📊 *Report:* Report (current month), Report January 2025, Report last 30 days or Report 1 Mar - 15 Apr\n📤 *Export:* Export csv March (also json, ofx, qif)\n📥 *Import:* Send a CSV file (date, item, amount)\n🧾 *Summary:* Summary or Summary last month (text + PDF)\n📷 *Scan:* Send a receipt photo (optional caption like Food; caption Split to save each line item, or #001 to attach it to that expense)\n📎 *Receipt:* #001 image sends the stored photo back\n🙋 *Help:* Help`;
       await adapter.sendMessage(userId, helpMessage);
       return;
     }
 
     if (userState === 'new') {
-      const month = new Date().toLocaleString('default', { month: 'long' });
+      const { monthName: month } = await localCalendar(userId);
       await adapter.sendMessage(userId, `👋 👋 Welcome to the ${month} Budget Challenge!\n *First, tell me your preferred currency*. \n👉 Example: AED, USD, INR`);
       await mongoService.setUserState(userId, 'awaiting_currency');
       return;
@@ -368,9 +636,8 @@ async function routeMessage(message: Message) {
         const userCurrency = await mongoService.getUserCurrency(userId);
         await mongoService.setMonthlyBudgetWithCurrency(userId, numeric, userCurrency);
         await mongoService.setUserState(userId, 'active');
-        const month = new Date().toLocaleString('default', { month: 'long' });
-        const year = new Date().getFullYear();
-        const dailyLimit = CurrencyService.getDailyLimit(numeric);
+        const { monthName: month, year, timeZone } = await localCalendar(userId);
+        const dailyLimit = CurrencyService.getDailyLimit(numeric, timeZone);
         // Confirmation message
         await adapter.sendMessage(
           userId,
@@ -408,12 +675,22 @@ async function routeMessage(message: Message) {
       const normalized = (message.body || '').trim().toLowerCase();
       if (normalized === 'yes' || normalized === 'y') {
         const newCurrency = await mongoService.confirmCurrencyChange(userId);
-        if (newCurrency) await adapter.sendMessage(userId, `Done. New entries will use ${newCurrency}.`);
+        if (newCurrency) await adapter.sendMessage(userId, `Done. New entries will use ${newCurrency}. Older entries keep their currency and are converted in totals.`);
+      } else if (normalized === 'convert') {
+        const newCurrency = await mongoService.confirmCurrencyChange(userId);
+        if (newCurrency) {
+          const result = await mongoService.convertUserHistory(userId, newCurrency, { text: message.body || '' });
+          let reply = `Done. Converted ${result.expenses} entr${result.expenses === 1 ? 'y' : 'ies'} and ${result.budgets} budget(s) to ${newCurrency}; each entry keeps its original amount and the rate used.`;
+          if (result.missing.length) {
+            reply += `\n⚠️ No exchange rate for ${result.missing.join(', ')}; those entries were left unchanged.`;
+          }
+          await adapter.sendMessage(userId, reply);
+        }
       } else if (normalized === 'no' || normalized === 'n') {
         await mongoService.clearPendingCurrency(userId);
         await adapter.sendMessage(userId, 'Okay, cancelled the currency change.');
       } else {
-        await adapter.sendMessage(userId, 'Please reply with YES to confirm or NO to cancel the currency change.');
+        await adapter.sendMessage(userId, 'Please reply with CONVERT, YES or NO to the currency change.');
       }
       return;
     }
@@ -429,6 +706,26 @@ async function routeMessage(message: Message) {
       return;
     }
 
+    // Stored receipt photo: "#012 image"
+    if (userState === 'active' && /^#\d+\s+(?:image|photo|receipt)$/i.test((message.body || '').trim())) {
+      await expenseService.sendExpenseImage(message.body || '', userId);
+      return;
+    }
+
+    // Change log and trash: "#012 history", "#012 restore", "Undo"
+    if (userState === 'active' && /^#\d+\s+history$/i.test((message.body || '').trim())) {
+      await expenseService.sendExpenseHistory(message.body || '', userId, mongoService);
+      return;
+    }
+    if (userState === 'active' && /^#\d+\s+(?:restore|undelete)$/i.test((message.body || '').trim())) {
+      await expenseService.handleExpenseRestore(message.body || '', userId, message, mongoService);
+      return;
+    }
+    if (userState === 'active' && text.trim() === 'undo') {
+      await expenseService.handleUndo(message, mongoService);
+      return;
+    }
+
     // Edit/Delete commands
     if (userState === 'active' && /^#\d+\s+delete/i.test(message.body || '')) {
       await expenseService.handleExpenseDelete(message.body || '', userId, message, mongoService);
@@ -475,6 +772,8 @@ async function routeMessage(message: Message) {
 export async function startServer() {
   await connectToMongo();
   await checkMetaToken();
+  recurringService.start();
+  trashService.start();
   const port = Number(process.env.PORT || 3000);
   console.log(`🚀 Starting Hono server on port ${port}`);
   Bun.serve({ fetch: app.fetch, port, hostname: '0.0.0.0' });
@@ -0,0 +1,273 @@
+import type { Client, Message } from "../types/wa";
+import type { BulkOperation, ExpenseChangeSource, PendingBulkEdit } from "../types/types";
+import { MongoService } from "./MongoService";
+import { CategoryService } from "./CategoryService";
+import { DateService } from "./DateService";
+import { PaymentMethodService } from "./PaymentMethodService";
+
+type ExpenseDocument = Awaited<ReturnType<MongoService["getExpensesByNumber"]>>[number];
+
+// "#010-#015 delete", "#3,#7,#9 category Food", "#3, #7-#9 paid card": a list or range, then the change
+const NUMBER_SELECTION = /^(#\d+(?:\s*[-–,]\s*#?\d+)+)\s+(.+)$/i;
+// "delete all today", "delete all yesterday", "delete all last week"
+const DELETE_ALL = /^delete\s+all\s+(.+)$/i;
+const MAX_BULK_EXPENSES = 200;
+const PREVIEW_ROWS = 10;
+
+const pad = (n: number) => `#${String(n).padStart(3, "0")}`;
+const money = (amount: number) => (Math.round(amount * 100) / 100).toFixed(2);
+const plural = (n: number) => `${n} expense${n === 1 ? "" : "s"}`;
+
+export class BulkEditService {
+  private client: Client;
+  private mongoService: MongoService;
+
+  constructor(client: Client, mongoService: MongoService) {
+    this.client = client;
+    this.mongoService = mongoService;
+  }
+
+  // Bulk commands are routed before the single-expense "#012 ..." commands
+  public static isBulkCommand(text: string): boolean {
+    const trimmed = (text || "").trim();
+    return NUMBER_SELECTION.test(trimmed) || DELETE_ALL.test(trimmed);
+  }
+
+  // "#010-#015" -> 10..15, "#3,#7,#9" -> 3, 7, 9; null when unreadable or over the bulk limit
+  public static parseNumbers(selection: string): number[] | null {
+    const numbers = new Set<number>();
+    for (const part of selection.split(",")) {
+      const range = part.trim().match(/^#?(\d+)(?:\s*[-–]\s*#?(\d+))?$/);
+      if (!range) return null;
+      const a = parseInt(range[1]!, 10);
+      const b = range[2] ? parseInt(range[2], 10) : a;
+      const [from, to] = a <= b ? [a, b] : [b, a];
+      if (to - from >= MAX_BULK_EXPENSES) return null;
+      for (let n = from; n <= to; n++) numbers.add(n);
+    }
+    if (!numbers.size || numbers.size > MAX_BULK_EXPENSES) return null;
+    return [...numbers].sort((a, b) => a - b);
+  }
+
+  // "#010–#015, #020": consecutive numbers collapsed into ranges
+  public static formatNumbers(numbers: number[]): string {
+    const runs: string[] = [];
+    let start = numbers[0];
+    for (let i = 0; i < numbers.length; i++) {
+      const current = numbers[i]!;
+      if (numbers[i + 1] === current + 1) continue;
+      runs.push(start === current ? pad(current) : `${pad(start!)}–${pad(current)}`);
+      start = numbers[i + 1];
+    }
+    return runs.length > 6 ? `${runs.slice(0, 6).join(", ")} …` : runs.join(", ");
+  }
+
+  // What to do with each selected expense; a user-facing error when the change can't be read
+  private async parseOperation(text: string, userId: string, today: string): Promise<BulkOperation | { error: string }> {
+    if (/^delete$/i.test(text)) return { kind: "delete" };
+
+    const category = text.match(/^category\s+(.+)$/i);
+    if (category) {
+      const categories = await this.mongoService.getUserCategories(userId);
+      const matched = CategoryService.matchCategory(category[1]!.trim(), categories);
+      if (!matched) return { error: `❌ Unknown category "${category[1]!.trim()}".\nYour categories: ${categories.join(", ")}` };
+      return { kind: "category", category: matched };
+    }
+
+    const date = text.match(/^date\s+(.+)$/i);
+    if (date) {
+      const parsed = DateService.parseDateExpression(date[1]!.trim(), today);
+      if (!parsed || parsed.rest) return { error: "❌ Couldn't read that date. Examples: date yesterday, date 12 Mar, date 2025-03-12" };
+      return { kind: "date", date: parsed.date };
+    }
+
+    const detail = text.match(/^(paid|merchant)\s+(?:by\s+|with\s+|via\s+|at\s+)?(.+)$/i);
+    if (detail) {
+      const kind = detail[1]!.toLowerCase() === "paid" ? "paymentMethod" : "merchant";
+      const value = detail[2]!.trim();
+      if (/^(?:none|clear|remove|-)$/i.test(value)) return { kind, value: null };
+      return { kind, value: kind === "paymentMethod" ? PaymentMethodService.fromUserText(value) : value.replace(/\s+/g, " ").slice(0, 60) };
+    }
+
+    return {
+      error: "❌ Bulk commands can delete or set the category, date, payment method or merchant.\n" +
+        "Examples: #010-#015 delete, #3,#7,#9 category Food, #3,#7 paid card, delete all today",
+    };
+  }
+
+  // Resolve the selection, then preview the change and wait for YES/NO
+  public async handleCommand(messageBody: string, message: Message): Promise<void> {
+    const userId = message.from;
+    const text = (messageBody || "").trim();
+    const today = DateService.today(await this.mongoService.getUserTimezone(userId));
+
+    let expenses: ExpenseDocument[];
+    let operationText: string;
+    let missing: number[] = [];
+
+    const all = text.match(DELETE_ALL);
+    if (all) {
+      const range = DateService.parseDateRange(all[1]!, today);
+      if (!range || range.rest) {
+        await this.client.sendMessage(userId, "❌ Couldn't read that period. Try: delete all today, delete all yesterday or delete all last week");
+        return;
+      }
+      expenses = await this.mongoService.getExpensesInRange(userId, range.from, range.to);
+      if (!expenses.length) {
+        await this.client.sendMessage(userId, `No expenses ${range.label} to delete.`);
+        return;
+      }
+      operationText = "delete";
+    } else {
+      const match = text.match(NUMBER_SELECTION);
+      const numbers = match ? BulkEditService.parseNumbers(match[1]!) : null;
+      if (!match || !numbers) {
+        await this.client.sendMessage(userId, `❌ Select up to ${MAX_BULK_EXPENSES} expenses, like #010-#015 or #3,#7,#9.`);
+        return;
+      }
+      expenses = await this.mongoService.getExpensesByNumber(userId, numbers);
+      if (!expenses.length) {
+        await this.client.sendMessage(userId, `❌ None of ${BulkEditService.formatNumbers(numbers)} exist.`);
+        return;
+      }
+      const found = new Set(expenses.map((e) => e.number));
+      missing = numbers.filter((n) => !found.has(n));
+      operationText = match[2]!.trim();
+    }
+
+    if (expenses.length > MAX_BULK_EXPENSES) {
+      await this.client.sendMessage(userId, `❌ That's ${plural(expenses.length)}. Bulk commands change up to ${MAX_BULK_EXPENSES} at a time.`);
+      return;
+    }
+
+    const operation = await this.parseOperation(operationText, userId, today);
+    if ("error" in operation) {
+      await this.client.sendMessage(userId, operation.error);
+      return;
+    }
+
+    const pending: PendingBulkEdit = { numbers: expenses.map((e) => e.number), operation, command: text };
+    await this.mongoService.storePendingBulkEdit(userId, pending);
+    await this.client.sendMessage(userId, this.formatPreview(expenses, operation, missing));
+  }
+
+  private describe(operation: BulkOperation, count: number): string {
+    switch (operation.kind) {
+      case "delete":
+        return `🗑️ *Delete ${plural(count)}?*`;
+      case "category":
+        return `🏷️ *Set the category of ${plural(count)} to ${operation.category}?*`;
+      case "date":
+        return `📅 *Move ${plural(count)} to ${DateService.formatShort(operation.date)}?*`;
+      case "paymentMethod":
+        return operation.value
+          ? `💳 *Set the payment method of ${plural(count)} to ${operation.value}?*`
+          : `💳 *Remove the payment method from ${plural(count)}?*`;
+      case "merchant":
+        return operation.value
+          ? `🏪 *Set the merchant of ${plural(count)} to ${operation.value}?*`
+          : `🏪 *Remove the merchant from ${plural(count)}?*`;
+    }
+  }
+
+  private formatPreview(expenses: ExpenseDocument[], operation: BulkOperation, missing: number[]): string {
+    const current = (e: ExpenseDocument): string | undefined =>
+      operation.kind === "category" ? e.category
+      : operation.kind === "paymentMethod" ? e.paymentMethod
+      : operation.kind === "merchant" ? e.merchant
+      : undefined;
+
+    const lines = [this.describe(operation, expenses.length)];
+    for (const e of expenses.slice(0, PREVIEW_ROWS)) {
+      const now = operation.kind === "delete" || operation.kind === "date" ? "" : ` — now ${current(e) || "none"}`;
+      lines.push(`${pad(e.number)} ${e.item}: ${money(e.price)} ${e.currency}, ${DateService.formatShort(e.date)}${now}`);
+    }
+    if (expenses.length > PREVIEW_ROWS) lines.push(`…and ${expenses.length - PREVIEW_ROWS} more`);
+
+    const currencies = new Set(expenses.map((e) => e.currency));
+    if (operation.kind === "delete" && currencies.size === 1) {
+      lines.push(`Total: ${money(expenses.reduce((sum, e) => sum + e.price, 0))} ${expenses[0]!.currency}`);
+    }
+    if (missing.length) lines.push(`Not found: ${BulkEditService.formatNumbers(missing)}`);
+    lines.push("", `Reply YES to ${operation.kind === "delete" ? "delete them" : "apply the change"}, or NO to cancel.`);
+    return lines.join("\n");
+  }
+
+  // YES applies the previewed change as one action (a single Undo reverts it), NO drops it
+  public async handleConfirmation(messageBody: string, message: Message): Promise<void> {
+    const userId = message.from;
+    const answer = (messageBody || "").trim().toLowerCase();
+    const pending = await this.mongoService.getPendingBulkEdit(userId);
+    if (!pending || !pending.numbers?.length) {
+      await this.mongoService.clearPendingBulkEdit(userId);
+      await this.client.sendMessage(userId, "❌ Nothing to change. Send the command again.");
+      return;
+    }
+
+    if (answer === "yes" || answer === "y") {
+      await this.apply(userId, pending);
+    } else if (answer === "no" || answer === "n") {
+      await this.mongoService.clearPendingBulkEdit(userId);
+      await this.client.sendMessage(userId, "❎ Cancelled. Nothing was changed.");
+    } else {
+      await this.client.sendMessage(
+        userId,
+        `Please reply YES to ${pending.operation.kind === "delete" ? "delete" : "change"} ${plural(pending.numbers.length)}, or NO to cancel.`
+      );
+    }
+  }
+
+  private async apply(userId: string, pending: PendingBulkEdit): Promise<void> {
+    const { operation } = pending;
+    const expenses = await this.mongoService.getExpensesByNumber(userId, pending.numbers);
+    const source: ExpenseChangeSource = { text: pending.command, actionId: this.mongoService.newActionId() };
+    const months = new Set<string>();
+
+    for (const expense of expenses) {
+      months.add(expense.date.slice(0, 7));
+      if (operation.kind === "delete") {
+        await this.mongoService.deleteExpense(expense, source);
+      } else if (operation.kind === "category") {
+        await this.mongoService.updateExpense(expense, { category: operation.category }, source);
+      } else if (operation.kind === "date") {
+        await this.mongoService.updateExpense(expense, { date: operation.date }, source);
+        months.add(operation.date.slice(0, 7));
+      } else if (operation.value === null) {
+        await this.mongoService.updateExpense(expense, { $unset: { [operation.kind]: 1 } }, source);
+      } else {
+        await this.mongoService.updateExpense(expense, { [operation.kind]: operation.value }, source);
+      }
+    }
+    // Same as a single "#012 category Food": remember the choice for these items
+    if (operation.kind === "category") {
+      for (const item of new Set(expenses.map((e) => e.item))) {
+        await this.mongoService.saveCategoryMapping(userId, item, operation.category);
+      }
+    }
+    await this.mongoService.clearPendingBulkEdit(userId);
+
+    const numbers = BulkEditService.formatNumbers(expenses.map((e) => e.number));
+    const count = plural(expenses.length);
+    const lines = [
+      operation.kind === "delete" ? `✅ Deleted ${count} (${numbers})`
+      : operation.kind === "category" ? `✅ ${count} → 🏷️ ${operation.category} (${numbers})`
+      : operation.kind === "date" ? `✅ Moved ${count} to ${DateService.formatShort(operation.date)} (${numbers})`
+      : operation.value ? `✅ ${count} → ${operation.kind === "paymentMethod" ? "💳" : "🏪"} ${operation.value} (${numbers})`
+      : `✅ Removed the ${operation.kind === "paymentMethod" ? "payment method" : "merchant"} from ${count} (${numbers})`,
+    ];
+    const gone = pending.numbers.length - expenses.length;
+    if (gone > 0) lines.push(`⚠️ ${plural(gone)} had been deleted in the meantime and were skipped.`);
+
+    // Totals once per month the change touched
+    const currency = await this.mongoService.getUserCurrency(userId);
+    for (const month of [...months].sort()) {
+      const total = await this.mongoService.calculateMonthlyTotal(userId, `${month}-01`);
+      const budget = await this.mongoService.getMonthlyBudget(userId, month);
+      lines.push(`${total.month} ${total.year} → Spent: ${money(total.totalAmount)} / ${money(budget)} ${currency}`);
+    }
+    lines.push(`↩️ Reply *Undo* to revert all of them.`);
+
+    console.log(`📤 Sending bulk ${operation.kind} summary to: ${userId}`);
+    await this.client.sendMessage(userId, lines.join("\n"));
+  }
+}
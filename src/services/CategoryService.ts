@@ -0,0 +1,108 @@
+export class CategoryService {
+  public static readonly DEFAULT_CATEGORIES: string[] = [
+    'Food', 'Groceries', 'Transport', 'Bills', 'Shopping',
+    'Health', 'Entertainment', 'Education', 'Rent', 'Other',
+  ];
+
+  public static readonly FALLBACK_CATEGORY = 'Other';
+
+  // Keyword rules used when the user has no learned mapping for an item
+  private static keywordRules: { [category: string]: string[] } = {
+    'Food': [
+      'coffee', 'tea', 'lunch', 'dinner', 'breakfast', 'snack', 'snacks', 'restaurant', 'cafe',
+      'pizza', 'burger', 'biryani', 'kacchi', 'food', 'meal', 'juice', 'drink', 'drinks',
+      'sandwich', 'noodles', 'chicken', 'fuchka', 'chotpoti', 'ice cream', 'dessert', 'foodpanda',
+    ],
+    'Groceries': [
+      'grocery', 'groceries', 'rice', 'dal', 'oil', 'vegetable', 'vegetables', 'fish', 'meat',
+      'egg', 'eggs', 'milk', 'bread', 'fruit', 'fruits', 'potato', 'onion', 'sugar', 'salt',
+      'flour', 'atta', 'supermarket', 'bazar', 'market',
+    ],
+    'Transport': [
+      'taxi', 'uber', 'pathao', 'rickshaw', 'cng', 'bus', 'train', 'metro', 'fuel', 'petrol',
+      'diesel', 'octane', 'gas station', 'parking', 'toll', 'fare', 'flight', 'ticket', 'careem',
+    ],
+    'Bills': [
+      'electricity', 'electric', 'water bill', 'gas bill', 'internet', 'wifi', 'mobile', 'recharge',
+      'phone bill', 'bill', 'bills', 'utility', 'utilities', 'subscription', 'netflix', 'spotify',
+    ],
+    'Shopping': [
+      'clothes', 'shirt', 'shoes', 'dress', 'shopping', 'amazon', 'daraz', 'gift', 'watch',
+      'bag', 'cosmetics', 'electronics',
+    ],
+    'Health': [
+      'medicine', 'pharmacy', 'doctor', 'hospital', 'clinic', 'medical', 'dentist', 'gym', 'test',
+    ],
+    'Entertainment': [
+      'movie', 'cinema', 'game', 'games', 'concert', 'party', 'outing', 'trip',
+    ],
+    'Education': [
+      'book', 'books', 'tuition', 'course', 'school', 'college', 'university', 'exam', 'stationery',
+    ],
+    'Rent': ['rent', 'house rent', 'flat rent'],
+  };
+
+  // Lowercase, strip punctuation and collapse spaces so "Coffee!!" and "coffee" map the same
+  public static normalizeKeyword(text: string): string {
+    return (text || '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+  }
+
+  // Resolve user input like "food" to the canonical category name from the user's list
+  public static matchCategory(input: string, categories: string[]): string | null {
+    const wanted = this.normalizeKeyword(input);
+    if (!wanted) return null;
+    const found = categories.find((c) => this.normalizeKeyword(c) === wanted);
+    return found || null;
+  }
+
+  // Format a category name as Title Case for storing new user-defined categories
+  public static formatCategoryName(input: string): string {
+    return (input || '')
+      .trim()
+      .replace(/\s{2,}/g, ' ')
+      .split(' ')
+      .map((w) => (w ? w.charAt(0).toUpperCase() + w.slice(1).toLowerCase() : w))
+      .join(' ');
+  }
+
+  private static containsWord(haystack: string, needle: string): boolean {
+    if (!needle) return false;
+    return ` ${haystack} `.includes(` ${needle} `);
+  }
+
+  // Pick a category for an item. Learned mappings (keyword -> category) win over the built-in rules:
+  // first an exact item match, then any learned keyword contained in the item, then keyword rules.
+  public static classify(
+    item: string,
+    categories: string[],
+    learned: { keyword: string; category: string }[] = []
+  ): string {
+    const normalized = this.normalizeKeyword(item);
+    const allowed = (category: string) => this.matchCategory(category, categories);
+
+    const exact = learned.find((m) => m.keyword === normalized);
+    if (exact && allowed(exact.category)) return allowed(exact.category)!;
+
+    // Prefer the longest learned keyword so "chicken soup" beats "chicken"
+    const partial = learned
+      .filter((m) => this.containsWord(normalized, m.keyword))
+      .sort((a, b) => b.keyword.length - a.keyword.length);
+    for (const m of partial) {
+      const category = allowed(m.category);
+      if (category) return category;
+    }
+
+    for (const [category, keywords] of Object.entries(this.keywordRules)) {
+      if (!allowed(category)) continue;
+      if (keywords.some((k) => this.containsWord(normalized, k))) {
+        return allowed(category)!;
+      }
+    }
+
+    return allowed(this.FALLBACK_CATEGORY) || this.FALLBACK_CATEGORY;
+  }
+}
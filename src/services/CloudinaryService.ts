@@ -32,7 +32,7 @@ export class CloudinaryService {
     filename: string; // without folder prefix
     userId: string;
     date?: Date;
-  }): Promise<{ publicId: string; secureUrl: string }> {
+  }): Promise<{ publicId: string; secureUrl: string; phash?: string }> {
     const date = options.date || new Date();
     const yyyy = String(date.getFullYear());
     const mm = String(date.getMonth() + 1).padStart(2, '0');
@@ -46,6 +46,7 @@ export class CloudinaryService {
           public_id: options.filename.replace(/\.[^.]+$/, ''),
           resource_type: 'image',
           overwrite: false,
+          phash: true,
         },
         (error: unknown, result: unknown) => {
           if (error) return reject(error);
@@ -59,6 +60,30 @@ export class CloudinaryService {
       throw new Error('Cloudinary upload failed');
     }
 
+    return { publicId: res.public_id, secureUrl: res.secure_url, ...(res.phash ? { phash: String(res.phash) } : {}) };
+  }
+
+  // Delivery URL for an uploaded image
+  public getUrl(publicId: string): string {
+    return cloudinary.url(publicId, { secure: true, resource_type: 'image' });
+  }
+
+  // Overwrite an image with a downscaled, recompressed JPEG of itself (longest side `maxDimension`)
+  public async compressImage(publicId: string, maxDimension: number): Promise<{ publicId: string; secureUrl: string }> {
+    const source = cloudinary.url(publicId, {
+      secure: true,
+      resource_type: 'image',
+      transformation: [{ width: maxDimension, height: maxDimension, crop: 'limit', quality: 'auto:low', fetch_format: 'jpg' }],
+    });
+    const res: UploadApiResponse = await cloudinary.uploader.upload(source, {
+      public_id: publicId,
+      resource_type: 'image',
+      overwrite: true,
+      invalidate: true,
+    });
+    if (!res.public_id || !res.secure_url) {
+      throw new Error('Cloudinary compress failed');
+    }
     return { publicId: res.public_id, secureUrl: res.secure_url };
   }
 
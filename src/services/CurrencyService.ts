@@ -1,11 +1,13 @@
+import { DateService, DEFAULT_TIMEZONE } from './DateService';
+
 export class CurrencyService {
     private static currencyMap: { [key: string]: string } = {
         // Common currency names to ISO codes
         'usd': 'USD', 'dollar': 'USD', 'dollars': 'USD', 'us dollar': 'USD', 'american dollar': 'USD',
-        'eur': 'EUR', 'euro': 'EUR', 'euros': 'EUR', 'european': 'EUR',
-        'gbp': 'GBP', 'pound': 'GBP', 'pounds': 'GBP', 'british pound': 'GBP', 'sterling': 'GBP',
+        'eur': 'EUR', 'euro': 'EUR', 'euros': 'EUR',
+        'gbp': 'GBP', 'british pound': 'GBP', 'british pounds': 'GBP', 'sterling': 'GBP',
         'inr': 'INR', 'rupee': 'INR', 'rupees': 'INR', 'indian rupee': 'INR', 'indian rupees': 'INR',
-        'bdt': 'BDT', 'taka': 'BDT', 'takas': 'BDT', 'bangladeshi taka': 'BDT', 'tk': 'BDT',
+        'bdt': 'BDT', 'taka': 'BDT', 'takas': 'BDT', 'bangladeshi taka': 'BDT',
         'ngn': 'NGN', 'naira': 'NGN', 'nairas': 'NGN', 'nigerian naira': 'NGN', 'nigerian dollar': 'NGN',
         'pkr': 'PKR', 'pakistani rupee': 'PKR', 'pakistani rupees': 'PKR',
         'lkr': 'LKR', 'sri lankan rupee': 'LKR', 'sri lankan rupees': 'LKR',
@@ -13,40 +15,71 @@ export class CurrencyService {
         'aud': 'AUD', 'australian dollar': 'AUD', 'australian dollars': 'AUD',
         'jpy': 'JPY', 'yen': 'JPY', 'japanese yen': 'JPY',
         'cny': 'CNY', 'yuan': 'CNY', 'chinese yuan': 'CNY', 'rmb': 'CNY',
-        'krw': 'KRW', 'won': 'KRW', 'korean won': 'KRW',
+        'krw': 'KRW', 'korean won': 'KRW',
         'thb': 'THB', 'baht': 'THB', 'thai baht': 'THB',
         'myr': 'MYR', 'ringgit': 'MYR', 'malaysian ringgit': 'MYR',
         'sgd': 'SGD', 'singapore dollar': 'SGD', 'singaporean dollar': 'SGD',
         'hkd': 'HKD', 'hong kong dollar': 'HKD',
-        'php': 'PHP', 'peso': 'PHP', 'pesos': 'PHP', 'philippine peso': 'PHP',
+        'php': 'PHP', 'philippine peso': 'PHP', 'philippine pesos': 'PHP',
         'idr': 'IDR', 'rupiah': 'IDR', 'indonesian rupiah': 'IDR',
-        'vnd': 'VND', 'dong': 'VND', 'vietnamese dong': 'VND',
+        'vnd': 'VND', 'vietnamese dong': 'VND',
+        'aed': 'AED', 'dirham': 'AED', 'dirhams': 'AED', 'uae dirham': 'AED',
+        'sar': 'SAR', 'saudi riyal': 'SAR', 'qar': 'QAR', 'qatari riyal': 'QAR',
+        'kwd': 'KWD', 'kuwaiti dinar': 'KWD', 'omr': 'OMR', 'omani rial': 'OMR',
+        'bhd': 'BHD', 'bahraini dinar': 'BHD', 'npr': 'NPR', 'nepalese rupee': 'NPR',
+    };
+
+    private static symbolMap: { [symbol: string]: string } = {
+        '$': 'USD', '€': 'EUR', '£': 'GBP', '₹': 'INR', '৳': 'BDT', '₦': 'NGN', '¥': 'JPY',
+        '₩': 'KRW', '฿': 'THB', '₱': 'PHP', '₫': 'VND',
     };
 
+    private static codes = new Set(Object.values(CurrencyService.currencyMap));
+
+    // Codes and names allowed after an amount ("20 eur", "15 euros"), longest first ("indian rupee" before "rupee")
+    private static namePattern = Object.keys(CurrencyService.currencyMap)
+        .sort((a, b) => b.length - a.length)
+        .map((k) => k.replace(/\s+/g, '\\s+'))
+        .join('|');
+    private static symbolPattern = Object.keys(CurrencyService.symbolMap)
+        .map((s) => s.replace(/[$]/g, '\\$'))
+        .join('|');
+
+    // A currency on its own ("EUR", "taka", "€"), or next to an amount ("200 BDT", "৳ 200")
     public static detectCurrency(text: string): string | null {
-        const normalizedText = text.toLowerCase().trim();
+        const normalizedText = text.toLowerCase().trim().replace(/\s+/g, ' ');
+        if (this.currencyMap[normalizedText]) return this.currencyMap[normalizedText];
+        if (this.symbolMap[normalizedText]) return this.symbolMap[normalizedText];
+        return this.amountCurrency(text.trim())?.currency ?? null;
+    }
 
-        // Check for exact matches first
-        if (this.currencyMap[normalizedText]) {
-            return this.currencyMap[normalizedText];
-        }
+    // Currency written right next to the last amount in an expense: "20 EUR", "20eur", "15 euros",
+    // "20€", "€20", "GBP 15". Words elsewhere in the text don't count, so "Pound cake 200" and
+    // "Php course 1500" stay in the user's currency. In front of the amount only codes in capitals
+    // and symbols count ("Sar 500" is an item called Sar). Returns the code and the text without it.
+    public static amountCurrency(text: string): { currency: string; rest: string } | null {
+        const amount = text.match(/\d+(?:[.,]\d+)?(?!.*\d)/);
+        if (!amount) return null;
+        const start = amount.index!;
+        const end = start + amount[0].length;
+        const before = text.slice(0, start);
+        const after = text.slice(end);
 
-        // Check for partial matches
-        for (const [key, value] of Object.entries(this.currencyMap)) {
-            if (normalizedText.includes(key)) {
-                return value;
-            }
+        const following = after.match(new RegExp(`^\\s*(?:(${this.symbolPattern})|(${this.namePattern})(?![\\p{L}]))`, 'iu'));
+        if (following) {
+            const currency = following[1]
+                ? this.symbolMap[following[1]]!
+                : this.currencyMap[following[2]!.toLowerCase().replace(/\s+/g, ' ')]!;
+            return { currency, rest: `${before}${amount[0]} ${after.slice(following[0].length)}`.replace(/\s{2,}/g, ' ').trim() };
         }
 
-        // Check for ISO codes (3 letter uppercase)
-        const isoMatch = text.match(/\b[A-Z]{3}\b/);
-        if (isoMatch) {
-            const iso = isoMatch[0];
-            if (Object.values(this.currencyMap).includes(iso)) {
-                return iso;
+        const preceding = before.match(new RegExp(`(?:(${this.symbolPattern})|(?<![\\p{L}])([A-Z]{3}))\\s*$`, 'u'));
+        if (preceding) {
+            const currency = preceding[1] ? this.symbolMap[preceding[1]]! : preceding[2]!;
+            if (preceding[1] || this.codes.has(currency)) {
+                return { currency, rest: `${before.slice(0, preceding.index)} ${text.slice(start)}`.replace(/\s{2,}/g, ' ').trim() };
             }
         }
-
         return null;
     }
 
@@ -63,29 +96,18 @@ export class CurrencyService {
         return `${amount.toFixed(2)} ${currency}`;
     }
 
-    public static getDailyLimit(monthlyBudget: number): number {
-        const daysInMonth = new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).getDate();
+    public static getDailyLimit(monthlyBudget: number, timeZone: string = DEFAULT_TIMEZONE): number {
+        const daysInMonth = DateService.daysInMonth(DateService.currentMonth(timeZone));
         return Math.round((monthlyBudget / daysInMonth) * 100) / 100;
     }
 
-    public static calculateDynamicDailyLimit(remainingBudget: number): number {
-        const today = new Date();
-        const lastDayOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
-        const remainingDays = lastDayOfMonth - today.getDate() + 1; // including today
+    // Spread the remaining budget over the days left in the month (including today), in the user's local time
+    public static calculateDynamicDailyLimit(remainingBudget: number, timeZone: string = DEFAULT_TIMEZONE): number {
+        const today = DateService.today(timeZone);
+        const lastDayOfMonth = DateService.daysInMonth(today.slice(0, 7));
+        const remainingDays = lastDayOfMonth - parseInt(today.slice(8, 10), 10) + 1; // including today
 
         if (remainingDays <= 0) return 0;
         return Math.round((remainingBudget / remainingDays) * 100) / 100;
     }
-
-    public static async getTodaysSpending(userId: string): Promise<number> {
-        const today = new Date().toISOString().split('T')[0];
-        const { Expense } = await import('../models/ExpenseModel');
-
-        const todaysExpenses = await Expense.find({
-            userId,
-            date: today
-        });
-
-        return todaysExpenses.reduce((total, expense) => total + expense.price, 0);
-    }
-}
\ No newline at end of file
+}
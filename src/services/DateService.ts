@@ -0,0 +1,363 @@
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// Month names (full or 3-letter, plus "sept") as a regex alternation
+const MONTH_PATTERN = "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+// WhatsApp IDs start with the country calling code. Countries spanning several zones map to
+// their most populous one; users can correct it with "Timezone <Area/City>".
+const COUNTRY_TIMEZONES: { [code: string]: string } = {
+  '880': 'Asia/Dhaka', '971': 'Asia/Dubai', '966': 'Asia/Riyadh', '974': 'Asia/Qatar',
+  '965': 'Asia/Kuwait', '968': 'Asia/Muscat', '973': 'Asia/Bahrain', '977': 'Asia/Kathmandu',
+  '852': 'Asia/Hong_Kong', '234': 'Africa/Lagos', '254': 'Africa/Nairobi',
+  '91': 'Asia/Kolkata', '92': 'Asia/Karachi', '94': 'Asia/Colombo', '60': 'Asia/Kuala_Lumpur',
+  '65': 'Asia/Singapore', '62': 'Asia/Jakarta', '63': 'Asia/Manila', '66': 'Asia/Bangkok',
+  '84': 'Asia/Ho_Chi_Minh', '81': 'Asia/Tokyo', '82': 'Asia/Seoul', '86': 'Asia/Shanghai',
+  '90': 'Europe/Istanbul', '44': 'Europe/London', '49': 'Europe/Berlin', '33': 'Europe/Paris',
+  '39': 'Europe/Rome', '34': 'Europe/Madrid', '31': 'Europe/Amsterdam', '20': 'Africa/Cairo',
+  '27': 'Africa/Johannesburg', '61': 'Australia/Sydney', '55': 'America/Sao_Paulo',
+  '52': 'America/Mexico_City', '7': 'Europe/Moscow', '1': 'America/New_York',
+};
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// A single calendar date as written in ranges: 2025-03-01, 01/03/2025, 1 Mar [2025], Mar 1 [2025]
+const DATE_TOKEN =
+  `\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}[\\/.]\\d{1,2}[\\/.](?:\\d{4}|\\d{2})|` +
+  `\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTH_PATTERN})\\b(?:,?\\s+\\d{4})?|` +
+  `(?:${MONTH_PATTERN})\\s+\\d{1,2}(?:st|nd|rd|th)?\\b(?:,?\\s+\\d{4})?`;
+
+const QUARTER_ORDINALS: { [word: string]: number } = {
+  first: 1, second: 2, third: 3, fourth: 4, "1st": 1, "2nd": 2, "3rd": 3, "4th": 4,
+};
+
+const WEEKDAY_PATTERN = "sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:rs(?:day)?)?|fri(?:day)?|sat(?:urday)?";
+
+export class DateService {
+  // Today's date as YYYY-MM-DD in the given IANA time zone (UTC when omitted)
+  public static today(timeZone: string = DEFAULT_TIMEZONE): string {
+    return this.toLocalDate(new Date(), timeZone);
+  }
+
+  // The calendar date (YYYY-MM-DD) an instant falls on in the given time zone
+  public static toLocalDate(instant: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).formatToParts(instant);
+    const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+    return `${get('year')}-${get('month')}-${get('day')}`;
+  }
+
+  // Current month as YYYY-MM in the given time zone
+  public static currentMonth(timeZone: string = DEFAULT_TIMEZONE): string {
+    return this.today(timeZone).slice(0, 7);
+  }
+
+  public static daysInMonth(month: string): number {
+    const [y, m] = month.split("-").map((p) => parseInt(p, 10));
+    return new Date(Date.UTC(y!, m!, 0)).getUTCDate();
+  }
+
+  // "2025-03" -> "March"
+  public static monthName(month: string): string {
+    const name = MONTHS[parseInt(month.slice(5, 7), 10) - 1] || '';
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  }
+
+  public static isValidTimezone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Accept "asia/dhaka" or "Asia/Dhaka" and return the canonical IANA spelling
+  public static normalizeTimezone(input: string): string | null {
+    const trimmed = (input || '').trim();
+    if (!trimmed || !this.isValidTimezone(trimmed)) return null;
+    return new Intl.DateTimeFormat('en-US', { timeZone: trimmed }).resolvedOptions().timeZone;
+  }
+
+  // Guess a time zone from the WhatsApp ID's country calling code (longest prefix wins)
+  public static inferTimezone(phone: string): string {
+    const digits = (phone || '').replace(/\D/g, '');
+    for (const length of [3, 2, 1]) {
+      const zone = COUNTRY_TIMEZONES[digits.slice(0, length)];
+      if (zone) return zone;
+    }
+    return DEFAULT_TIMEZONE;
+  }
+
+  // Stored preference first, then the phone-number guess
+  public static resolveTimezone(userId: string, stored?: string | null): string {
+    if (stored && this.isValidTimezone(stored)) return stored;
+    return this.inferTimezone(userId);
+  }
+
+  public static addDays(date: string, days: number): string {
+    const [y, m, d] = date.split("-").map((p) => parseInt(p, 10));
+    return new Date(Date.UTC(y!, m! - 1, d! + days)).toISOString().slice(0, 10);
+  }
+
+  // 0 = Sunday ... 6 = Saturday
+  public static weekday(date: string): number {
+    const [y, m, d] = date.split("-").map((p) => parseInt(p, 10));
+    return new Date(Date.UTC(y!, m! - 1, d!)).getUTCDay();
+  }
+
+  private static monthIndex(token: string): number {
+    const t = token.toLowerCase().slice(0, 3);
+    return MONTHS.findIndex((m) => m.startsWith(t));
+  }
+
+  private static weekdayIndex(token: string): number {
+    const t = token.toLowerCase().slice(0, 3);
+    return WEEKDAYS.findIndex((d) => d.startsWith(t));
+  }
+
+  // Build YYYY-MM-DD, rejecting impossible dates like 31 Feb
+  private static buildDate(year: number, monthIndex: number, day: number): string | null {
+    if (monthIndex < 0 || monthIndex > 11 || day < 1 || day > 31) return null;
+    const date = new Date(Date.UTC(year, monthIndex, day));
+    if (date.getUTCMonth() !== monthIndex || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+  }
+
+  // A day/month without a year means the most recent such date (never one in the future)
+  private static withoutYear(monthIndex: number, day: number, today: string): string | null {
+    const year = parseInt(today.slice(0, 4), 10);
+    const candidate = this.buildDate(year, monthIndex, day);
+    if (candidate && candidate <= today) return candidate;
+    return this.buildDate(year - 1, monthIndex, day);
+  }
+
+  // Find a date expression anywhere in the text and return the date plus the text without it.
+  // Supports: today, yesterday, day before yesterday, N days ago, last friday, on friday,
+  // 12 Mar [2025], Mar 12 [2025], 2025-03-12 and 12/03/2025 (day first).
+  public static parseDateExpression(text: string, today: string = this.today()): { date: string; rest: string } | null {
+    const source = text || "";
+    const strip = (match: RegExpMatchArray) =>
+      (source.slice(0, match.index) + " " + source.slice(match.index! + match[0].length))
+        .replace(/\s{2,}/g, " ")
+        .trim();
+
+    const iso = source.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+    if (iso) {
+      const date = this.buildDate(parseInt(iso[1]!, 10), parseInt(iso[2]!, 10) - 1, parseInt(iso[3]!, 10));
+      if (date) return { date, rest: strip(iso) };
+    }
+
+    const slashed = source.match(/\b(\d{1,2})[\/.](\d{1,2})[\/.](\d{2}|\d{4})\b/);
+    if (slashed) {
+      let year = parseInt(slashed[3]!, 10);
+      if (year < 100) year += 2000;
+      const date = this.buildDate(year, parseInt(slashed[2]!, 10) - 1, parseInt(slashed[1]!, 10));
+      if (date) return { date, rest: strip(slashed) };
+    }
+
+    // "20 Dec 25" could be day-first or month-first: prefer whichever ends later in the text,
+    // since dates usually trail the amount ("Taxi 20 Dec 25" = Dec 25, price 20)
+    const dayFirst = source.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_PATTERN})\\b(?:,?\\s+(\\d{4})\\b)?`, "i"));
+    const monthFirst = source.match(new RegExp(`\\b(${MONTH_PATTERN})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, "i"));
+    const endOf = (m: RegExpMatchArray | null) => (m ? m.index! + m[0].length : -1);
+    const candidates: { match: RegExpMatchArray; day: string; month: string }[] = [];
+    if (dayFirst) candidates.push({ match: dayFirst, day: dayFirst[1]!, month: dayFirst[2]! });
+    if (monthFirst) candidates.push({ match: monthFirst, day: monthFirst[2]!, month: monthFirst[1]! });
+    candidates.sort((a, b) => endOf(b.match) - endOf(a.match));
+    for (const { match, day, month } of candidates) {
+      const monthIndex = this.monthIndex(month);
+      const date = match[3]
+        ? this.buildDate(parseInt(match[3], 10), monthIndex, parseInt(day, 10))
+        : this.withoutYear(monthIndex, parseInt(day, 10), today);
+      if (date) return { date, rest: strip(match) };
+    }
+
+    const dayBefore = source.match(/\b(?:the\s+)?day\s+before\s+yesterday\b/i);
+    if (dayBefore) return { date: this.addDays(today, -2), rest: strip(dayBefore) };
+
+    const yesterday = source.match(/\byesterday\b/i);
+    if (yesterday) return { date: this.addDays(today, -1), rest: strip(yesterday) };
+
+    const todayMatch = source.match(/\btoday\b/i);
+    if (todayMatch) return { date: today, rest: strip(todayMatch) };
+
+    const daysAgo = source.match(/\b(\d{1,3})\s+days?\s+ago\b/i);
+    if (daysAgo) return { date: this.addDays(today, -parseInt(daysAgo[1]!, 10)), rest: strip(daysAgo) };
+
+    // "last friday" / "on friday" mean the most recent such day before today
+    const weekday = source.match(new RegExp(`\\b(?:last|on)\\s+(${WEEKDAY_PATTERN})\\b`, "i"));
+    if (weekday) {
+      const target = this.weekdayIndex(weekday[1]!);
+      const diff = (this.weekday(today) - target + 7) % 7 || 7;
+      return { date: this.addDays(today, -diff), rest: strip(weekday) };
+    }
+
+    return null;
+  }
+
+  // Shift a date by whole months, clamping the day to the target month's length (31 Mar - 1 month = 28/29 Feb)
+  public static addMonths(date: string, months: number): string {
+    const [y, m, d] = date.split("-").map((p) => parseInt(p, 10));
+    const first = new Date(Date.UTC(y!, m! - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), Math.min(d!, lastDay))).toISOString().slice(0, 10);
+  }
+
+  // Inclusive first/last day of a YYYY-MM month
+  public static monthRange(month: string): { from: string; to: string } {
+    return { from: `${month}-01`, to: `${month}-${String(this.daysInMonth(month)).padStart(2, "0")}` };
+  }
+
+  // Find a date range anywhere in the text and return it (inclusive YYYY-MM-DD bounds) with a label
+  // and the text without it. Weeks start on Monday. Supports: explicit ranges (1 Mar - 15 Apr,
+  // 2025-03-01 to 2025-04-15, Jan - Mar 2025), Q1 [2025] and this/last quarter, today, yesterday,
+  // this/last week, this/last month, this/last year, last/past N days|weeks|months, since <date>,
+  // March [2025] (a month or quarter without a year is the most recent one) and any single date
+  // parseDateExpression knows.
+  public static parseDateRange(
+    text: string,
+    today: string = this.today()
+  ): { from: string; to: string; label: string; rest: string } | null {
+    const source = text || "";
+    const strip = (match: RegExpMatchArray) =>
+      (source.slice(0, match.index) + " " + source.slice(match.index! + match[0].length))
+        .replace(/\s{2,}/g, " ")
+        .trim();
+    const thisMonth = today.slice(0, 7);
+    const weekStart = this.addDays(today, -((this.weekday(today) + 6) % 7));
+
+    // "1 Mar - 15 Apr": the end date is the most recent such date, the start the most recent before it
+    const explicit = source.match(
+      new RegExp(`(?:\\b(?:from|between)\\s+)?\\b(${DATE_TOKEN})\\s*(?:-|–|—|\\bto\\b|\\buntil\\b|\\btill\\b|\\band\\b)\\s*\\b(${DATE_TOKEN})`, "i")
+    );
+    if (explicit) {
+      const end = this.parseDateExpression(explicit[2]!, today);
+      const start = end ? this.parseDateExpression(explicit[1]!, end.date) : null;
+      if (start && end) {
+        const [from, to] = start.date <= end.date ? [start.date, end.date] : [end.date, start.date];
+        return { from, to, label: `${this.formatShort(from)} – ${this.formatShort(to)}`, rest: strip(explicit) };
+      }
+    }
+
+    // "Jan - Mar 2025": whole months; without a year the range ends in the most recent such month
+    const monthSpan = source.match(
+      new RegExp(`\\b(${MONTH_PATTERN})(?:\\s+(\\d{4}))?\\s*(?:-|–|—|\\bto\\b|\\buntil\\b|\\btill\\b)\\s*(${MONTH_PATTERN})\\b(?:\\s+(\\d{4}))?`, "i")
+    );
+    if (monthSpan) {
+      const currentYear = parseInt(today.slice(0, 4), 10);
+      const endIndex = this.monthIndex(monthSpan[3]!);
+      const startIndex = this.monthIndex(monthSpan[1]!);
+      let endYear = monthSpan[4] ? parseInt(monthSpan[4], 10) : currentYear;
+      if (!monthSpan[4] && endIndex > parseInt(today.slice(5, 7), 10) - 1) endYear -= 1;
+      const startYear = monthSpan[2] ? parseInt(monthSpan[2], 10) : startIndex <= endIndex ? endYear : endYear - 1;
+      const fromMonth = `${startYear}-${String(startIndex + 1).padStart(2, "0")}`;
+      const toMonth = `${endYear}-${String(endIndex + 1).padStart(2, "0")}`;
+      if (fromMonth <= toMonth) {
+        const label = `${this.monthName(fromMonth)} ${startYear} – ${this.monthName(toMonth)} ${endYear}`;
+        return { from: `${fromMonth}-01`, to: this.monthRange(toMonth).to, label, rest: strip(monthSpan) };
+      }
+    }
+
+    // "Q1 2025", "first quarter", "this quarter", "last quarter"
+    const quarter = source.match(
+      /\b(?:q([1-4])|(first|second|third|fourth|1st|2nd|3rd|4th)\s+quarter|(this|current|last|previous)\s+quarter)\b(?:\s+(?:of\s+)?(\d{4})\b)?/i
+    );
+    if (quarter) {
+      const currentQuarter = Math.floor((parseInt(today.slice(5, 7), 10) - 1) / 3) + 1;
+      let year = quarter[4] ? parseInt(quarter[4], 10) : parseInt(today.slice(0, 4), 10);
+      let q: number;
+      if (quarter[3]) {
+        q = /^(last|previous)$/i.test(quarter[3]) ? currentQuarter - 1 : currentQuarter;
+        if (q === 0) {
+          q = 4;
+          year -= 1;
+        }
+      } else {
+        q = quarter[1] ? parseInt(quarter[1], 10) : QUARTER_ORDINALS[quarter[2]!.toLowerCase()]!;
+        // Without a year, a quarter that hasn't started yet means last year's
+        if (!quarter[4] && q > currentQuarter) year -= 1;
+      }
+      const fromMonth = `${year}-${String((q - 1) * 3 + 1).padStart(2, "0")}`;
+      const toMonth = `${year}-${String(q * 3).padStart(2, "0")}`;
+      const current = !!quarter[3] && !/^(last|previous)$/i.test(quarter[3]);
+      const label = quarter[3] ? `${current ? "this" : "last"} quarter` : `Q${q} ${year}`;
+      // Like "this month", the current quarter runs up to today
+      return { from: `${fromMonth}-01`, to: current ? today : this.monthRange(toMonth).to, label, rest: strip(quarter) };
+    }
+
+    const relative = source.match(/\b(this|current|last|previous)\s+(week|month|year)\b/i);
+    if (relative) {
+      const last = /^(last|previous)$/i.test(relative[1]!);
+      const unit = relative[2]!.toLowerCase();
+      const label = `${last ? "last" : "this"} ${unit}`;
+      if (unit === "week") {
+        const from = last ? this.addDays(weekStart, -7) : weekStart;
+        return { from, to: last ? this.addDays(weekStart, -1) : today, label, rest: strip(relative) };
+      }
+      if (unit === "month") {
+        const month = last ? this.addMonths(`${thisMonth}-01`, -1).slice(0, 7) : thisMonth;
+        const range = this.monthRange(month);
+        return { from: range.from, to: last ? range.to : today, label, rest: strip(relative) };
+      }
+      const year = parseInt(today.slice(0, 4), 10) - (last ? 1 : 0);
+      return { from: `${year}-01-01`, to: last ? `${year}-12-31` : today, label, rest: strip(relative) };
+    }
+
+    const span = source.match(/\b(?:last|past|previous)\s+(\d{1,3})\s+(days?|weeks?|months?)\b/i);
+    if (span) {
+      const n = parseInt(span[1]!, 10);
+      const unit = span[2]!.toLowerCase().replace(/s$/, "");
+      if (n > 0) {
+        const from = unit === "month"
+          ? this.addDays(this.addMonths(today, -n), 1)
+          : this.addDays(today, -(unit === "week" ? n * 7 : n) + 1);
+        return { from, to: today, label: `last ${n} ${unit}${n === 1 ? "" : "s"}`, rest: strip(span) };
+      }
+    }
+
+    const since = source.match(/\bsince\s+(.+)$/i);
+    if (since) {
+      // "since monday" means the most recent Monday, like "on monday"
+      const parsed = this.parseDateExpression(since[1]!, today) || this.parseDateExpression(`on ${since[1]}`, today);
+      if (parsed && parsed.date <= today) {
+        const rest = (source.slice(0, since.index) + " " + parsed.rest).replace(/\s{2,}/g, " ").trim();
+        return { from: parsed.date, to: today, label: `since ${this.formatShort(parsed.date)}`, rest };
+      }
+    }
+
+    // "March", "in Mar 2025" -- but not "12 March", which is a single day handled below
+    const monthMatch = source.match(new RegExp(`(?<!\\d(?:st|nd|rd|th)?\\s*)\\b(${MONTH_PATTERN})\\b(?!\\s+\\d{1,2}\\b(?!\\d))(?:\\s+(\\d{4}))?`, "i"));
+    if (monthMatch) {
+      const monthIndex = this.monthIndex(monthMatch[1]!);
+      let year = monthMatch[2] ? parseInt(monthMatch[2], 10) : parseInt(today.slice(0, 4), 10);
+      let month = `${year}-${String(monthIndex + 1).padStart(2, "0")}`;
+      if (!monthMatch[2] && month > thisMonth) {
+        year -= 1;
+        month = `${year}-${String(monthIndex + 1).padStart(2, "0")}`;
+      }
+      const range = this.monthRange(month);
+      return { ...range, label: `${this.monthName(month)} ${year}`, rest: strip(monthMatch) };
+    }
+
+    const single = this.parseDateExpression(source, today);
+    if (single) {
+      const label = single.date === today ? "today" : single.date === this.addDays(today, -1) ? "yesterday" : this.formatShort(single.date);
+      return { from: single.date, to: single.date, label, rest: single.rest };
+    }
+
+    return null;
+  }
+
+  // "2025-03-12" -> "12 Mar 2025"
+  public static formatShort(date: string): string {
+    const [y, m, d] = date.split("-").map((p) => parseInt(p, 10));
+    const month = MONTHS[m! - 1] || "";
+    return `${d} ${month.charAt(0).toUpperCase()}${month.slice(1, 3)} ${y}`;
+  }
+}
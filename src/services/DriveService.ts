@@ -133,6 +133,27 @@ export class DriveService {
     return { fileId, webViewLink, directLink };
   }
 
+  // Replace a file's content with Drive's own downscaled JPEG preview (longest side `maxDimension`).
+  // Returns false, leaving the file alone, when the preview wouldn't be smaller.
+  public async compressImage(fileId: string, maxDimension: number): Promise<boolean> {
+    await this.ensureAuth();
+    const meta = await this.drive.files.get({ fileId, fields: "size, thumbnailLink", supportsAllDrives: true });
+    const thumbnailLink = meta.data.thumbnailLink;
+    if (!thumbnailLink) throw new Error("Drive has no preview for this file");
+
+    const res = await fetch(thumbnailLink.replace(/=s\d+$/, "") + `=s${maxDimension}`);
+    if (!res.ok) throw new Error(`Drive preview download failed: HTTP ${res.status}`);
+    const data = Buffer.from(await res.arrayBuffer());
+    if (meta.data.size && data.length >= Number(meta.data.size)) return false;
+
+    await this.drive.files.update({
+      fileId,
+      media: { mimeType: "image/jpeg", body: require("stream").Readable.from(data) },
+      supportsAllDrives: true,
+    });
+    return true;
+  }
+
   public async deleteFile(fileId: string): Promise<void> {
     await this.ensureAuth();
     await this.drive.files.delete({ fileId, supportsAllDrives: true });
@@ -0,0 +1,111 @@
+import { createHash } from "crypto";
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+import type { ExpenseData } from "../types/types";
+
+// Perceptual hashes of the same receipt photographed or re-compressed differ in a few bits;
+// unrelated receipts are usually 20+ bits apart
+const MAX_HASH_DISTANCE = 6;
+// Average-hash grid: one bit per cell, 64 bits
+const HASH_SIZE = 8;
+// Pixels averaged per grid cell along each axis; enough to smooth out noise without reading every pixel
+const SAMPLES_PER_CELL = 12;
+
+export type DuplicateReason = "image" | "details";
+
+// Fields of a saved expense that duplicate detection compares against
+export type DuplicateCandidate = Pick<
+  ExpenseData,
+  "price" | "currency" | "date" | "originalPrice" | "originalCurrency" | "merchant" | "receiptDate" | "imageHash" | "imageDigest"
+>;
+
+export class DuplicateReceiptService {
+  // SHA-256 of the image bytes; catches the same file sent or forwarded twice
+  public static digest(buffer: Buffer): string {
+    return createHash("sha256").update(buffer).digest("hex");
+  }
+
+  // Perceptual hash (aHash) of a JPEG or PNG as 16 hex characters, computed here so it doesn't depend
+  // on the image storage. The photo is reduced to an 8×8 grid of average brightness and each bit says
+  // whether a cell is brighter than the whole image, so blank paper and printed lines stay apart
+  // through recompression. Null for other formats or unreadable files.
+  public static perceptualHash(buffer: Buffer): string | null {
+    let image: { width: number; height: number; data: Uint8Array };
+    try {
+      if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+        image = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: 50, maxMemoryUsageInMB: 512 });
+      } else if (buffer.subarray(1, 4).toString("latin1") === "PNG") {
+        image = PNG.sync.read(buffer);
+      } else {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+    const { width, height, data } = image;
+    if (width < HASH_SIZE || height < HASH_SIZE) return null;
+
+    const grid: number[] = [];
+    for (let row = 0; row < HASH_SIZE; row++) {
+      for (let col = 0; col < HASH_SIZE; col++) {
+        let sum = 0;
+        for (let sy = 0; sy < SAMPLES_PER_CELL; sy++) {
+          const y = Math.floor(((row + (sy + 0.5) / SAMPLES_PER_CELL) * height) / HASH_SIZE);
+          for (let sx = 0; sx < SAMPLES_PER_CELL; sx++) {
+            const x = Math.floor(((col + (sx + 0.5) / SAMPLES_PER_CELL) * width) / HASH_SIZE);
+            const i = (y * width + x) * 4;
+            sum += 0.299 * data[i]! + 0.587 * data[i + 1]! + 0.114 * data[i + 2]!;
+          }
+        }
+        grid.push(sum);
+      }
+    }
+
+    const mean = grid.reduce((total, cell) => total + cell, 0) / grid.length;
+    let hash = 0n;
+    for (const cell of grid) hash = (hash << 1n) | (cell > mean ? 1n : 0n);
+    return hash.toString(16).padStart(16, "0");
+  }
+
+  // Number of differing bits between two hex-encoded hashes of the same length; null if not comparable
+  public static hammingDistance(a: string, b: string): number | null {
+    if (!/^[0-9a-f]+$/i.test(a) || a.length !== b.length || !/^[0-9a-f]+$/i.test(b)) return null;
+    let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let bits = 0;
+    while (diff > 0n) {
+      bits += Number(diff & 1n);
+      diff >>= 1n;
+    }
+    return bits;
+  }
+
+  // Why `scan` looks like `existing`: the same photo (identical bytes or a near-identical perceptual
+  // hash), or the same amount on the same receipt date from the same merchant. Null if neither.
+  public static match(scan: DuplicateCandidate, existing: DuplicateCandidate): DuplicateReason | null {
+    if (scan.imageDigest && scan.imageDigest === existing.imageDigest) return "image";
+    if (scan.imageHash && existing.imageHash) {
+      const distance = this.hammingDistance(scan.imageHash, existing.imageHash);
+      if (distance !== null && distance <= MAX_HASH_DISTANCE) return "image";
+    }
+
+    // Amounts as entered, so a receipt converted at a different rate still matches
+    const amount = (e: DuplicateCandidate) => ({
+      price: e.originalCurrency ? e.originalPrice ?? e.price : e.price,
+      currency: e.originalCurrency || e.currency,
+    });
+    const a = amount(scan);
+    const b = amount(existing);
+    if (a.currency !== b.currency || Math.abs(a.price - b.price) > 0.005) return null;
+
+    // Printed receipt dates when both scans have one, otherwise the day they were recorded
+    const sameDay = scan.receiptDate && existing.receiptDate
+      ? scan.receiptDate === existing.receiptDate
+      : scan.date === existing.date;
+    if (!sameDay) return null;
+
+    // Without a merchant on both sides an amount and a day alone are too common to call a duplicate
+    if (!scan.merchant || !existing.merchant) return null;
+    const normalize = (m: string) => m.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+    return normalize(scan.merchant) === normalize(existing.merchant) ? "details" : null;
+  }
+}
@@ -1,69 +1,29 @@
 import { Client, Message, MessageMedia } from "../types/wa";
 import * as XLSX from "xlsx";
-import { Expense } from "../models/ExpenseModel";
+import { Budget, Expense, User } from "../models/ExpenseModel";
+import { DateService } from "./DateService";
+import { ExchangeRateService } from "./ExchangeRateService";
+import { ReportRequestParser } from "./ReportRequestParser";
+import { ImageLinkService } from "./ImageLinkService";
 
 export class ExcelService {
   private client: Client | undefined;
+  private exchangeRateService: ExchangeRateService;
 
-  constructor(client?: Client) {
+  constructor(client?: Client, exchangeRateService: ExchangeRateService = new ExchangeRateService()) {
     this.client = client;
+    this.exchangeRateService = exchangeRateService;
   }
   public async sendExcelFile(
     userId: string,
     originalMessage: Message
   ): Promise<void> {
     try {
-      let expenses = [];
-      let fileName = "expenses.xlsx";
-      const messageText = originalMessage.body?.toLowerCase() || "";
-
-      const currentYear = new Date().getFullYear().toString();
-      const currentMonth = new Date().toISOString().slice(0, 7);
-      const monthNames = [
-        "january","february","march","april","may","june",
-        "july","august","september","october","november","december"
-      ];
-      const pad2 = (n: number) => String(n).padStart(2, '0');
-      // detect explicit month mention like: report january [2025]
-      let detectedMonthIndex = -1;
-      for (let i = 0; i < monthNames.length; i++) {
-        const month = monthNames[i]!;
-        if (messageText.includes(month)) { detectedMonthIndex = i; break; }
-        // also support short forms like jan, feb, mar, apr, aug, sep, oct, nov, dec
-        const short = month.slice(0,3);
-        if (messageText.includes(` ${short} `) || messageText.endsWith(` ${short}`) || messageText.startsWith(`${short} `)) {
-          detectedMonthIndex = i; break;
-        }
-      }
-      const yearMatch = messageText.match(/\b(20\d{2}|19\d{2})\b/);
-      const detectedYear = yearMatch ? yearMatch[1] : null;
-
-      if (messageText.includes("this month")) {
-        expenses = await Expense.find({
-          userId,
-          date: { $regex: `^${currentMonth}` },
-        });
-        fileName = `expenses_${currentMonth}.xlsx`;
-      } else if (messageText.includes("this year")) {
-        expenses = await Expense.find({
-          userId,
-          date: { $regex: `^${currentYear}` },
-        });
-        fileName = `expenses_${currentYear}.xlsx`;
-      } else if (messageText.includes('report') && detectedMonthIndex >= 0) {
-        const y = detectedYear || currentYear;
-        const m = pad2(detectedMonthIndex + 1);
-        const ym = `${y}-${m}`;
-        expenses = await Expense.find({ userId, date: { $regex: `^${ym}` } });
-        fileName = `expenses_${ym}.xlsx`;
-      } else if (messageText.includes('report')) {
-        // default report to current month
-        expenses = await Expense.find({ userId, date: { $regex: `^${currentMonth}` } });
-        fileName = `expenses_${currentMonth}.xlsx`;
-      } else {
-        expenses = await Expense.find({ userId });
-        fileName = "expenses_all.xlsx";
-      }
+      const user = await User.findOne({ userId });
+      const timeZone = DateService.resolveTimezone(userId, user?.timezone);
+      const request = ReportRequestParser.parse(originalMessage.body || "", DateService.today(timeZone));
+      const expenses = await Expense.find(ReportRequestParser.expenseFilter(userId, request));
+      const fileName = `expenses_${request.key}.xlsx`;
 
       if (!expenses || expenses.length === 0) {
         if (this.client) {
@@ -75,46 +35,9 @@ export class ExcelService {
         return;
       }
 
-      // Prepare data rows
-      const rows = expenses.map((exp: any) => ({
-        Number:
-          typeof exp.number === "number"
-            ? `#${String(exp.number).padStart(3, "0")}`
-            : "",
-        Date: exp.date,
-        Item: exp.item,
-        Price: (Math.round(exp.price * 100) / 100).toFixed(2),
-        Currency: exp.currency,
-        Image: "", // leave blank by default; add hyperlink only if image exists
-      }));
-
-      // Create sheet with a fixed header order
-      const headers = ["Number", "Date", "Item", "Price", "Currency", "Image"];
-      const worksheet = XLSX.utils.json_to_sheet(rows, { header: headers });
-
-      // Apply hyperlinks for Image column
-      const baseUrl = (process.env.PUBLIC_BASE_URL || "").trim().replace(/\/$/, "");
-      const imageColIndex = headers.indexOf("Image");
-      if (imageColIndex >= 0) {
-        for (let r = 0; r < expenses.length; r++) {
-          const exp: any = expenses[r];
-          const hasImage = !!exp.imageUrl;
-          if (!hasImage) continue;
-          const rowIndex = r + 2; // +1 for 1-based rows, +1 for header
-          const colIndex = imageColIndex + 1; // 1-based columns
-          const cellAddress = XLSX.utils.encode_cell({ r: rowIndex - 1, c: colIndex - 1 });
-          const cell = worksheet[cellAddress] || { t: 's', v: '' };
-          const shortLink = baseUrl ? `${baseUrl}/v/${String(exp._id)}` : String(exp.imageUrl);
-          (cell as any).l = { Target: shortLink, Tooltip: 'Open image' };
-          cell.t = 's';
-          cell.v = 'View Image';
-          worksheet[cellAddress] = cell as any;
-        }
-      }
-      const workbook = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(workbook, worksheet, "Expenses");
-
-      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+      const currency = user?.currency || "USD";
+      const workbook = await this.buildWorkbook(userId, expenses, currency);
+      const buffer = this.freezeHeaderRows(XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
 
       const media = new MessageMedia(
         "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
@@ -135,4 +58,234 @@ export class ExcelService {
       }
     }
   }
+
+  // Excel serial day number for a YYYY-MM-DD date, so the column sorts and filters as real dates
+  private excelDate(date: string): number {
+    const [y, m, d] = date.split("-").map((p) => parseInt(p, 10));
+    return (Date.UTC(y!, m! - 1, d!) - Date.UTC(1899, 11, 30)) / 86400000;
+  }
+
+  // Number format showing the currency code; currencies without minor units get no decimals
+  private currencyFormat(currency: string): string {
+    const noDecimals = ["JPY", "KRW", "VND", "IDR"];
+    return `${noDecimals.includes(currency) ? "#,##0" : "#,##0.00"} "${currency}"`;
+  }
+
+  // Sheet from an array of rows (first row is the header); `formats` maps a column index to a number
+  // format applied to every numeric cell below the header
+  private makeSheet(rows: any[][], formats: { [col: number]: string } = {}, widths: number[] = []): XLSX.WorkSheet {
+    const worksheet = XLSX.utils.aoa_to_sheet(rows);
+    for (let r = 1; r < rows.length; r++) {
+      for (const [col, format] of Object.entries(formats)) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r, c: Number(col) })];
+        if (cell && cell.t === "n") cell.z = format;
+      }
+    }
+    if (widths.length) worksheet["!cols"] = widths.map((wch) => ({ wch }));
+    return worksheet;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  // Expenses, monthly summary, daily, per-category, per-item and budget vs. actual sheets.
+  // Aggregates are in the user's currency; entries kept in an older currency are converted.
+  private async buildWorkbook(userId: string, docs: any[], currency: string): Promise<XLSX.WorkBook> {
+    const expenses = [...docs].sort((a, b) => a.date.localeCompare(b.date) || (a.number || 0) - (b.number || 0));
+    const money = this.currencyFormat(currency);
+
+    const rates = new Map<string, number>();
+    const amounts: number[] = [];
+    for (const exp of expenses) {
+      const from = exp.currency || currency;
+      if (from !== currency && !rates.has(from)) {
+        const converted = await this.exchangeRateService.convert(1, from, currency);
+        rates.set(from, converted ? converted.rate : 1);
+      }
+      amounts.push(this.round((exp.price || 0) * (from === currency ? 1 : rates.get(from)!)));
+    }
+    const grandTotal = this.round(amounts.reduce((sum, a) => sum + a, 0));
+
+    const workbook = XLSX.utils.book_new();
+
+    // Expenses
+    const expenseRows: any[][] = [[
+      "Number", "Date", "Item", "Category", "Price", "Currency",
+      "Original Price", "Original Currency", "Exchange Rate", "Image",
+      "Merchant", "Payment Method", "Receipt Date", "Location",
+    ]];
+    for (const exp of expenses) {
+      expenseRows.push([
+        typeof exp.number === "number" ? `#${String(exp.number).padStart(3, "0")}` : "",
+        this.excelDate(exp.date),
+        exp.item,
+        exp.category || "",
+        this.round(exp.price || 0),
+        exp.currency,
+        // Amount as entered when it was converted from another currency
+        exp.originalCurrency ? this.round(exp.originalPrice) : "",
+        exp.originalCurrency || "",
+        exp.originalCurrency ? exp.exchangeRate : "",
+        "", // hyperlink added below when the expense has an image
+        exp.merchant || "",
+        exp.paymentMethod || "",
+        exp.receiptDate ? this.excelDate(exp.receiptDate) : "",
+        "", // map link added below when the expense has a location
+      ]);
+    }
+    const mixed = rates.size > 0;
+    expenseRows.push(["", "", mixed ? `Total (in ${currency})` : "Total", "", grandTotal, currency, "", "", "", "", "", "", "", ""]);
+    const expensesSheet = this.makeSheet(
+      expenseRows,
+      { 1: "yyyy-mm-dd", 8: "0.0000", 12: "yyyy-mm-dd" },
+      [8, 12, 28, 16, 14, 10, 14, 10, 12, 12, 20, 14, 12, 28]
+    );
+    expenses.forEach((exp, i) => {
+      const price = expensesSheet[XLSX.utils.encode_cell({ r: i + 1, c: 4 })];
+      if (price) price.z = this.currencyFormat(exp.currency || currency);
+      const original = expensesSheet[XLSX.utils.encode_cell({ r: i + 1, c: 6 })];
+      if (original && original.t === "n") original.z = this.currencyFormat(exp.originalCurrency);
+    });
+    const totalCell = expensesSheet[XLSX.utils.encode_cell({ r: expenses.length + 1, c: 4 })]!;
+    totalCell.z = money;
+    // A live formula only when every row is already in the user's currency
+    if (!mixed) totalCell.f = `SUM(E2:E${expenses.length + 1})`;
+
+    // Apply hyperlinks for Image column; signed viewer links when PUBLIC_BASE_URL is set
+    expenses.forEach((exp, i) => {
+      if (!exp.imageUrl) return;
+      const cellAddress = XLSX.utils.encode_cell({ r: i + 1, c: 9 });
+      const shortLink = ImageLinkService.url(String(exp._id)) || String(exp.imageUrl);
+      expensesSheet[cellAddress] = { t: "s", v: "View Image", l: { Target: shortLink, Tooltip: "Open image" } } as any;
+    });
+
+    // Location column links to the map
+    expenses.forEach((exp, i) => {
+      const location = exp.location;
+      if (!location || typeof location.latitude !== "number") return;
+      const cellAddress = XLSX.utils.encode_cell({ r: i + 1, c: 13 });
+      const place = [location.name, location.address].filter(Boolean).join(", ") ||
+        `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`;
+      const target = `https://maps.google.com/?q=${location.latitude},${location.longitude}`;
+      expensesSheet[cellAddress] = { t: "s", v: place, l: { Target: target, Tooltip: "Open map" } } as any;
+    });
+
+    // Group converted amounts by a key
+    const groupBy = (keyOf: (exp: any) => string) => {
+      const groups = new Map<string, { count: number; total: number; sample: any }>();
+      expenses.forEach((exp, i) => {
+        const key = keyOf(exp);
+        const group = groups.get(key) || { count: 0, total: 0, sample: exp };
+        group.count++;
+        group.total = this.round(group.total + amounts[i]!);
+        groups.set(key, group);
+      });
+      return groups;
+    };
+
+    // Monthly summary with budgets
+    const byMonth = groupBy((exp) => exp.date.slice(0, 7));
+    const months = [...byMonth.keys()].sort();
+    const budgetDocs = await Budget.find({ userId, month: { $in: months } });
+    const budgets = new Map<string, { budget: number; categories: { category: string; budget: number }[] }>();
+    for (const doc of budgetDocs) {
+      let rate = 1;
+      if (doc.currency && doc.currency !== currency) {
+        const converted = await this.exchangeRateService.convert(1, doc.currency, currency);
+        if (converted) rate = converted.rate;
+      }
+      budgets.set(doc.month, {
+        budget: this.round(((doc.budget || 0) + (doc.carriedOver || 0)) * rate),
+        categories: (doc.categoryBudgets || []).map((b) => ({ category: b.category, budget: this.round(b.budget * rate) })),
+      });
+    }
+    const summaryRows: any[][] = [["Month", "Expenses", "Total", "Budget", "Remaining", "Daily Average"]];
+    for (const month of months) {
+      const group = byMonth.get(month)!;
+      const budget = budgets.get(month)?.budget;
+      summaryRows.push([
+        `${DateService.monthName(month)} ${month.slice(0, 4)}`,
+        group.count,
+        group.total,
+        budget ?? "",
+        budget !== undefined ? this.round(budget - group.total) : "",
+        this.round(group.total / DateService.daysInMonth(month)),
+      ]);
+    }
+    summaryRows.push(["Total", expenses.length, grandTotal, "", "", ""]);
+    XLSX.utils.book_append_sheet(
+      workbook,
+      this.makeSheet(summaryRows, { 2: money, 3: money, 4: money, 5: money }, [18, 10, 16, 16, 16, 14]),
+      "Summary"
+    );
+    XLSX.utils.book_append_sheet(workbook, expensesSheet, "Expenses");
+
+    // Per day
+    const byDay = groupBy((exp) => exp.date);
+    const dailyRows: any[][] = [["Date", "Expenses", "Total"]];
+    for (const [date, group] of [...byDay.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      dailyRows.push([this.excelDate(date), group.count, group.total]);
+    }
+    XLSX.utils.book_append_sheet(workbook, this.makeSheet(dailyRows, { 0: "yyyy-mm-dd", 2: money }, [12, 10, 16]), "Daily");
+
+    // Per category
+    const byCategory = groupBy((exp) => exp.category || "Other");
+    const categoryRows: any[][] = [["Category", "Expenses", "Total", "Share"]];
+    for (const [category, group] of [...byCategory.entries()].sort(([, a], [, b]) => b.total - a.total)) {
+      categoryRows.push([category, group.count, group.total, grandTotal ? group.total / grandTotal : 0]);
+    }
+    XLSX.utils.book_append_sheet(workbook, this.makeSheet(categoryRows, { 2: money, 3: "0.0%" }, [18, 10, 16, 10]), "By Category");
+
+    // Per item (case-insensitive)
+    const byItem = groupBy((exp) => String(exp.item || "").trim().toLowerCase());
+    const itemRows: any[][] = [["Item", "Category", "Expenses", "Total", "Average"]];
+    for (const group of [...byItem.values()].sort((a, b) => b.total - a.total)) {
+      itemRows.push([group.sample.item, group.sample.category || "", group.count, group.total, this.round(group.total / group.count)]);
+    }
+    XLSX.utils.book_append_sheet(workbook, this.makeSheet(itemRows, { 3: money, 4: money }, [28, 16, 10, 16, 14]), "By Item");
+
+    // Budget vs. actual: overall and per category budget, per month
+    const budgetRows: any[][] = [["Month", "Category", "Budget", "Actual", "Difference", "Used"]];
+    for (const month of months) {
+      const budget = budgets.get(month);
+      if (!budget) continue;
+      const label = `${DateService.monthName(month)} ${month.slice(0, 4)}`;
+      const actual = byMonth.get(month)!.total;
+      budgetRows.push([label, "All", budget.budget, actual, this.round(budget.budget - actual), budget.budget ? actual / budget.budget : ""]);
+      for (const entry of budget.categories) {
+        const spent = this.round(
+          expenses.reduce((sum, exp, i) => (exp.date.startsWith(month) && exp.category === entry.category ? sum + amounts[i]! : sum), 0)
+        );
+        budgetRows.push([label, entry.category, entry.budget, spent, this.round(entry.budget - spent), entry.budget ? spent / entry.budget : ""]);
+      }
+    }
+    XLSX.utils.book_append_sheet(
+      workbook,
+      this.makeSheet(budgetRows, { 2: money, 3: money, 4: money, 5: "0.0%" }, [18, 16, 16, 16, 16, 10]),
+      "Budget vs Actual"
+    );
+
+    return workbook;
+  }
+
+  // The community xlsx build can't write frozen panes, so patch each sheet's view in the zip to keep
+  // the header row visible while scrolling
+  private freezeHeaderRows(buffer: Buffer): Buffer {
+    try {
+      const zip = XLSX.CFB.read(buffer, { type: "buffer" });
+      const pane = '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>';
+      zip.FullPaths.forEach((path: string, i: number) => {
+        if (!/\/xl\/worksheets\/sheet\d+\.xml$/.test(path)) return;
+        const entry = zip.FileIndex[i]!;
+        const xml = Buffer.from(entry.content as any).toString("utf8");
+        entry.content = Buffer.from(xml.replace(/<sheetView workbookViewId="0"\/>/, pane), "utf8") as any;
+        entry.size = (entry.content as any).length;
+      });
+      return Buffer.from(XLSX.CFB.write(zip, { fileType: "zip", type: "buffer" }) as any);
+    } catch (e) {
+      console.warn("Could not freeze header rows:", (e as any)?.message || e);
+      return buffer;
+    }
+  }
 }
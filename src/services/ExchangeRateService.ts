@@ -0,0 +1,100 @@
+import type { ExchangeRateProvider } from "../types/types";
+
+// Approximate units per 1 USD. Used offline and as the fallback when a live source is unavailable;
+// override with EXCHANGE_RATES_JSON='{"EUR":0.91,"BDT":121}' to pin your own rates.
+const USD_RATES: { [currency: string]: number } = {
+  USD: 1, EUR: 0.92, GBP: 0.79, INR: 83.5, BDT: 120, NGN: 1550, PKR: 278, LKR: 300,
+  CAD: 1.37, AUD: 1.52, JPY: 150, CNY: 7.2, KRW: 1380, THB: 35.5, MYR: 4.6, SGD: 1.34,
+  HKD: 7.8, PHP: 57, IDR: 16000, VND: 25000, AED: 3.6725, SAR: 3.75, QAR: 3.64,
+  KWD: 0.307, OMR: 0.385, BHD: 0.376, NPR: 133,
+};
+const DEFAULT_API_URL = "https://open.er-api.com/v6/latest/{base}";
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const roundRate = (rate: number) => Math.round(rate * 1e6) / 1e6;
+
+// Cross rates from a fixed table of units per USD
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  public readonly name = "static";
+  private rates: { [currency: string]: number };
+
+  constructor(rates: { [currency: string]: number } = USD_RATES) {
+    this.rates = rates;
+  }
+
+  public async getRate(from: string, to: string): Promise<number | null> {
+    const fromRate = this.rates[from.toUpperCase()];
+    const toRate = this.rates[to.toUpperCase()];
+    if (!fromRate || !toRate) return null;
+    return roundRate(toRate / fromRate);
+  }
+}
+
+// Latest rates from an HTTP API returning `{ rates: { EUR: 0.92, ... } }` for a base currency.
+// Responses are cached per base currency; any failure falls back to `fallback`.
+export class HttpExchangeRateProvider implements ExchangeRateProvider {
+  public readonly name = "http";
+  private url: string;
+  private fallback: ExchangeRateProvider | null;
+  private cache = new Map<string, { rates: { [currency: string]: number }; fetchedAt: number }>();
+
+  constructor(url: string = DEFAULT_API_URL, fallback: ExchangeRateProvider | null = new StaticExchangeRateProvider()) {
+    this.url = url;
+    this.fallback = fallback;
+  }
+
+  public async getRate(from: string, to: string): Promise<number | null> {
+    const base = from.toUpperCase();
+    try {
+      let cached = this.cache.get(base);
+      if (!cached || Date.now() - cached.fetchedAt > CACHE_TTL_MS) {
+        const res = await fetch(this.url.replace("{base}", encodeURIComponent(base)));
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const body: any = await res.json();
+        if (!body?.rates || typeof body.rates !== "object") throw new Error("response has no rates");
+        cached = { rates: body.rates, fetchedAt: Date.now() };
+        this.cache.set(base, cached);
+      }
+      const rate = Number(cached.rates[to.toUpperCase()]);
+      if (rate > 0) return roundRate(rate);
+    } catch (e) {
+      console.warn(`Exchange rate lookup ${base}->${to} failed, using fallback:`, (e as any)?.message || e);
+    }
+    return this.fallback ? this.fallback.getRate(from, to) : null;
+  }
+}
+
+// Pick the provider from EXCHANGE_RATE_PROVIDER ("static" by default, or "http")
+export function createExchangeRateProvider(): ExchangeRateProvider {
+  let rates = USD_RATES;
+  const overrides = (process.env.EXCHANGE_RATES_JSON || "").trim();
+  if (overrides) {
+    try {
+      rates = { ...USD_RATES, ...JSON.parse(overrides) };
+    } catch (e) {
+      console.warn("EXCHANGE_RATES_JSON is not valid JSON. Using built-in rates.");
+    }
+  }
+  const staticProvider = new StaticExchangeRateProvider(rates);
+  if ((process.env.EXCHANGE_RATE_PROVIDER || "static").toLowerCase() === "http") {
+    return new HttpExchangeRateProvider(process.env.EXCHANGE_RATE_API_URL || DEFAULT_API_URL, staticProvider);
+  }
+  return staticProvider;
+}
+
+export class ExchangeRateService {
+  private provider: ExchangeRateProvider;
+
+  constructor(provider: ExchangeRateProvider = createExchangeRateProvider()) {
+    this.provider = provider;
+  }
+
+  // Convert `amount` from one currency to another. Returns the converted amount (2 decimals)
+  // and the rate used, or null when the provider has no rate for the pair.
+  public async convert(amount: number, from: string, to: string): Promise<{ amount: number; rate: number } | null> {
+    if (from.toUpperCase() === to.toUpperCase()) return { amount, rate: 1 };
+    const rate = await this.provider.getRate(from, to);
+    if (!rate) return null;
+    return { amount: Math.round(amount * rate * 100) / 100, rate };
+  }
+}
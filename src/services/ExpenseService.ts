@@ -1,14 +1,42 @@
 import { Client, Message, MessageMedia } from "../types/wa";
-import Groq from "groq-sdk";
+import type { Types } from "mongoose";
 import type {
+  CategoryBudgetStatus,
+  ExpenseChangeAction,
+  ExpenseChangeSource,
   ExpenseData,
+  ExpenseLocation,
+  ExpenseSnapshot,
   GroqExpenseResponse,
   IntentResult,
+  ImageStorage,
+  PendingReceipt,
+  ReceiptLineItem,
+  ReceiptProvider,
+  UndoResult,
 } from "../types/types";
-import { Expense } from "../models/ExpenseModel";
+import { Expense, Receipt, RecurringExpense } from "../models/ExpenseModel";
 import { CurrencyService } from "./CurrencyService";
-import { CloudinaryService } from "./CloudinaryService";
+import { createImageStorage, imageStorageFor } from "./ImageStorage";
 import { MongoService } from "./MongoService";
+import { CategoryService } from "./CategoryService";
+import { DateService } from "./DateService";
+import { ExchangeRateService } from "./ExchangeRateService";
+import { OcrConfidenceService } from "./OcrConfidenceService";
+import { PaymentMethodService } from "./PaymentMethodService";
+import { DuplicateReceiptService, type DuplicateReason } from "./DuplicateReceiptService";
+import { ImageLinkService } from "./ImageLinkService";
+import { createReceiptProvider } from "./ReceiptProvider";
+
+// A location shared this long after an expense is added is still taken to be where it was spent
+const LOCATION_WINDOW_MS = 60 * 60 * 1000;
+// Most recent entries listed by "#012 history"
+const HISTORY_ENTRIES_SHOWN = 15;
+
+// Photo caption asking for every line item instead of one total: "Split", "Items", "Split Groceries"
+const SPLIT_CAPTION = /^(?:split|items|itemi[sz]e)\b\s*(.*)$/i;
+// Photo caption attaching the image to an existing expense: "#012", "attach #012"
+const ATTACH_CAPTION = /^(?:attach\s+)?#(\d+)$/i;
 
 class ImageProcessingError extends Error {
   constructor(message: string) {
@@ -19,21 +47,22 @@ class ImageProcessingError extends Error {
 
 
 export class ExpenseService {
-  private groq: Groq;
+  private receiptProvider: ReceiptProvider;
   private client: Client;
-  private cloudinaryService: CloudinaryService | null = null;
-
-  constructor(client: Client) {
-    this.groq = new Groq({
-      apiKey: process.env.GROQ_API_KEY,
-    });
+  private imageStorage: ImageStorage | null;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(
+    client: Client,
+    exchangeRateService: ExchangeRateService = new ExchangeRateService(),
+    receiptProvider: ReceiptProvider = createReceiptProvider(),
+    imageStorage: ImageStorage | null = createImageStorage()
+  ) {
+    this.receiptProvider = receiptProvider;
     this.client = client;
-    try {
-      this.cloudinaryService = new CloudinaryService();
-    } catch (e) {
-      console.warn("Cloudinary not configured. Skipping Cloudinary uploads:", (e as any)?.message || e);
-      this.cloudinaryService = null;
-    }
+    this.exchangeRateService = exchangeRateService;
+    this.imageStorage = imageStorage;
+    if (!imageStorage) console.warn("No image storage configured. Receipt photos will not be kept.");
   }
 
   // Finalize a pending image expense after user replies with amount or full text
@@ -50,14 +79,14 @@ export class ExpenseService {
     }
 
     const trimmed = (userText || '').trim();
-    let data = await this.extractExpenseData(trimmed);
+    let data = await this.extractExpenseData(trimmed, userId, mongoService);
 
     if (!data) {
       // Maybe user sent only a number -> combine with pending item
       const onlyNumber = trimmed.match(/^(\d+(?:[\.,]\d+)?)$/);
       if (onlyNumber) {
         const price = parseFloat(onlyNumber[1]!.replace(',', '.'));
-        const date = new Date().toISOString().slice(0, 10);
+        const date = DateService.today(await mongoService.getUserTimezone(userId));
         const userCurrency = await mongoService.getUserCurrency(userId);
         data = { item: pending.item || 'Item', price, currency: userCurrency, date };
       }
@@ -68,22 +97,27 @@ export class ExpenseService {
       return;
     }
 
-    // Use user's currency and attach image metadata from pending
+    // Convert to the user's currency and attach image metadata from pending
     const userCurrency = await mongoService.getUserCurrency(userId);
-    data.currency = userCurrency;
-    data.price = Math.round(data.price * 100) / 100;
+    if (!(await this.toHomeCurrency(data, userCurrency))) {
+      await this.sendMissingRate(userId, data.currency, userCurrency);
+      return;
+    }
     if (pending.imageUrl) data.imageUrl = pending.imageUrl;
     if (pending.imageProvider) data.imageProvider = pending.imageProvider;
     if (pending.imageRef) data.imageRef = pending.imageRef;
 
-    const created = await this.addToMongo(data, userId, mongoService);
+    const created = await this.addToMongo(data, userId, mongoService, { text: trimmed });
     const monthlyTotal = await mongoService.calculateMonthlyTotal(userId, data.date);
-    const budget = await mongoService.getMonthlyBudget(userId);
+    const budget = await mongoService.getMonthlyBudget(userId, data.date.slice(0, 7));
     const remaining = budget - monthlyTotal.totalAmount;
-    const todaySpending = await CurrencyService.getTodaysSpending(userId);
-    const dailyLimit = budget > 0 ? CurrencyService.calculateDynamicDailyLimit(remaining) : null;
+    const todaySpending = await mongoService.calculateTodaysSpending(userId);
+    const timeZone = await mongoService.getUserTimezone(userId);
+    const dailyLimit = budget > 0 && this.isCurrentMonth(data.date, timeZone) ? CurrencyService.calculateDynamicDailyLimit(remaining, timeZone) : null;
 
     // Build reply (treat as image expense)
+    const categoryStatus = await this.getCategoryBudgetStatus(userId, created.category, data.date, mongoService);
+    const carriedOver = await mongoService.getBudgetCarryOver(userId, data.date.slice(0, 7));
     const replyMessage = this.buildImageExpenseReply(
       created.number,
       data.item,
@@ -99,7 +133,12 @@ export class ExpenseService {
       remaining,
       dailyLimit,
       todaySpending,
-      false
+      false,
+      this.imageLink(created),
+      created.category,
+      categoryStatus,
+      carriedOver,
+      data
     );
 
     await this.client.sendMessage(userId, replyMessage);
@@ -111,11 +150,31 @@ export class ExpenseService {
 
   // Parse a free-form text like "Coffee 120 bdt" into an ExpenseData.
   // Heuristic: the last number in the text is the price; the leading words form the item name.
-  // Currency is detected via CurrencyService or defaults to 'USD'. Date defaults to today (YYYY-MM-DD).
-  private async extractExpenseData(text: string): Promise<ExpenseData | null> {
-    const normalized = (text || '').trim();
+  // A currency written next to the price ("20 EUR", "€20") is used and removed from the text; otherwise
+  // the user's currency ('USD' when the user is unknown). Date defaults to today (YYYY-MM-DD)
+  // unless the text names one ("Taxi 300 yesterday", "Lunch 500 12 Mar").
+  // When the user is known, the category is assigned from their learned corrections and keyword rules.
+  private async extractExpenseData(
+    text: string,
+    userId?: string,
+    mongoService?: MongoService
+  ): Promise<ExpenseData | null> {
+    let normalized = (text || '').trim();
     if (!normalized) return null;
 
+    // Pull out a date expression ("yesterday", "12 Mar", "2025-03-12") before looking for the price.
+    // If nothing numeric is left (e.g. "Tea 20 may"), treat the whole text as item + price instead.
+    const timeZone = userId && mongoService ? await mongoService.getUserTimezone(userId) : undefined;
+    let date = DateService.today(timeZone);
+    const dated = DateService.parseDateExpression(normalized, date);
+    if (dated && /\d/.test(dated.rest)) {
+      date = dated.date;
+      normalized = dated.rest;
+    }
+
+    const given = CurrencyService.amountCurrency(normalized);
+    if (given) normalized = given.rest;
+
     const numMatch = normalized.match(/(\d+(?:[\.,]\d+)?)(?!.*\d)/); // last number
     if (!numMatch) return null;
 
@@ -123,27 +182,113 @@ export class ExpenseService {
     const price = parseFloat(rawPrice);
     if (isNaN(price)) return null;
 
+    const currency: string = given?.currency
+      ?? (userId && mongoService ? await mongoService.getUserCurrency(userId) : 'USD');
+
     const before = normalized.slice(0, numMatch.index).trim();
     const after = normalized.slice((numMatch.index || 0) + numMatch[0]!.length).trim();
     let item = before || after || 'Item';
     // collapse extra spaces
     item = item.replace(/\s{2,}/g, ' ').trim();
 
-    // Detect currency tokens within the whole text
-    const detected = CurrencyService.detectCurrency(normalized);
-    const currency: string = detected ?? 'USD';
+    const data: ExpenseData = { item, price, currency, date };
+    if (userId && mongoService) {
+      data.category = await this.categorize(item, userId, mongoService);
+    }
+    return data;
+  }
+
+  // Pick a category for an item from the user's category list and learned corrections
+  private async categorize(item: string, userId: string, mongoService: MongoService): Promise<string> {
+    const [categories, learned] = await Promise.all([
+      mongoService.getUserCategories(userId),
+      mongoService.getCategoryMappings(userId),
+    ]);
+    return CategoryService.classify(item, categories, learned);
+  }
+
+  // Convert an expense entered in another currency ("Taxi 20 EUR") into the user's currency, keeping
+  // the amount as entered and the rate used. Returns false when no rate is available for the pair.
+  private async toHomeCurrency(data: ExpenseData, homeCurrency: string): Promise<boolean> {
+    const from = (data.currency || homeCurrency).toUpperCase();
+    const amount = Math.round(data.price * 100) / 100;
+    data.currency = homeCurrency;
+    data.price = amount;
+    if (from === homeCurrency.toUpperCase()) return true;
+
+    const converted = await this.exchangeRateService.convert(amount, from, homeCurrency);
+    if (!converted) {
+      data.currency = from;
+      return false;
+    }
+    data.originalPrice = amount;
+    data.originalCurrency = from;
+    data.exchangeRate = converted.rate;
+    data.price = converted.amount;
+    return true;
+  }
+
+  private async sendMissingRate(userId: string, from: string, to: string): Promise<void> {
+    await this.client.sendMessage(
+      userId,
+      `❌ I don't have an exchange rate for ${from} → ${to}. Please send the amount in ${to}.`
+    );
+  }
+
+  // A scanned receipt in a currency we can't convert is not saved; its photo would have no expense to belong to
+  private async dropUnconvertedScan(userId: string, scan: ExpenseData, to: string): Promise<void> {
+    if (scan.imageRef) await this.deleteStoredImage(scan.imageProvider, scan.imageRef);
+    await this.sendMissingRate(userId, scan.currency, to);
+  }
+
+  // "💱 20 EUR × 130.43" line shown under expenses that were converted
+  private exchangeLine(expense: Pick<ExpenseData, 'originalPrice' | 'originalCurrency' | 'exchangeRate'> | null | undefined): string {
+    if (!expense || expense.originalPrice == null || !expense.originalCurrency || !expense.exchangeRate) return '';
+    return `💱 ${this.moneyCompact(expense.originalPrice)} ${expense.originalCurrency} × ${+expense.exchangeRate.toFixed(4)}`;
+  }
 
-    const date = new Date().toISOString().slice(0, 10);
+  // Signed viewer link for an expense's photo; undefined without a photo or PUBLIC_BASE_URL
+  private imageLink(expense: { _id: unknown; imageUrl?: string | null }): string | undefined {
+    return (expense.imageUrl && ImageLinkService.url(String(expense._id))) || undefined;
+  }
 
-    return { item, price, currency, date };
+  // "🏪 Corner Market · 💳 Card" for expenses with receipt details; empty otherwise
+  private detailsLine(expense: Pick<ExpenseData, 'merchant' | 'paymentMethod'> | null | undefined): string {
+    if (!expense) return '';
+    return [
+      expense.merchant ? `🏪 ${expense.merchant}` : '',
+      expense.paymentMethod ? `💳 ${expense.paymentMethod}` : '',
+    ].filter(Boolean).join(' · ');
+  }
+
+  // Spent vs. budget for a category in the month of `date`; null when the category has no budget
+  private async getCategoryBudgetStatus(
+    userId: string,
+    category: string | undefined,
+    date: string,
+    mongoService: MongoService
+  ): Promise<CategoryBudgetStatus | null> {
+    if (!category) return null;
+    const budgets = await mongoService.getCategoryBudgets(userId, date.slice(0, 7));
+    const entry = budgets.find((b) => b.category === category);
+    if (!entry) return null;
+    const spent = await mongoService.calculateCategoryTotal(userId, category, date);
+    return {
+      category,
+      budget: entry.budget,
+      spent,
+      remaining: Math.round((entry.budget - spent) * 100) / 100,
+    };
   }
 
-  // Persist expense to Mongo and return the created expense document
-  private async addToMongo(expense: ExpenseData, userId: string, mongoService: MongoService) {
+  // Persist expense to Mongo, log it in the expense history and return the created expense document
+  private async addToMongo(expense: ExpenseData, userId: string, mongoService: MongoService, source: ExpenseChangeSource = {}) {
     const number = await mongoService.getNextExpenseNumber(userId);
+    const category = expense.category || await this.categorize(expense.item, userId, mongoService);
     const created = await Expense.create({
       userId,
       item: expense.item,
+      category,
       price: expense.price,
       currency: expense.currency,
       date: expense.date,
@@ -151,44 +296,110 @@ export class ExpenseService {
       imageUrl: expense.imageUrl,
       imageProvider: expense.imageProvider,
       imageRef: expense.imageRef,
+      imageHash: expense.imageHash,
+      imageDigest: expense.imageDigest,
+      recurringId: expense.recurringId,
+      originalPrice: expense.originalPrice,
+      originalCurrency: expense.originalCurrency,
+      exchangeRate: expense.exchangeRate,
+      receiptId: expense.receiptId,
+      merchant: expense.merchant,
+      paymentMethod: expense.paymentMethod,
+      receiptDate: expense.receiptDate,
+      location: expense.location,
     });
+    await mongoService.logExpenseCreated(created, source);
     return created;
   }
 
-  // Extract expense from image using Groq multimodal model + light caption heuristic.
+  // Post one occurrence of a recurring expense through the normal numbering path and notify the user
+  public async postRecurringExpense(
+    recurring: InstanceType<typeof RecurringExpense>,
+    date: string,
+    mongoService: MongoService
+  ): Promise<void> {
+    const userId = recurring.userId;
+    const data: ExpenseData = {
+      item: recurring.item,
+      price: recurring.price,
+      currency: recurring.currency,
+      date,
+      recurringId: String(recurring._id),
+    };
+    if (recurring.category) data.category = recurring.category;
+    // The user may have switched currency since the rule was created
+    const userCurrency = await mongoService.getUserCurrency(userId);
+    if (!(await this.toHomeCurrency(data, userCurrency))) {
+      console.warn(`No ${data.currency}->${userCurrency} rate for recurring #R${recurring.number}; posting unconverted`);
+    }
+
+    const created = await this.addToMongo(data, userId, mongoService, { text: `Recurring #R${recurring.number}`, automatic: true });
+    const monthlyTotal = await mongoService.calculateMonthlyTotal(userId, date);
+    const budget = await mongoService.getMonthlyBudget(userId, date.slice(0, 7));
+    const remaining = budget - monthlyTotal.totalAmount;
+    const todaySpending = await mongoService.calculateTodaysSpending(userId);
+    const timeZone = await mongoService.getUserTimezone(userId);
+    const dailyLimit = budget > 0 && this.isCurrentMonth(date, timeZone) ? CurrencyService.calculateDynamicDailyLimit(remaining, timeZone) : null;
+    const categoryStatus = await this.getCategoryBudgetStatus(userId, created.category, date, mongoService);
+    const carriedOver = await mongoService.getBudgetCarryOver(userId, date.slice(0, 7));
+
+    const replyMessage = this.buildAddedReply(
+      created.number,
+      data.item,
+      data.currency,
+      data.price,
+      date,
+      monthlyTotal.month,
+      monthlyTotal.year,
+      monthlyTotal.currency,
+      monthlyTotal.totalAmount,
+      monthlyTotal.expenseCount,
+      budget,
+      remaining,
+      dailyLimit,
+      todaySpending,
+      created.category,
+      categoryStatus,
+      carriedOver,
+      data
+    );
+
+    console.log(`📤 Sending recurring expense notice to: ${userId}`);
+    await this.client.sendMessage(
+      userId,
+      `🔁 Recurring #R${recurring.number} posted (${date})\n${replyMessage}`
+    );
+  }
+
+  // Extract expense from image using the configured vision model + light caption heuristic.
   // Sends the image (data URL) and caption to the model and asks for structured JSON.
   private async extractExpenseWithConfidence(
-    imageDataUrl: string
-  ): Promise<{ confidence: number; expense: ExpenseData | null }> {
+    imageDataUrl: string,
+    timeZone?: string,
+    fallbackCurrency: string = "USD"
+  ): Promise<{ confidence: number; expense: ExpenseData | null; reasons: string[] }> {
     try {
-      // 2) Ask Groq vision model to extract structured data.
-      const today = new Date().toISOString().slice(0, 10);
+      // 2) Ask the vision model to extract structured data.
+      const today = DateService.today(timeZone);
       const systemPrompt =
         "You are an assistant that extracts a single expense from a receipt image. " +
-        "Return strict JSON with keys: item (string), price (number), currency (string, ISO like USD/BDT if visible else empty). " +
+        "Return strict JSON with keys: item (string), price (number), currency (string, ISO like USD/BDT if visible else empty), " +
+        "date (YYYY-MM-DD as printed, or empty), merchant (shop name, or empty), " +
+        "paymentMethod (cash, card, bKash, etc. if printed, or empty), lineTotals (array of line item amounts, or empty), " +
+        "tax (number, 0 if none), discount (number, 0 if none), " +
+        "confidence (number 0-1: how sure you are that price is the correct grand total). " +
         "If multiple line items exist, use the grand total as price and leave item blank or 'Total'. No extra text, ONLY JSON.";
 
       const userText = "Extract expense fields from this image. Output JSON only.";
 
-      const completion = await this.groq.chat.completions.create({
-        model: "meta-llama/llama-4-maverick-17b-128e-instruct",
+      const content = await this.receiptProvider.extract({
+        kind: "expense",
+        imageDataUrl,
+        systemPrompt,
+        userText,
         temperature: 0.2,
-        max_completion_tokens: 512,
-        top_p: 1,
-        stream: false,
-        messages: [
-          { role: "system", content: systemPrompt },
-          {
-            role: "user",
-            content: [
-              { type: "text", text: userText },
-              { type: "image_url", image_url: { url: imageDataUrl } },
-            ] as any,
-          },
-        ],
-      } as any);
-
-      const content = completion?.choices?.[0]?.message?.content || "";
+        maxTokens: 512,
+      });
 
       // 3) Parse JSON out of the model response (defensive against extra text)
       let jsonText = content;
@@ -209,42 +420,109 @@ export class ExpenseService {
         // Always use generic name for image-only flow
         const modelItem = (parsed.item || "").toString().trim();
         const item = modelItem || "Image scan";
-        const currency = (parsed.currency || "").toString().trim() || "USD";
+        // Only trust currencies we recognise; otherwise assume the user's own currency
+        const currency = CurrencyService.detectCurrency((parsed.currency || "").toString()) || fallbackCurrency;
         const expense: ExpenseData = {
           item,
           price: Math.round(parsed.price * 100) / 100,
           currency,
           date: today,
+          ...this.receiptDetails(parsed),
         };
-        // Confidence is not used for branching anymore; keep a nominal value
-        const confidence = 0.7;
-        return { confidence, expense };
+        const { confidence, reasons } = OcrConfidenceService.score(parsed, today);
+        return { confidence, expense, reasons };
       }
 
       // If model didn't return usable data
-      return { confidence: 0.0, expense: null };
+      return { confidence: 0.0, expense: null, reasons: [] };
     } catch (err) {
-      console.error("❌ Groq vision extraction failed:", err);
-      return { confidence: 0.0, expense: null };
+      console.error(`❌ Vision extraction (${this.receiptProvider.name}) failed:`, err);
+      return { confidence: 0.0, expense: null, reasons: [] };
     }
   }
 
   // Ask user to confirm OCR-parsed expense. Stores pending expense and sets state to awaiting_ocr_confirmation.
-  private async handleUncertainOCR(expense: ExpenseData, originalMessage: Message, mongoService: MongoService, userCurrency: string): Promise<void> {
-    // Normalize currency to the user's current currency for confirmation preview
-    const pending = { ...expense, currency: userCurrency };
+  private async handleUncertainOCR(
+    expense: ExpenseData,
+    originalMessage: Message,
+    mongoService: MongoService,
+    userCurrency: string,
+    reasons: string[] = []
+  ): Promise<void> {
+    // Convert to the user's current currency for the confirmation preview
+    const pending: ExpenseData = { ...expense };
+    if (!(await this.toHomeCurrency(pending, userCurrency))) {
+      await this.dropUnconvertedScan(originalMessage.from, pending, userCurrency);
+      return;
+    }
     await mongoService.storePendingExpense(originalMessage.from, pending);
 
-    const preview = `*${pending.item}* — ${this.money(pending.price)} ${pending.currency}`;
+    let preview = `*${pending.item}* — ${this.money(pending.price)} ${pending.currency}`;
+    if (this.exchangeLine(pending)) preview += `\n${this.exchangeLine(pending)}`;
     const dateStr = pending.date;
+    const unsure = reasons.length ? `\n⚠️ Not sure: ${reasons.join(", ")}.\n` : '';
     const msg = `🧐 I found this from your photo:
 ${preview}
 _${dateStr}_
-
+${unsure}
 Save it? Reply with YES or NO.`;
     await this.client.sendMessage(originalMessage.from, msg);
   }
 
+  // "#012 Coffee — 200 BDT, 12 Oct (same photo)"
+  private duplicateLine(existing: any, reason: DuplicateReason): string {
+    const why = reason === 'image' ? 'same photo' : 'same amount, shop and date';
+    return `#${this.padNumber(existing.number)} ${existing.item} — ${this.moneyCompact(existing.price)} ${existing.currency}, ${DateService.formatShort(existing.date)} (${why})`;
+  }
+
+  // Ask before saving a scan that looks like an expense already saved. Stores the pending expense and
+  // sets state to awaiting_duplicate_confirm.
+  private async handleDuplicateScan(
+    expense: ExpenseData,
+    duplicate: { expense: any; reason: DuplicateReason },
+    originalMessage: Message,
+    mongoService: MongoService,
+    userCurrency: string
+  ): Promise<void> {
+    const pending: ExpenseData = { ...expense };
+    if (!(await this.toHomeCurrency(pending, userCurrency))) {
+      await this.dropUnconvertedScan(originalMessage.from, pending, userCurrency);
+      return;
+    }
+    await mongoService.storePendingDuplicate(originalMessage.from, pending);
+
+    let preview = `*${pending.item}* — ${this.money(pending.price)} ${pending.currency}`;
+    if (this.exchangeLine(pending)) preview += `\n${this.exchangeLine(pending)}`;
+    const msg = `⚠️ Looks like you already saved this receipt:
+${this.duplicateLine(duplicate.expense, duplicate.reason)}
+
+New scan: ${preview}
+
+Save it anyway? Reply with YES or NO.`;
+    await this.client.sendMessage(originalMessage.from, msg);
+  }
+
+  // Reply to a duplicate warning. YES saves the scan like a confirmed OCR result; NO drops it and the
+  // photo uploaded for it. Returns false when the reply was neither.
+  public async handleDuplicateConfirmation(
+    response: string,
+    userId: string,
+    originalMessage: Message,
+    mongoService: MongoService
+  ): Promise<boolean> {
+    const normalized = (response || '').toLowerCase().trim();
+    if (normalized === 'yes' || normalized === 'y') {
+      return this.handleOCRConfirmation('yes', userId, originalMessage, mongoService);
+    }
+    if (normalized !== 'no' && normalized !== 'n') return false;
+
+    const pending: ExpenseData | null = await mongoService.getPendingExpense(userId);
+    if (pending?.imageRef) await this.deleteStoredImage(pending.imageProvider, pending.imageRef);
+    await mongoService.clearPendingExpense(userId);
+    await this.client.sendMessage(originalMessage.from, '👍 Not saved. Your earlier entry is unchanged.');
+    return true;
+  }
+
   // Ask user to resend clearer photo or enter manually
   private async handleFailedOCR(originalMessage: Message): Promise<void> {
     const msg = `❌ Couldn't read the receipt.
@@ -258,32 +536,37 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
     mongoService: MongoService
   ): Promise<void> {
     try {
-      const expenseData = await this.extractExpenseData(messageText);
+      const expenseData = await this.extractExpenseData(messageText, originalMessage.from, mongoService);
 
       if (expenseData) {
-        // Use user's saved currency instead of detected currency
+        // Amounts typed in another currency are converted to the user's saved currency (rounded to 2 decimals)
         const userCurrency = await mongoService.getUserCurrency(originalMessage.from);
-        expenseData.currency = userCurrency;
-
-        // round to 2 decimals
-        expenseData.price = Math.round(expenseData.price * 100) / 100;
+        if (!(await this.toHomeCurrency(expenseData, userCurrency))) {
+          await this.sendMissingRate(originalMessage.from, expenseData.currency, userCurrency);
+          return;
+        }
         const created = await this.addToMongo(
           expenseData,
           originalMessage.from,
-          mongoService
+          mongoService,
+          { text: messageText }
         );
         const monthlyTotal = await mongoService.calculateMonthlyTotal(
           originalMessage.from,
           expenseData.date
         );
         const budget = await mongoService.getMonthlyBudget(
-          originalMessage.from
+          originalMessage.from,
+          expenseData.date.slice(0, 7)
         );
         const remaining = budget - monthlyTotal.totalAmount;
 
-        const todaySpending = await CurrencyService.getTodaysSpending(originalMessage.from);
-        const dailyLimit = budget > 0 ? CurrencyService.calculateDynamicDailyLimit(remaining) : null;
+        const todaySpending = await mongoService.calculateTodaysSpending(originalMessage.from);
+        const timeZone = await mongoService.getUserTimezone(originalMessage.from);
+        const dailyLimit = budget > 0 && this.isCurrentMonth(expenseData.date, timeZone) ? CurrencyService.calculateDynamicDailyLimit(remaining, timeZone) : null;
 
+        const categoryStatus = await this.getCategoryBudgetStatus(originalMessage.from, created.category, expenseData.date, mongoService);
+        const carriedOver = await mongoService.getBudgetCarryOver(originalMessage.from, expenseData.date.slice(0, 7));
         const replyMessage = this.buildAddedReply(
           created.number,
           expenseData.item,
@@ -298,7 +581,11 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
           budget,
           remaining,
           dailyLimit,
-          todaySpending
+          todaySpending,
+          created.category,
+          categoryStatus,
+          carriedOver,
+          expenseData
         );
 
         console.log(`📤 Sending expense reply to: ${originalMessage.from}`);
@@ -331,78 +618,87 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
     originalMessage: Message,
     mongoService: MongoService
   ): Promise<void> {
+    // The uploaded photo until an expense, a pending confirmation or a receipt preview holds it;
+    // deleted if the scan stops before that
+    let upload: Pick<ExpenseData, 'imageProvider' | 'imageRef'> = {};
     try {
-      const imageDataUrl = `data:${media.mimetype};base64,${media.data}`;
-      let uploadedImageUrl: string | undefined;
-      let uploadedImageRef: string | undefined;
-      let uploadedProvider: 'cloudinary' | undefined;
-
-      // Upload image to Cloudinary (best-effort)
-      try {
-        const buffer = Buffer.from(media.data, 'base64');
-        const ts = new Date();
-        const yyyy = ts.getFullYear();
-        const mm = String(ts.getMonth() + 1).padStart(2, '0');
-        const dd = String(ts.getDate()).padStart(2, '0');
-        const hh = String(ts.getHours()).padStart(2, '0');
-        const mi = String(ts.getMinutes()).padStart(2, '0');
-        const ss = String(ts.getSeconds()).padStart(2, '0');
-        const safeCaption = (caption || '').trim().replace(/[^a-z0-9-_]+/gi, '_').slice(0, 40);
-        const baseName = safeCaption || 'expense';
-        const ext = media.mimetype?.split('/')?.[1] || 'jpg';
-        const filename = `${yyyy}${mm}${dd}_${hh}${mi}${ss}_${baseName}.${ext}`;
-
-        if (this.cloudinaryService) {
-          const uploaded = await this.cloudinaryService.uploadImage({
-            buffer,
-            mimetype: media.mimetype || 'image/jpeg',
-            filename,
-            userId: originalMessage.from,
-            date: ts,
-          });
-          uploadedImageUrl = uploaded.secureUrl;
-          uploadedImageRef = uploaded.publicId;
-          uploadedProvider = 'cloudinary';
-        }
-      } catch (e) {
-        console.error('❌ Image upload failed (continuing without URL):', e);
+      // "#012" caption: keep the photo on an existing expense instead of scanning it
+      const attachMatch = (caption || '').trim().match(ATTACH_CAPTION);
+      if (attachMatch) {
+        await this.attachImage(media, parseInt(attachMatch[1]!), originalMessage, mongoService);
+        return;
       }
 
+      const imageDataUrl = `data:${media.mimetype};base64,${media.data}`;
+      const image = await this.uploadImage(media, caption, originalMessage.from);
+      upload = image;
+
       // User currency
       const userCurrency = await mongoService.getUserCurrency(originalMessage.from);
 
-      // Groq-only extraction
-      const result = await this.extractExpenseWithConfidence(imageDataUrl);
+      // "Split" caption: extract every line item and let the user choose how to save them
+      const splitMatch = (caption || '').trim().match(SPLIT_CAPTION);
+      if (splitMatch) {
+        await this.processReceiptItems(imageDataUrl, image, splitMatch[1] || '', originalMessage, mongoService);
+        upload = {};
+        return;
+      }
+
+      // Single-total extraction
+      const result = await this.extractExpenseWithConfidence(
+        imageDataUrl,
+        await mongoService.getUserTimezone(originalMessage.from),
+        userCurrency
+      );
       if (!result.expense) {
-        throw new ImageProcessingError('Groq did not return a parsable expense.');
+        throw new ImageProcessingError('Vision model did not return a parsable expense.');
       }
       const finalExpense: ExpenseData = result.expense;
       // Override item name based on user caption or default to "Image Scan"
       const userCaption = (caption || '').trim();
       finalExpense.item = userCaption || 'Image Scan';
 
-      // Normalize to user's currency and attach image metadata
-      finalExpense.currency = userCurrency;
-      finalExpense.price = Math.round(finalExpense.price * 100) / 100;
-      if (uploadedImageUrl) {
-        finalExpense.imageUrl = uploadedImageUrl;
-        if (uploadedProvider) finalExpense.imageProvider = uploadedProvider;
-        if (uploadedImageRef) finalExpense.imageRef = uploadedImageRef;
+      // Same photo or same receipt details as a saved expense: ask before creating a second entry
+      const duplicate = await mongoService.findDuplicateExpense(originalMessage.from, { ...finalExpense, ...image });
+      if (duplicate) {
+        await this.handleDuplicateScan({ ...finalExpense, ...image }, duplicate, originalMessage, mongoService, userCurrency);
+        upload = {};
+        return;
+      }
+
+      // Low-confidence scans go through the YES/NO confirmation instead of being saved straight away
+      if (result.confidence < OcrConfidenceService.threshold()) {
+        console.log(`🧐 Low OCR confidence ${result.confidence} for ${originalMessage.from}: ${result.reasons.join('; ')}`);
+        await this.handleUncertainOCR({ ...finalExpense, ...image }, originalMessage, mongoService, userCurrency, result.reasons);
+        upload = {};
+        return;
+      }
+
+      // Convert to user's currency (receipts in other currencies keep their original amount) and attach image metadata
+      Object.assign(finalExpense, image);
+      if (!(await this.toHomeCurrency(finalExpense, userCurrency))) {
+        upload = {};
+        await this.dropUnconvertedScan(originalMessage.from, finalExpense, userCurrency);
+        return;
       }
 
       // Save
-      const created = await this.addToMongo(finalExpense, originalMessage.from, mongoService);
+      const created = await this.addToMongo(finalExpense, originalMessage.from, mongoService, { text: caption || 'Receipt photo' });
+      upload = {};
 
       // Totals and reply
       const monthlyTotal = await mongoService.calculateMonthlyTotal(
         originalMessage.from,
         finalExpense.date
       );
-      const budget = await mongoService.getMonthlyBudget(originalMessage.from);
+      const budget = await mongoService.getMonthlyBudget(originalMessage.from, finalExpense.date.slice(0, 7));
       const remaining = budget - monthlyTotal.totalAmount;
-      const todaySpending = await CurrencyService.getTodaysSpending(originalMessage.from);
-      const dailyLimit = budget > 0 ? CurrencyService.calculateDynamicDailyLimit(remaining) : null;
+      const todaySpending = await mongoService.calculateTodaysSpending(originalMessage.from);
+      const timeZone = await mongoService.getUserTimezone(originalMessage.from);
+      const dailyLimit = budget > 0 && this.isCurrentMonth(finalExpense.date, timeZone) ? CurrencyService.calculateDynamicDailyLimit(remaining, timeZone) : null;
 
+      const categoryStatus = await this.getCategoryBudgetStatus(originalMessage.from, created.category, finalExpense.date, mongoService);
+      const carriedOver = await mongoService.getBudgetCarryOver(originalMessage.from, finalExpense.date.slice(0, 7));
       const replyMessage = this.buildImageExpenseReply(
         created.number,
         finalExpense.item,
@@ -418,7 +714,12 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
         remaining,
         dailyLimit,
         todaySpending,
-        false
+        false,
+        this.imageLink(created),
+        created.category,
+        categoryStatus,
+        carriedOver,
+        finalExpense
       );
 
       console.log(`📤 Sending image expense reply to: ${originalMessage.from}`);
@@ -432,6 +733,7 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
       }
     } catch (error) {
       console.error('❌ Error processing image message:', error);
+      if (upload.imageRef) await this.deleteStoredImage(upload.imageProvider, upload.imageRef);
       if (error instanceof ImageProcessingError) {
         await this.client.sendMessage(
           originalMessage.from,
@@ -444,6 +746,421 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
     }
   }
 
+  // Upload the photo to the configured image storage (best-effort); returns the image fields to store
+  // on the expense,
+  // including the hashes used to recognise the same receipt sent again
+  private async uploadImage(
+    media: MessageMedia,
+    caption: string,
+    userId: string
+  ): Promise<Pick<ExpenseData, 'imageUrl' | 'imageProvider' | 'imageRef' | 'imageHash' | 'imageDigest'>> {
+    const buffer = Buffer.from(media.data, 'base64');
+    const imageDigest = DuplicateReceiptService.digest(buffer);
+    const imageHash = DuplicateReceiptService.perceptualHash(buffer);
+    try {
+      const ts = new Date();
+      const yyyy = ts.getFullYear();
+      const mm = String(ts.getMonth() + 1).padStart(2, '0');
+      const dd = String(ts.getDate()).padStart(2, '0');
+      const hh = String(ts.getHours()).padStart(2, '0');
+      const mi = String(ts.getMinutes()).padStart(2, '0');
+      const ss = String(ts.getSeconds()).padStart(2, '0');
+      const safeCaption = (caption || '').trim().replace(/[^a-z0-9-_]+/gi, '_').slice(0, 40);
+      const baseName = safeCaption || 'expense';
+      const ext = media.mimetype?.split('/')?.[1] || 'jpg';
+      const filename = `${yyyy}${mm}${dd}_${hh}${mi}${ss}_${baseName}.${ext}`;
+
+      if (this.imageStorage) {
+        const stored = await this.imageStorage.upload({
+          buffer,
+          mimetype: media.mimetype || 'image/jpeg',
+          filename,
+          userId,
+          date: ts,
+        });
+        return {
+          imageUrl: stored.url,
+          imageProvider: stored.provider,
+          imageRef: stored.ref,
+          imageDigest,
+          // Cloudinary's own phash only for formats we can't decode (WebP, HEIC)
+          ...(imageHash || stored.phash ? { imageHash: imageHash || stored.phash } : {}),
+        };
+      }
+    } catch (e) {
+      console.error('❌ Image upload failed (continuing without URL):', e);
+    }
+    return { imageDigest, ...(imageHash ? { imageHash } : {}) };
+  }
+
+  // Store a photo on an existing expense (warranty cards, receipts found later). A replaced image is
+  // deleted unless another expense from the same receipt still uses it.
+  private async attachImage(media: MessageMedia, expenseNumber: number, originalMessage: Message, mongoService: MongoService): Promise<void> {
+    const userId = originalMessage.from;
+    const expense = await Expense.findOne({ userId, number: expenseNumber });
+    if (!expense) {
+      await this.client.sendMessage(userId, `❌ Expense #${this.padNumber(expenseNumber)} not found.`);
+      return;
+    }
+
+    const image = await this.uploadImage(media, `expense_${this.padNumber(expenseNumber)}`, userId);
+    if (!image.imageUrl || !image.imageProvider || !image.imageRef) {
+      await this.client.sendMessage(userId, '❌ Couldn’t store the image right now. Please try again later.');
+      return;
+    }
+
+    const previous = expense.imageRef && !expense.imageDeletedAt
+      ? { provider: expense.imageProvider, ref: expense.imageRef }
+      : null;
+    await mongoService.updateExpense(expense, {
+      $set: image,
+      $unset: { imageDeletedAt: 1, ...(image.imageHash ? {} : { imageHash: 1 }) },
+    }, { text: originalMessage.body || `#${this.padNumber(expenseNumber)}` });
+    if (previous && !(await Expense.exists({ userId, imageRef: previous.ref }))) {
+      await this.deleteStoredImage(previous.provider, previous.ref);
+    }
+
+    console.log(`📤 Sending image attach confirmation to: ${userId}`);
+    await this.client.sendMessage(
+      userId,
+      `📎 ${previous ? 'Replaced the image on' : 'Image saved to'} *#${this.padNumber(expenseNumber)} ${expense.item}*\nGet it back any time with: #${this.padNumber(expenseNumber)} image`
+    );
+  }
+
+  // Send the stored photo of an expense back as a WhatsApp image ("#012 image")
+  public async sendExpenseImage(messageBody: string, userId: string): Promise<void> {
+    const match = messageBody.trim().match(/^#(\d+)/);
+    if (!match) return;
+    const expenseNumber = parseInt(match[1]!);
+    const expense = await Expense.findOne({ userId, number: expenseNumber });
+    if (!expense) {
+      await this.client.sendMessage(userId, `❌ Expense #${this.padNumber(expenseNumber)} not found.`);
+      return;
+    }
+    if (!expense.imageUrl || expense.imageDeletedAt) {
+      await this.client.sendMessage(
+        userId,
+        `No image stored for *#${this.padNumber(expenseNumber)} ${expense.item}*.\nAttach one by sending a photo with the caption #${this.padNumber(expenseNumber)}`
+      );
+      return;
+    }
+
+    try {
+      const storage = imageStorageFor(expense.imageProvider);
+      if (!storage || !expense.imageRef) throw new Error(`No storage backend for "${expense.imageProvider}"`);
+      const { data, mimetype } = await storage.download(expense.imageRef);
+      await this.client.sendMessage(
+        userId,
+        new MessageMedia(mimetype, data.toString('base64'), `expense_${this.padNumber(expenseNumber)}.${mimetype.split('/')[1] || 'jpg'}`)
+      );
+    } catch (e) {
+      console.error(`❌ Failed to send image for #${this.padNumber(expenseNumber)}:`, e);
+      await this.client.sendMessage(userId, 'Sorry, I couldn’t fetch that image right now. Please try again.');
+    }
+  }
+
+  private async deleteStoredImage(provider: string | undefined, ref: string): Promise<void> {
+    try {
+      await imageStorageFor(provider)?.delete(ref);
+    } catch (e) {
+      console.warn(`Failed to delete stored image ${ref}:`, (e as any)?.message || e);
+    }
+  }
+
+  // Extract every line item (quantity, unit price, line total) plus tax, discount and grand total.
+  // Missing line totals are computed from quantity × unit price; a missing grand total from the lines.
+  private async extractReceiptItems(
+    imageDataUrl: string,
+    timeZone?: string,
+    fallbackCurrency: string = "USD"
+  ): Promise<Omit<PendingReceipt, 'category' | 'imageUrl' | 'imageProvider' | 'imageRef'> | null> {
+    try {
+      const systemPrompt =
+        "You extract line items from a receipt image. Return strict JSON with keys: " +
+        "currency (ISO code like USD/BDT if visible else empty), " +
+        "items (array of { name: string, quantity: number, unitPrice: number, total: number }), " +
+        "tax (number, 0 if none), discount (number, positive, 0 if none), total (grand total as printed), " +
+        "date (YYYY-MM-DD as printed, or empty), merchant (shop name, or empty), paymentMethod (cash, card, bKash, etc. if printed, or empty). " +
+        "List every purchased line; do not include subtotal, tax, discount, change or payment lines as items. ONLY JSON.";
+
+      const content = await this.receiptProvider.extract({
+        kind: "items",
+        imageDataUrl,
+        systemPrompt,
+        userText: "Extract all line items from this receipt. Output JSON only.",
+        temperature: 0.1,
+        maxTokens: 2048,
+      });
+      const firstBrace = content.indexOf("{");
+      const lastBrace = content.lastIndexOf("}");
+      if (firstBrace === -1 || lastBrace <= firstBrace) return null;
+      const parsed = JSON.parse(content.slice(firstBrace, lastBrace + 1));
+
+      const round = (n: number) => Math.round(n * 100) / 100;
+      const num = (v: any) => (typeof v === "number" ? v : parseFloat(String(v ?? "").replace(/,/g, "")));
+      const items: ReceiptLineItem[] = [];
+      for (const raw of Array.isArray(parsed.items) ? parsed.items : []) {
+        const name = String(raw?.name || "").trim();
+        const quantity = num(raw?.quantity) > 0 ? num(raw.quantity) : 1;
+        const unitPrice = num(raw?.unitPrice);
+        let total = num(raw?.total);
+        if (!(total > 0) && unitPrice > 0) total = unitPrice * quantity;
+        if (!name || !(total > 0)) continue;
+        items.push({
+          name: name.slice(0, 60),
+          quantity,
+          unitPrice: round(unitPrice > 0 ? unitPrice : total / quantity),
+          total: round(total),
+        });
+      }
+      if (!items.length) return null;
+
+      const tax = num(parsed.tax) > 0 ? round(num(parsed.tax)) : 0;
+      const discount = num(parsed.discount) ? round(Math.abs(num(parsed.discount))) : 0;
+      const computed = round(items.reduce((sum, i) => sum + i.total, 0) + tax - discount);
+      const total = num(parsed.total) > 0 ? round(num(parsed.total)) : computed;
+      return {
+        date: DateService.today(timeZone),
+        currency: CurrencyService.detectCurrency(String(parsed.currency || "")) || fallbackCurrency,
+        items,
+        tax,
+        discount,
+        total,
+        ...this.receiptDetails(parsed),
+      };
+    } catch (err) {
+      console.error(`❌ Receipt item extraction (${this.receiptProvider.name}) failed:`, err);
+      return null;
+    }
+  }
+
+  // Merchant, payment method and printed date from a vision model reply; fields that are missing or
+  // don't look right are left out
+  private receiptDetails(parsed: { merchant?: unknown; paymentMethod?: unknown; date?: unknown }): Pick<ExpenseData, 'merchant' | 'paymentMethod' | 'receiptDate'> {
+    const details: Pick<ExpenseData, 'merchant' | 'paymentMethod' | 'receiptDate'> = {};
+    const merchant = String(parsed.merchant || '').trim().replace(/\s+/g, ' ');
+    if (merchant && merchant.length <= 60) details.merchant = merchant;
+    const paymentMethod = PaymentMethodService.normalize(String(parsed.paymentMethod || ''));
+    if (paymentMethod) details.paymentMethod = paymentMethod;
+    const date = String(parsed.date || '').trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date))) details.receiptDate = date;
+    return details;
+  }
+
+  private async processReceiptItems(
+    imageDataUrl: string,
+    image: Pick<ExpenseData, 'imageUrl' | 'imageProvider' | 'imageRef' | 'imageHash' | 'imageDigest'>,
+    captionCategory: string,
+    originalMessage: Message,
+    mongoService: MongoService
+  ): Promise<void> {
+    const userId = originalMessage.from;
+    const extracted = await this.extractReceiptItems(
+      imageDataUrl,
+      await mongoService.getUserTimezone(userId),
+      await mongoService.getUserCurrency(userId)
+    );
+    if (!extracted) {
+      throw new ImageProcessingError('Vision model did not return receipt line items.');
+    }
+    const pending: PendingReceipt = { ...extracted, ...image };
+    const category = captionCategory
+      ? CategoryService.matchCategory(captionCategory, await mongoService.getUserCategories(userId))
+      : null;
+    if (category) pending.category = category;
+
+    // Compared as one expense for the receipt total
+    const scan: ExpenseData = { item: 'Receipt', price: pending.total, currency: pending.currency, date: pending.date, ...image };
+    if (pending.merchant) scan.merchant = pending.merchant;
+    if (pending.receiptDate) scan.receiptDate = pending.receiptDate;
+    const duplicate = await mongoService.findDuplicateExpense(userId, scan);
+    if (duplicate) pending.duplicateNote = this.duplicateLine(duplicate.expense, duplicate.reason);
+
+    await mongoService.storePendingReceipt(userId, pending);
+    await this.client.sendMessage(userId, this.formatReceiptPreview(pending));
+  }
+
+  // Numbered line items with tax/discount and the reply options
+  private formatReceiptPreview(receipt: PendingReceipt): string {
+    const cur = receipt.currency;
+    let msg = `🧾 *Receipt* · ${receipt.items.length} item${receipt.items.length === 1 ? '' : 's'}${receipt.category ? ` · ${receipt.category}` : ''}\n`;
+    if (this.detailsLine(receipt)) msg += `${this.detailsLine(receipt)}\n`;
+    if (receipt.duplicateNote) msg += `⚠️ Already saved? ${receipt.duplicateNote}\n`;
+    msg += receipt.items
+      .map((line, i) => {
+        const qty = line.quantity !== 1 ? ` ${this.moneyCompact(line.quantity)} × ${this.moneyCompact(line.unitPrice)} =` : '';
+        return `${i + 1}. ${line.name}${qty} ${this.moneyCompact(line.total)}`;
+      })
+      .join('\n');
+    if (receipt.tax) msg += `\nTax: ${this.moneyCompact(receipt.tax)}`;
+    if (receipt.discount) msg += `\nDiscount: -${this.moneyCompact(receipt.discount)}`;
+    msg += `\n*Total: ${this.moneyCompact(receipt.total)} ${cur}*\n\n`;
+    msg += `Reply:\n*ALL* – save each item (tax and discount spread across items)\n*TOTAL* – save one expense for the total\n*DROP 2 5* – remove lines, then choose\n*NO* – cancel`;
+    return msg;
+  }
+
+  // Reply to a receipt preview. NO, or dropping every line, also deletes the uploaded photo. Returns
+  // false when the reply wasn't one of the options.
+  public async handleReceiptReply(
+    response: string,
+    userId: string,
+    originalMessage: Message,
+    mongoService: MongoService
+  ): Promise<boolean> {
+    const normalized = (response || '').trim().toLowerCase();
+    const receipt = await mongoService.getPendingReceipt(userId);
+    if (!receipt) {
+      await mongoService.clearPendingReceipt(userId);
+      await this.client.sendMessage(userId, 'No receipt is waiting. Send the photo again with the caption Split.');
+      return true;
+    }
+
+    if (normalized === 'no' || normalized === 'n' || normalized === 'cancel') {
+      if (receipt.imageRef) await this.deleteStoredImage(receipt.imageProvider, receipt.imageRef);
+      await mongoService.clearPendingReceipt(userId);
+      await this.client.sendMessage(originalMessage.from, '❎ Receipt discarded. Nothing was saved.');
+      return true;
+    }
+
+    // "drop 2 5", "drop 2,5", "drop 2-4"
+    const drop = normalized.match(/^(?:drop|remove)\s+([\d\s,\-–]+)$/);
+    if (drop) {
+      const lines = new Set<number>();
+      for (const part of drop[1]!.split(/[\s,]+/).filter(Boolean)) {
+        const range = part.match(/^(\d+)[\-–](\d+)$/);
+        const [start, end] = range ? [parseInt(range[1]!, 10), parseInt(range[2]!, 10)] : [parseInt(part, 10), parseInt(part, 10)];
+        for (let n = Math.min(start, end); n <= Math.max(start, end); n++) lines.add(n);
+      }
+      const invalid = [...lines].filter((n) => n < 1 || n > receipt.items.length);
+      if (invalid.length || !lines.size) {
+        await this.client.sendMessage(userId, `❌ Line numbers go from 1 to ${receipt.items.length}. Example: DROP 2 5`);
+        return true;
+      }
+      const kept = receipt.items.filter((_, i) => !lines.has(i + 1));
+      if (!kept.length) {
+        if (receipt.imageRef) await this.deleteStoredImage(receipt.imageProvider, receipt.imageRef);
+        await mongoService.clearPendingReceipt(userId);
+        await this.client.sendMessage(userId, '❎ All lines dropped. Nothing was saved.');
+        return true;
+      }
+      // Tax, discount and any rounding on the receipt shrink in proportion to the lines kept
+      const round = (n: number) => Math.round(n * 100) / 100;
+      const before = receipt.items.reduce((sum, i) => sum + i.total, 0);
+      const after = kept.reduce((sum, i) => sum + i.total, 0);
+      const share = before > 0 ? after / before : 1;
+      const updated: PendingReceipt = {
+        ...receipt,
+        items: kept,
+        tax: round(receipt.tax * share),
+        discount: round(receipt.discount * share),
+        total: round(after + (receipt.total - before) * share),
+      };
+      await mongoService.storePendingReceipt(userId, updated);
+      await this.client.sendMessage(userId, this.formatReceiptPreview(updated));
+      return true;
+    }
+
+    if (normalized === 'all' || normalized === 'yes' || normalized === 'y') {
+      await this.saveReceipt(receipt, 'items', userId, mongoService);
+      return true;
+    }
+    if (normalized === 'total') {
+      await this.saveReceipt(receipt, 'total', userId, mongoService);
+      return true;
+    }
+    return false;
+  }
+
+  // Save the receipt and either one expense per line (tax/discount spread in proportion to each line)
+  // or a single expense for the total. Every expense links back to the receipt.
+  private async saveReceipt(
+    receipt: PendingReceipt,
+    mode: 'items' | 'total',
+    userId: string,
+    mongoService: MongoService
+  ): Promise<void> {
+    const userCurrency = await mongoService.getUserCurrency(userId);
+    const image: Pick<ExpenseData, 'imageUrl' | 'imageProvider' | 'imageRef' | 'imageHash' | 'imageDigest'> = {};
+    if (receipt.imageUrl) image.imageUrl = receipt.imageUrl;
+    if (receipt.imageProvider) image.imageProvider = receipt.imageProvider;
+    if (receipt.imageRef) image.imageRef = receipt.imageRef;
+    if (receipt.imageHash) image.imageHash = receipt.imageHash;
+    if (receipt.imageDigest) image.imageDigest = receipt.imageDigest;
+    const details: Pick<ExpenseData, 'merchant' | 'paymentMethod' | 'receiptDate'> = {};
+    if (receipt.merchant) details.merchant = receipt.merchant;
+    if (receipt.paymentMethod) details.paymentMethod = receipt.paymentMethod;
+    if (receipt.receiptDate) details.receiptDate = receipt.receiptDate;
+
+    const lineSum = receipt.items.reduce((sum, i) => sum + i.total, 0);
+    const drafts: ExpenseData[] = [];
+    if (mode === 'items') {
+      let allocated = 0;
+      receipt.items.forEach((line, i) => {
+        const last = i === receipt.items.length - 1;
+        const price = last
+          ? Math.round((receipt.total - allocated) * 100) / 100
+          : Math.round((lineSum > 0 ? (line.total / lineSum) * receipt.total : line.total) * 100) / 100;
+        allocated += price;
+        drafts.push({ item: line.name, price, currency: receipt.currency, date: receipt.date });
+      });
+    } else {
+      const count = receipt.items.length;
+      drafts.push({
+        item: receipt.category ? `${receipt.category} receipt` : `Receipt (${count} item${count === 1 ? '' : 's'})`,
+        price: receipt.total,
+        currency: receipt.currency,
+        date: receipt.date,
+      });
+    }
+
+    // Convert everything first so a missing rate doesn't leave a half-saved receipt. Nothing is saved,
+    // so the receipt and its photo are dropped like a NO.
+    for (const draft of drafts) {
+      if (!(await this.toHomeCurrency(draft, userCurrency))) {
+        if (receipt.imageRef) await this.deleteStoredImage(receipt.imageProvider, receipt.imageRef);
+        await mongoService.clearPendingReceipt(userId);
+        await this.sendMissingRate(userId, receipt.currency, userCurrency);
+        return;
+      }
+    }
+
+    const saved = await Receipt.create({
+      userId,
+      date: receipt.date,
+      currency: receipt.currency,
+      items: receipt.items,
+      tax: receipt.tax,
+      discount: receipt.discount,
+      total: receipt.total,
+      merchant: receipt.merchant,
+      paymentMethod: receipt.paymentMethod,
+      ...image,
+    });
+    const created = [];
+    // One Undo takes back every line of the receipt
+    const source: ExpenseChangeSource = { text: receipt.merchant ? `Receipt from ${receipt.merchant}` : 'Receipt', actionId: mongoService.newActionId() };
+    for (const draft of drafts) {
+      if (receipt.category) draft.category = receipt.category;
+      created.push(await this.addToMongo({ ...draft, ...details, ...image, receiptId: String(saved._id) }, userId, mongoService, source));
+    }
+    await mongoService.clearPendingReceipt(userId);
+
+    const monthlyTotal = await mongoService.calculateMonthlyTotal(userId, receipt.date);
+    const budget = await mongoService.getMonthlyBudget(userId, receipt.date.slice(0, 7));
+    const remaining = budget - monthlyTotal.totalAmount;
+    const savedTotal = drafts.reduce((sum, d) => sum + d.price, 0);
+    let reply = mode === 'items'
+      ? `✅ Saved ${created.length} item${created.length === 1 ? '' : 's'} from your receipt\n`
+      : `✅ Saved your receipt total\n`;
+    reply += created
+      .map((exp) => `#${this.padNumber(exp.number)} ${exp.item}: ${this.moneyCompact(exp.price)} ${exp.currency}${exp.category ? ` (${exp.category})` : ''}`)
+      .join('\n');
+    if (created.length > 1) reply += `\nTotal: ${this.moneyCompact(savedTotal)} ${userCurrency}`;
+    reply += `\n${monthlyTotal.month} ${monthlyTotal.year} → Spent: ${this.money(monthlyTotal.totalAmount)} / ${this.money(budget)} ${userCurrency}`;
+    reply += `\nRemaining: ${this.money(remaining)} ${userCurrency}`;
+    await this.client.sendMessage(userId, reply);
+  }
+
   public async handleCorrection(
     messageBody: string,
     userId: string,
@@ -464,7 +1181,9 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
 
       // Parse the correction using the same expense extraction logic
       const correctedExpenseData = await this.extractExpenseData(
-        correctionText
+        correctionText,
+        userId,
+        mongoService
       );
 
       if (!correctedExpenseData) {
@@ -475,9 +1194,12 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
         return;
       }
 
-      // Use user's saved currency for correction
+      // Convert the correction to the user's saved currency
       const userCurrency = await mongoService.getUserCurrency(userId);
-      correctedExpenseData.currency = userCurrency;
+      if (!(await this.toHomeCurrency(correctedExpenseData, userCurrency))) {
+        await this.sendMissingRate(originalMessage.from, correctedExpenseData.currency, userCurrency);
+        return;
+      }
 
       // Get the most recent expense for this user
       const lastExpense = await Expense.findOne({ userId }).sort({
@@ -493,24 +1215,35 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
       }
 
       // Update the last expense with corrected data
-      correctedExpenseData.price = Math.round(correctedExpenseData.price * 100) / 100;
-      await Expense.findByIdAndUpdate(lastExpense._id, {
+      await mongoService.updateExpense(lastExpense, {
         item: correctedExpenseData.item,
+        category: correctedExpenseData.category,
         price: correctedExpenseData.price,
         currency: correctedExpenseData.currency,
         date: correctedExpenseData.date,
-      });
+        originalPrice: correctedExpenseData.originalPrice ?? null,
+        originalCurrency: correctedExpenseData.originalCurrency ?? null,
+        exchangeRate: correctedExpenseData.exchangeRate ?? null,
+      }, { text: messageBody });
 
       // Calculate updated monthly totals
       const monthlyTotal = await mongoService.calculateMonthlyTotal(
         userId,
         correctedExpenseData.date
       );
-      const budget = await mongoService.getMonthlyBudget(userId);
+      const budget = await mongoService.getMonthlyBudget(userId, correctedExpenseData.date.slice(0, 7));
       const remaining = budget - monthlyTotal.totalAmount;
 
-      const todaySpending = await CurrencyService.getTodaysSpending(userId);
-      const dailyLimit = budget > 0 ? CurrencyService.calculateDynamicDailyLimit(remaining) : null;
+      const todaySpending = await mongoService.calculateTodaysSpending(userId);
+      const timeZone = await mongoService.getUserTimezone(userId);
+      const dailyLimit = budget > 0 && this.isCurrentMonth(correctedExpenseData.date, timeZone) ? CurrencyService.calculateDynamicDailyLimit(remaining, timeZone) : null;
+
+      const categoryStatus = await this.getCategoryBudgetStatus(
+        userId,
+        correctedExpenseData.category,
+        correctedExpenseData.date,
+        mongoService
+      );
 
       const replyMessage = this.buildUpdatedReply(
         typeof lastExpense.number === "number" ? lastExpense.number : 0,
@@ -526,7 +1259,9 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
         budget,
         remaining,
         dailyLimit,
-        todaySpending
+        todaySpending,
+        categoryStatus,
+        correctedExpenseData
       );
 
       console.log(`📤 Sending correction reply to: ${originalMessage.from}`);
@@ -558,10 +1293,22 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
     return short.charAt(0).toUpperCase() + short.slice(1).toLowerCase();
   }
 
+  private isCurrentMonth(date: string, timeZone: string): boolean {
+    return date.slice(0, 7) === DateService.currentMonth(timeZone);
+  }
+
   private money(amount: number): string {
     return (Math.round(amount * 100) / 100).toFixed(2);
   }
 
+  // Spent/remaining for the expense's category, or a warning once the category budget is exceeded
+  private categoryBudgetLine(status: CategoryBudgetStatus, currency: string): string {
+    if (status.remaining < 0) {
+      return `⚠️ ${status.category} budget exceeded: ${this.moneyCompact(status.spent)} / ${this.moneyCompact(status.budget)} ${currency} (over by ${this.moneyCompact(-status.remaining)})`;
+    }
+    return `🏷️ ${status.category}: ${this.moneyCompact(status.spent)} / ${this.moneyCompact(status.budget)} ${currency} · Left: ${this.moneyCompact(status.remaining)}`;
+  }
+
   private buildAddedReply(
     number: number,
     item: string,
@@ -576,10 +1323,28 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
     budget: number,
     remaining: number,
     dailyLimit: number | null,
-    todaySpending: number | null
+    todaySpending: number | null,
+    category?: string,
+    categoryStatus?: CategoryBudgetStatus | null,
+    carriedOver?: number,
+    exchange?: Pick<ExpenseData, 'originalPrice' | 'originalCurrency' | 'exchangeRate' | 'merchant' | 'paymentMethod'> | null
   ): string {
     let reply = `*#${this.padNumber(number)} ${item}: ${this.moneyCompact(price)} ${currency} ✅*\n`;
+    if (this.exchangeLine(exchange)) {
+      reply += `${this.exchangeLine(exchange)}\n`;
+    }
+    if (this.detailsLine(exchange)) {
+      reply += `${this.detailsLine(exchange)}\n`;
+    }
+    if (categoryStatus) {
+      reply += `${this.categoryBudgetLine(categoryStatus, currency)}\n`;
+    } else if (category) {
+      reply += `🏷️ ${category}\n`;
+    }
     reply += `${this.abbrevMonth(month)} ${year} → Spent: ${this.moneyCompact(totalAmount)} / ${this.moneyCompact(budget)} ${currency}\n`;
+    if (carriedOver) {
+      reply += `↪️ Carried over: ${carriedOver > 0 ? '+' : '-'}${this.moneyCompact(Math.abs(carriedOver))} ${currency}\n`;
+    }
     reply += `Remaining: ${this.moneyCompact(remaining)} ${currency}\n`;
     if (budget > 0 && dailyLimit !== null && todaySpending !== null) {
       reply += `*🎯 Daily limit: ${this.moneyCompact(dailyLimit)} ${currency}*\n`;
@@ -606,9 +1371,17 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
     budget: number,
     remaining: number,
     dailyLimit: number | null,
-    todaySpending: number | null
+    todaySpending: number | null,
+    categoryStatus?: CategoryBudgetStatus | null,
+    exchange?: Pick<ExpenseData, 'originalPrice' | 'originalCurrency' | 'exchangeRate'> | null
   ): string {
     let reply = `Updated. *#${this.padNumber(number)} ${item}: ${this.moneyCompact(price)} ${currency}*`;
+    if (this.exchangeLine(exchange)) {
+      reply += `\n${this.exchangeLine(exchange)}`;
+    }
+    if (categoryStatus) {
+      reply += `\n${this.categoryBudgetLine(categoryStatus, currency)}`;
+    }
     return reply;
   }
 
@@ -628,10 +1401,25 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
     dailyLimit: number | null,
     todaySpending: number | null,
     isFromCaption: boolean,
-    shortLink?: string
+    shortLink?: string,
+    category?: string,
+    categoryStatus?: CategoryBudgetStatus | null,
+    carriedOver?: number,
+    exchange?: Pick<ExpenseData, 'originalPrice' | 'originalCurrency' | 'exchangeRate'> | null
   ): string {
     let reply = `*#${this.padNumber(number)} ${item}: ${this.moneyCompact(price)} ${currency} ✅*\n`;
+    if (this.exchangeLine(exchange)) {
+      reply += `${this.exchangeLine(exchange)}\n`;
+    }
+    if (categoryStatus) {
+      reply += `${this.categoryBudgetLine(categoryStatus, currency)}\n`;
+    } else if (category) {
+      reply += `🏷️ ${category}\n`;
+    }
     reply += `${this.abbrevMonth(month)} ${year} → Spent: ${this.moneyCompact(totalAmount)} / ${this.moneyCompact(budget)} ${currency}\n`;
+    if (carriedOver) {
+      reply += `↪️ Carried over: ${carriedOver > 0 ? '+' : '-'}${this.moneyCompact(Math.abs(carriedOver))} ${currency}\n`;
+    }
     reply += `Remaining: ${this.moneyCompact(remaining)} ${currency}\n`;
     if (shortLink) {
       reply += `🔗 View Image: ${shortLink}\n`;
@@ -661,16 +1449,24 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
         const pendingExpense = await mongoService.getPendingExpense(userId);
         if (pendingExpense) {
           const userCurrency = await mongoService.getUserCurrency(userId);
-          pendingExpense.currency = userCurrency;
+          // The currency may have changed since the scan was stored
+          if (!(await this.toHomeCurrency(pendingExpense, userCurrency))) {
+            await this.dropUnconvertedScan(userId, pendingExpense, userCurrency);
+            await mongoService.clearPendingExpense(userId);
+            return true;
+          }
 
-          const created = await this.addToMongo(pendingExpense, userId, mongoService);
-          const safeDate = pendingExpense.date || new Date().toISOString().split("T")[0];
+          const created = await this.addToMongo(pendingExpense, userId, mongoService, { text: response });
+          const safeDate = pendingExpense.date || DateService.today(await mongoService.getUserTimezone(userId));
           const monthlyTotal = await mongoService.calculateMonthlyTotal(userId, safeDate);
-          const budget = await mongoService.getMonthlyBudget(userId);
+          const budget = await mongoService.getMonthlyBudget(userId, safeDate.slice(0, 7));
           const remaining = budget - monthlyTotal.totalAmount;
-          const todaySpending = await CurrencyService.getTodaysSpending(userId);
-          const dailyLimit = budget > 0 ? CurrencyService.calculateDynamicDailyLimit(remaining) : null;
+          const todaySpending = await mongoService.calculateTodaysSpending(userId);
+          const timeZone = await mongoService.getUserTimezone(userId);
+          const dailyLimit = budget > 0 && this.isCurrentMonth(safeDate, timeZone) ? CurrencyService.calculateDynamicDailyLimit(remaining, timeZone) : null;
 
+          const categoryStatus = await this.getCategoryBudgetStatus(userId, created.category, safeDate, mongoService);
+          const carriedOver = await mongoService.getBudgetCarryOver(userId, safeDate.slice(0, 7));
           const replyMessage = this.buildImageExpenseReply(
             created.number,
             pendingExpense.item,
@@ -686,7 +1482,12 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
             remaining,
             dailyLimit,
             todaySpending,
-            false
+            false,
+            this.imageLink(created),
+            created.category,
+            categoryStatus,
+            carriedOver,
+            pendingExpense
           );
 
           await this.client.sendMessage(originalMessage.from, replyMessage);
@@ -697,6 +1498,9 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
           return true;
         }
       } else if (normalizedResponse === 'no' || normalizedResponse === 'n') {
+        // The scan isn't kept, so neither is its photo
+        const pendingExpense: ExpenseData | null = await mongoService.getPendingExpense(userId);
+        if (pendingExpense?.imageRef) await this.deleteStoredImage(pendingExpense.imageProvider, pendingExpense.imageRef);
         await this.client.sendMessage(
           originalMessage.from,
           "Please retake the photo clearly, or send manually like: Food 1180"
@@ -748,10 +1552,50 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
       }
 
       let newItem = existingExpense.item;
-      let newPrice = existingExpense.price;
+      // Amounts are edited in the currency they were entered in ("#001 Edit 25" on a 20 EUR taxi = 25 EUR)
+      const userCurrency = await mongoService.getUserCurrency(userId);
+      let newPrice = existingExpense.originalPrice ?? existingExpense.price;
+      let newCurrency = existingExpense.originalCurrency || userCurrency;
+      let newCategory = existingExpense.category;
+      let newDate = existingExpense.date;
+
+      // Receipt details (e.g., "#004 paid card", "#004 merchant Corner Market", "#004 paid none")
+      const detailMatch = editContent.match(/^(paid|merchant)\s+(?:by\s+|with\s+|via\s+|at\s+)?(.+)$/i);
+      if (detailMatch) {
+        await this.handleDetailEdit(
+          existingExpense,
+          detailMatch[1]!.toLowerCase() === 'paid' ? 'paymentMethod' : 'merchant',
+          detailMatch[2]!.trim(),
+          originalMessage,
+          mongoService
+        );
+        return;
+      }
 
-      // Check if it's a simple price edit (e.g., "Edit 400")
-      if (editContent.toLowerCase().startsWith('edit ')) {
+      // Category override (e.g., "#001 category Food"); also teaches the classifier
+      const categoryMatch = editContent.match(/^category\s+(.+)$/i);
+      if (categoryMatch) {
+        await this.handleCategoryOverride(existingExpense, categoryMatch[1]!.trim(), originalMessage, mongoService);
+        return;
+      }
+
+      // Date edit (e.g., "#001 date 12 Mar", "#001 date yesterday")
+      const dateMatch = editContent.match(/^date\s+(.+)$/i);
+      if (dateMatch) {
+        const parsed = DateService.parseDateExpression(
+          dateMatch[1]!.trim(),
+          DateService.today(await mongoService.getUserTimezone(userId))
+        );
+        if (!parsed || parsed.rest) {
+          await this.client.sendMessage(
+            originalMessage.from,
+            "❌ Couldn't read that date. Examples: #001 date yesterday, #001 date 12 Mar, #001 date 2025-03-12"
+          );
+          return;
+        }
+        newDate = parsed.date;
+      } else if (editContent.toLowerCase().startsWith('edit ')) {
+        // Simple price edit (e.g., "Edit 400")
         const priceMatch = editContent.match(/edit\s+(\d+(?:\.\d+)?)/i);
         if (priceMatch) {
           newPrice = parseFloat(priceMatch[1]!);
@@ -764,10 +1608,20 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
         }
       } else {
         // Full expense edit (e.g., "Coffee 400")
-        const expenseData = await this.extractExpenseData(editContent);
+        const expenseData = await this.extractExpenseData(editContent, userId, mongoService);
         if (expenseData) {
           newItem = expenseData.item;
           newPrice = expenseData.price;
+          newCategory = expenseData.category;
+          // Only move the expense when the edit names a date ("#001 Taxi 300 yesterday")
+          const dated = DateService.parseDateExpression(
+            editContent,
+            DateService.today(await mongoService.getUserTimezone(userId))
+          );
+          const datedEdit = !!dated && /\d/.test(dated.rest);
+          if (datedEdit) newDate = expenseData.date;
+          // Only change the currency when the edit names one next to the price ("#001 Taxi 20 EUR")
+          if (CurrencyService.amountCurrency(datedEdit ? dated!.rest : editContent)) newCurrency = expenseData.currency;
         } else {
           await this.client.sendMessage(
             originalMessage.from,
@@ -777,31 +1631,56 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
         }
       }
 
-      // Use user's saved currency
-      const userCurrency = await mongoService.getUserCurrency(userId);
-      newPrice = Math.round(newPrice * 100) / 100;
+      // Convert to the user's saved currency, keeping the recorded rate when the entered currency is unchanged
+      const amount: ExpenseData = { item: newItem, price: newPrice, currency: newCurrency, date: newDate };
+      if (
+        existingExpense.exchangeRate &&
+        existingExpense.originalCurrency === newCurrency &&
+        existingExpense.currency === userCurrency
+      ) {
+        amount.originalPrice = Math.round(newPrice * 100) / 100;
+        amount.originalCurrency = newCurrency;
+        amount.exchangeRate = existingExpense.exchangeRate;
+        amount.price = Math.round(amount.originalPrice * existingExpense.exchangeRate * 100) / 100;
+        amount.currency = userCurrency;
+      } else if (!(await this.toHomeCurrency(amount, userCurrency))) {
+        await this.sendMissingRate(originalMessage.from, amount.currency, userCurrency);
+        return;
+      }
 
       // Update the expense
-      await Expense.findByIdAndUpdate(existingExpense._id, {
+      await mongoService.updateExpense(existingExpense, {
         item: newItem,
-        price: newPrice,
+        category: newCategory,
+        price: amount.price,
         currency: userCurrency,
-      });
-
-      // Calculate updated totals and send detailed confirmation with dynamic daily limit
-      const todayStrForEdit = new Date().toISOString().slice(0, 10);
-      const monthlyTotal = await mongoService.calculateMonthlyTotal(userId, todayStrForEdit);
-      const budget = await mongoService.getMonthlyBudget(userId);
+        date: newDate,
+        originalPrice: amount.originalPrice ?? null,
+        originalCurrency: amount.originalCurrency ?? null,
+        exchangeRate: amount.exchangeRate ?? null,
+      }, { text: messageBody });
+
+      // Calculate updated totals for the month the expense now belongs to
+      const monthlyTotal = await mongoService.calculateMonthlyTotal(userId, newDate);
+      const budget = await mongoService.getMonthlyBudget(userId, newDate.slice(0, 7));
       const remaining = budget - monthlyTotal.totalAmount;
-      const todaySpending = await CurrencyService.getTodaysSpending(userId);
-      const dailyLimit = budget > 0 ? CurrencyService.calculateDynamicDailyLimit(remaining) : null;
+      const todaySpending = await mongoService.calculateTodaysSpending(userId);
+      const timeZone = await mongoService.getUserTimezone(userId);
+      const dailyLimit = budget > 0 && this.isCurrentMonth(newDate, timeZone) ? CurrencyService.calculateDynamicDailyLimit(remaining, timeZone) : null;
 
-      const replyMessage = this.buildUpdatedReply(
+      const categoryStatus = await this.getCategoryBudgetStatus(
+        userId,
+        newCategory,
+        newDate,
+        mongoService
+      );
+
+      let replyMessage = this.buildUpdatedReply(
         expenseNumber,
         newItem,
         userCurrency,
-        newPrice,
-        todayStrForEdit,
+        amount.price,
+        newDate,
         monthlyTotal.month,
         monthlyTotal.year,
         monthlyTotal.currency,
@@ -810,9 +1689,22 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
         budget,
         remaining,
         dailyLimit,
-        todaySpending
+        todaySpending,
+        categoryStatus,
+        amount
       );
 
+      // A moved expense changes the totals of both the old and the new month
+      if (newDate !== existingExpense.date) {
+        replyMessage += `\n📅 ${DateService.formatShort(existingExpense.date)} → ${DateService.formatShort(newDate)}`;
+        replyMessage += `\n${this.abbrevMonth(monthlyTotal.month)} ${monthlyTotal.year} → Spent: ${this.moneyCompact(monthlyTotal.totalAmount)} / ${this.moneyCompact(budget)} ${userCurrency}`;
+        if (newDate.slice(0, 7) !== existingExpense.date.slice(0, 7)) {
+          const oldTotal = await mongoService.calculateMonthlyTotal(userId, existingExpense.date);
+          const oldBudget = await mongoService.getMonthlyBudget(userId, existingExpense.date.slice(0, 7));
+          replyMessage += `\n${this.abbrevMonth(oldTotal.month)} ${oldTotal.year} → Spent: ${this.moneyCompact(oldTotal.totalAmount)} / ${this.moneyCompact(oldBudget)} ${userCurrency}`;
+        }
+      }
+
       console.log(`📤 Sending expense edit confirmation to: ${originalMessage.from}`);
       await this.client.sendMessage(originalMessage.from, replyMessage);
 
@@ -826,6 +1718,90 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
     }
   }
 
+  // Set the category of an existing expense and remember the choice for similar items
+  private async handleCategoryOverride(
+    existingExpense: InstanceType<typeof Expense>,
+    requested: string,
+    originalMessage: Message,
+    mongoService: MongoService
+  ): Promise<void> {
+    const userId = originalMessage.from;
+    const categories = await mongoService.getUserCategories(userId);
+    const category = CategoryService.matchCategory(requested, categories);
+    if (!category) {
+      await this.client.sendMessage(
+        userId,
+        `❌ Unknown category "${requested}".\nYour categories: ${categories.join(', ')}\nAdd one with: Category add ${CategoryService.formatCategoryName(requested)}`
+      );
+      return;
+    }
+
+    await mongoService.updateExpense(existingExpense, { category }, { text: originalMessage.body || '' });
+    await mongoService.saveCategoryMapping(userId, existingExpense.item, category);
+
+    console.log(`📤 Sending category update confirmation to: ${userId}`);
+    await this.client.sendMessage(
+      userId,
+      `Updated. *#${this.padNumber(existingExpense.number)} ${existingExpense.item}* → 🏷️ ${category}\nI'll use ${category} for "${existingExpense.item}" from now on.`
+    );
+  }
+
+  // Set or clear ("none") the payment method or merchant of an existing expense
+  private async handleDetailEdit(
+    existingExpense: InstanceType<typeof Expense>,
+    field: 'paymentMethod' | 'merchant',
+    value: string,
+    originalMessage: Message,
+    mongoService: MongoService
+  ): Promise<void> {
+    const label = `*#${this.padNumber(existingExpense.number)} ${existingExpense.item}*`;
+    const source = { text: originalMessage.body || '' };
+    if (/^(?:none|clear|remove|-)$/i.test(value)) {
+      await mongoService.updateExpense(existingExpense, { $unset: { [field]: 1 } }, source);
+      await this.client.sendMessage(
+        originalMessage.from,
+        `Updated. ${label} → ${field === 'paymentMethod' ? 'payment method' : 'merchant'} removed`
+      );
+      return;
+    }
+
+    const stored = field === 'paymentMethod'
+      ? PaymentMethodService.fromUserText(value)
+      : value.replace(/\s+/g, ' ').slice(0, 60);
+    await mongoService.updateExpense(existingExpense, { [field]: stored }, source);
+
+    console.log(`📤 Sending ${field} update confirmation to: ${originalMessage.from}`);
+    await this.client.sendMessage(
+      originalMessage.from,
+      `Updated. ${label} → ${field === 'paymentMethod' ? `💳 ${stored}` : `🏪 ${stored}`}`
+    );
+  }
+
+  // A shared WhatsApp location tags the expense added just before it
+  public async attachLocation(originalMessage: Message, mongoService: MongoService): Promise<void> {
+    const userId = originalMessage.from;
+    const shared = originalMessage.location;
+    if (!shared) return;
+
+    const latest = await Expense.findOne({ userId }).sort({ number: -1 });
+    if (!latest || Date.now() - (latest._id as Types.ObjectId).getTimestamp().getTime() > LOCATION_WINDOW_MS) {
+      await this.client.sendMessage(
+        userId,
+        '📍 Share a location right after adding an expense to record where you spent it.'
+      );
+      return;
+    }
+
+    const location: ExpenseLocation = { latitude: shared.latitude, longitude: shared.longitude };
+    if (shared.name) location.name = shared.name;
+    if (shared.address) location.address = shared.address;
+    const place = location.name || location.address || `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`;
+    await mongoService.updateExpense(latest, { location }, { text: `📍 ${place}` });
+
+    console.log(`📤 Sending location confirmation to: ${userId}`);
+    await this.client.sendMessage(userId, `📍 Saved location for *#${this.padNumber(latest.number)} ${latest.item}*: ${place}`);
+  }
+
   // Method to handle expense deletion by number
   public async handleExpenseDelete(
     messageBody: string,
@@ -860,26 +1836,36 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
         return;
       }
 
-      // Delete the expense
-      await Expense.findByIdAndDelete(existingExpense._id);
+      // Move the expense to the trash; Undo or "#001 restore" brings it back within 30 days
+      await mongoService.deleteExpense(existingExpense, { text: messageBody });
 
       // Calculate updated monthly totals after deletion
       const monthlyTotal = await mongoService.calculateMonthlyTotal(
         userId,
         existingExpense.date
       );
-      const budget = await mongoService.getMonthlyBudget(userId);
+      const budget = await mongoService.getMonthlyBudget(userId, existingExpense.date.slice(0, 7));
       const userCurrency = await mongoService.getUserCurrency(userId);
       const remaining = budget - monthlyTotal.totalAmount;
 
       // Dynamic daily limit and today's spending
-      const dailyLimit = budget > 0 ? CurrencyService.calculateDynamicDailyLimit(remaining) : null;
-      const todaySpending = await CurrencyService.getTodaysSpending(userId);
+      const timeZone = await mongoService.getUserTimezone(userId);
+      const dailyLimit = budget > 0 && this.isCurrentMonth(existingExpense.date, timeZone) ? CurrencyService.calculateDynamicDailyLimit(remaining, timeZone) : null;
+      const todaySpending = await mongoService.calculateTodaysSpending(userId);
 
       // Build and send confirmation message
       let replyMessage = `Deleted ❌\n#${this.padNumber(expenseNumber)} ${existingExpense.item}: ${this.money(existingExpense.price)} ${userCurrency}\n`;
       replyMessage += `${monthlyTotal.month} ${monthlyTotal.year} → Spent: ${this.money(monthlyTotal.totalAmount)} / ${this.money(budget)} ${userCurrency}\n`;
       replyMessage += `Remaining: ${this.money(remaining)} ${userCurrency}\n`;
+      const categoryStatus = await this.getCategoryBudgetStatus(
+        userId,
+        existingExpense.category,
+        existingExpense.date,
+        mongoService
+      );
+      if (categoryStatus) {
+        replyMessage += `${this.categoryBudgetLine(categoryStatus, userCurrency)}\n`;
+      }
       if (budget > 0 && dailyLimit !== null && todaySpending !== null) {
         replyMessage += `🎯 Daily limit: ${this.money(dailyLimit)} ${userCurrency}\n`;
         if (todaySpending <= dailyLimit) {
@@ -889,6 +1875,8 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
         }
       }
 
+      replyMessage += `${replyMessage.endsWith('\n') ? '' : '\n'}↩️ Changed your mind? Reply *Undo* or *#${this.padNumber(expenseNumber)} restore* within 30 days.`;
+
       console.log(`📤 Sending expense delete confirmation to: ${originalMessage.from}`);
       await this.client.sendMessage(originalMessage.from, replyMessage);
 
@@ -901,4 +1889,138 @@ Please send a clearer photo, add a caption like _Food_, or type manually like: C
       throw error;
     }
   }
+
+  // Revert the user's last command ("Undo"). Repeating it keeps going back through earlier commands.
+  public async handleUndo(originalMessage: Message, mongoService: MongoService): Promise<void> {
+    const userId = originalMessage.from;
+    const result = await mongoService.undoLastAction(userId, { text: originalMessage.body || 'Undo' });
+    if (!result) {
+      await this.client.sendMessage(userId, 'Nothing to undo.');
+      return;
+    }
+
+    const list = (entries: UndoResult['reverted']) =>
+      entries.slice(0, 10).map((e) => `#${this.padNumber(e.number)} ${e.item}`).join(', ') +
+      (entries.length > 10 ? ` and ${entries.length - 10} more` : '');
+    const verbs: { [action in ExpenseChangeAction]: string } = {
+      create: 'Removed',
+      edit: 'Reverted',
+      delete: 'Restored',
+      restore: 'Deleted again',
+    };
+
+    const lines: string[] = [];
+    if (result.reverted.length) lines.push(`↩️ Undone. ${verbs[result.action]} ${list(result.reverted)}`);
+    if (result.skipped.length) {
+      const why = result.action === 'delete' ? 'it is no longer in the trash' : 'it was deleted since';
+      lines.push(`⚠️ Couldn't undo ${list(result.skipped)}: ${why}.`);
+    }
+    const first = result.reverted[0] || result.skipped[0];
+    if (first) lines.push(`See all changes with: #${this.padNumber(first.number)} history`);
+
+    console.log(`📤 Sending undo confirmation to: ${userId}`);
+    await this.client.sendMessage(userId, lines.join('\n'));
+  }
+
+  // Change log of one expense, deleted ones included ("#012 history")
+  public async sendExpenseHistory(messageBody: string, userId: string, mongoService: MongoService): Promise<void> {
+    const match = messageBody.trim().match(/^#(\d+)/);
+    if (!match) return;
+    const expenseNumber = parseInt(match[1]!);
+    const label = `#${this.padNumber(expenseNumber)}`;
+
+    const entries = await mongoService.getExpenseHistory(userId, expenseNumber);
+    if (!entries.length) {
+      await this.client.sendMessage(userId, `No changes recorded for expense ${label}.`);
+      return;
+    }
+
+    const timeZone = await mongoService.getUserTimezone(userId);
+    const names: { [action in ExpenseChangeAction]: string } = {
+      create: 'Added',
+      edit: 'Edited',
+      delete: 'Deleted',
+      restore: 'Restored',
+    };
+    const shown = entries.slice(-HISTORY_ENTRIES_SHOWN);
+    const lines = shown.map((entry) => {
+      const when = entry.createdAt.toLocaleString('en-GB', { timeZone, day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+      const changes = entry.action === 'edit' ? this.describeChanges(entry.before, entry.after) : '';
+      const what = `${names[entry.action]}${changes ? `: ${changes}` : ''}`;
+      const by = entry.undoOf ? ' (by Undo)' : entry.source ? ` — "${entry.source}"` : '';
+      return `• ${when} ${what}${by}${entry.undoneAt ? ' ↩️ undone' : ''}`;
+    });
+
+    const last = entries[entries.length - 1]!;
+    const item = last.after?.item || last.before?.item || '';
+    let reply = `🕘 *${label} ${item}* history\n`;
+    if (entries.length > shown.length) reply += `(${entries.length - shown.length} earlier changes not shown)\n`;
+    reply += lines.join('\n');
+    if (last.action === 'delete') reply += `\n\n🗑️ Deleted. Bring it back with: ${label} restore`;
+
+    console.log(`📤 Sending expense history to: ${userId}`);
+    await this.client.sendMessage(userId, reply);
+  }
+
+  // What an edit changed: "amount 50.00 BDT → 60.00 BDT, category Food → Transport"
+  private describeChanges(before?: ExpenseSnapshot, after?: ExpenseSnapshot): string {
+    if (!before || !after) return '';
+    const amount = (e: ExpenseSnapshot) =>
+      e.originalCurrency ? `${this.money(e.originalPrice ?? e.price)} ${e.originalCurrency}` : `${this.money(e.price)} ${e.currency}`;
+    const fields: [string, (e: ExpenseSnapshot) => string | undefined][] = [
+      ['item', (e) => e.item],
+      ['amount', amount],
+      ['category', (e) => e.category],
+      ['date', (e) => (e.date ? DateService.formatShort(e.date) : undefined)],
+      ['merchant', (e) => e.merchant],
+      ['payment', (e) => e.paymentMethod],
+      ['location', (e) => e.location && (e.location.name || e.location.address || `${e.location.latitude.toFixed(5)}, ${e.location.longitude.toFixed(5)}`)],
+    ];
+
+    const changes: string[] = [];
+    for (const [name, value] of fields) {
+      const from = value(before);
+      const to = value(after);
+      if (from === to) continue;
+      changes.push(`${name} ${from ?? '—'} → ${to ?? '—'}`);
+    }
+    if (before.imageRef !== after.imageRef) {
+      changes.push(!after.imageRef ? 'image removed' : before.imageRef ? 'image replaced' : 'image added');
+    }
+    return changes.join(', ');
+  }
+
+  // Bring a deleted expense back under its old number ("#012 restore")
+  public async handleExpenseRestore(
+    messageBody: string,
+    userId: string,
+    originalMessage: Message,
+    mongoService: MongoService
+  ): Promise<void> {
+    const match = messageBody.trim().match(/^#(\d+)/);
+    if (!match) return;
+    const expenseNumber = parseInt(match[1]!);
+    const label = `#${this.padNumber(expenseNumber)}`;
+
+    if (await Expense.exists({ userId, number: expenseNumber })) {
+      await this.client.sendMessage(originalMessage.from, `${label} isn't deleted.`);
+      return;
+    }
+    const restored = await mongoService.restoreExpense(userId, { number: expenseNumber }, { text: messageBody });
+    if (!restored) {
+      await this.client.sendMessage(
+        originalMessage.from,
+        `❌ ${label} isn't in the trash. Deleted expenses can be restored for 30 days.`
+      );
+      return;
+    }
+
+    const monthlyTotal = await mongoService.calculateMonthlyTotal(userId, restored.date);
+    const budget = await mongoService.getMonthlyBudget(userId, restored.date.slice(0, 7));
+    let reply = `Restored ↩️\n${label} ${restored.item}: ${this.money(restored.price)} ${restored.currency} (${DateService.formatShort(restored.date)})\n`;
+    reply += `${monthlyTotal.month} ${monthlyTotal.year} → Spent: ${this.money(monthlyTotal.totalAmount)} / ${this.money(budget)} ${monthlyTotal.currency}`;
+
+    console.log(`📤 Sending expense restore confirmation to: ${originalMessage.from}`);
+    await this.client.sendMessage(originalMessage.from, reply);
+  }
 }
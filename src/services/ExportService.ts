@@ -0,0 +1,211 @@
+import { Client, MessageMedia } from "../types/wa";
+import type { ReportFormat, ReportRequest } from "../types/types";
+import { Expense, User } from "../models/ExpenseModel";
+import { ExchangeRateService } from "./ExchangeRateService";
+import { ReportRequestParser } from "./ReportRequestParser";
+
+// One exported transaction; `amount` is in `currency`, the user's currency whenever a rate was available
+interface ExportRow {
+  id: string;
+  number: string; // "#001"
+  date: string; // YYYY-MM-DD
+  item: string;
+  category: string;
+  amount: number;
+  currency: string;
+  originalPrice?: number;
+  originalCurrency?: string;
+  exchangeRate?: number;
+}
+
+const MIME_TYPES: { [format in Exclude<ReportFormat, "xlsx">]: string } = {
+  csv: "text/csv",
+  json: "application/json",
+  ofx: "application/x-ofx",
+  qif: "application/qif",
+};
+
+// Plain-text exports for budgeting tools (YNAB, GnuCash) that can't read the spreadsheet
+export class ExportService {
+  private client: Client;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(client: Client, exchangeRateService: ExchangeRateService = new ExchangeRateService()) {
+    this.client = client;
+    this.exchangeRateService = exchangeRateService;
+  }
+
+  public async sendExport(userId: string, request: ReportRequest): Promise<void> {
+    try {
+      if (request.format === "xlsx") throw new Error("Spreadsheets are sent by ExcelService");
+      const user = await User.findOne({ userId });
+      const currency = user?.currency || "USD";
+      const expenses = await Expense.find(ReportRequestParser.expenseFilter(userId, request)).sort({ date: 1, number: 1 });
+      if (!expenses.length) {
+        await this.client.sendMessage(userId, "❌ No expenses found for the requested period.");
+        return;
+      }
+
+      const rows = await this.toRows(expenses, currency);
+      const content =
+        request.format === "csv" ? ExportService.toCsv(rows)
+        : request.format === "json" ? ExportService.toJson(rows, request, currency)
+        : request.format === "ofx" ? ExportService.toOfx(rows, userId, currency)
+        : ExportService.toQif(rows, currency);
+
+      const media = new MessageMedia(
+        MIME_TYPES[request.format],
+        Buffer.from(content, "utf8").toString("base64"),
+        `expenses_${request.key}.${request.format}`
+      );
+      await this.client.sendMessage(userId, media);
+    } catch (error) {
+      console.error("❌ Error sending export:", error);
+      await this.client.sendMessage(userId, "Sorry, there was an error generating the export. Please try again.");
+    }
+  }
+
+  // Amounts in the user's currency; entries kept in an older currency are converted, and keep
+  // their own currency only when no rate is available
+  private async toRows(expenses: any[], currency: string): Promise<ExportRow[]> {
+    const rates = new Map<string, number | null>();
+    const rows: ExportRow[] = [];
+    for (const exp of expenses) {
+      const from = exp.currency || currency;
+      if (from !== currency && !rates.has(from)) {
+        const converted = await this.exchangeRateService.convert(1, from, currency);
+        rates.set(from, converted ? converted.rate : null);
+      }
+      const rate = from === currency ? 1 : rates.get(from);
+      const row: ExportRow = {
+        id: String(exp._id),
+        number: typeof exp.number === "number" ? `#${String(exp.number).padStart(3, "0")}` : "",
+        date: exp.date,
+        item: exp.item || "",
+        category: exp.category || "",
+        amount: Math.round((exp.price || 0) * (rate ?? 1) * 100) / 100,
+        currency: rate ? currency : from,
+      };
+      if (exp.originalCurrency) {
+        row.originalPrice = exp.originalPrice;
+        row.originalCurrency = exp.originalCurrency;
+        row.exchangeRate = exp.exchangeRate;
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  private static memo(row: ExportRow): string {
+    return row.originalCurrency ? `${row.originalPrice} ${row.originalCurrency} × ${row.exchangeRate}` : "";
+  }
+
+  // YNAB-style columns (Date, Payee, Memo, Outflow, Inflow) plus number, category and currency.
+  // The BOM keeps non-Latin item names readable when the file is opened in Excel.
+  private static toCsv(rows: ExportRow[]): string {
+    const quote = (value: string | number) => {
+      const s = String(value);
+      return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+    const lines = [["Date", "Number", "Payee", "Category", "Memo", "Outflow", "Inflow", "Currency"].join(",")];
+    for (const row of rows) {
+      lines.push(
+        [row.date, row.number, row.item, row.category, this.memo(row), row.amount.toFixed(2), "", row.currency]
+          .map(quote)
+          .join(",")
+      );
+    }
+    return "\uFEFF" + lines.join("\r\n") + "\r\n";
+  }
+
+  private static toJson(rows: ExportRow[], request: ReportRequest, currency: string): string {
+    return JSON.stringify(
+      {
+        period: { key: request.key, label: request.label },
+        currency,
+        count: rows.length,
+        total: Math.round(rows.reduce((sum, r) => sum + (r.currency === currency ? r.amount : 0), 0) * 100) / 100,
+        expenses: rows,
+      },
+      null,
+      2
+    );
+  }
+
+  // OFX 2.1.1 (XML) bank statement with one debit per expense; the expense ID is the FITID so
+  // re-importing the same period doesn't create duplicates. The XML flavour is used because it
+  // declares UTF-8, which OFX 1.x SGML doesn't allow, so non-Latin payees survive.
+  private static toOfx(rows: ExportRow[], userId: string, currency: string): string {
+    // XML 1.0 text: markup characters escaped, control characters other than tab and newlines dropped
+    const escape = (s: string) =>
+      s.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    const tag = (name: string, value: string | number) => `<${name}>${value}</${name}>`;
+    const ofxDate = (date: string) => date.replace(/-/g, "");
+    const now = new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14);
+    const total = rows.reduce((sum, r) => sum + r.amount, 0);
+    const status = `<STATUS>${tag("CODE", 0)}${tag("SEVERITY", "INFO")}</STATUS>`;
+
+    const transactions = rows.map((row) => {
+      const memo = [row.category, this.memo(row), row.currency !== currency ? row.currency : ""].filter(Boolean).join(" · ");
+      return [
+        "<STMTTRN>",
+        tag("TRNTYPE", "DEBIT"),
+        tag("DTPOSTED", ofxDate(row.date)),
+        tag("TRNAMT", (-row.amount).toFixed(2)),
+        tag("FITID", row.id),
+        ...(row.number ? [tag("CHECKNUM", row.number.slice(1))] : []),
+        // NAME is limited to 32 characters; cut whole characters so emoji and Bengali aren't split
+        tag("NAME", escape(Array.from(row.item).slice(0, 32).join(""))),
+        ...(memo ? [tag("MEMO", escape(memo))] : []),
+        "</STMTTRN>",
+      ].join("\n");
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+      '<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+      "<OFX>",
+      "<SIGNONMSGSRSV1><SONRS>",
+      status,
+      tag("DTSERVER", now),
+      tag("LANGUAGE", "ENG"),
+      "</SONRS></SIGNONMSGSRSV1>",
+      "<BANKMSGSRSV1><STMTTRNRS>",
+      tag("TRNUID", 1),
+      status,
+      "<STMTRS>",
+      tag("CURDEF", currency),
+      "<BANKACCTFROM>",
+      tag("BANKID", "EXPENSES"),
+      tag("ACCTID", userId.replace(/\D/g, "") || "EXPENSES"),
+      tag("ACCTTYPE", "CHECKING"),
+      "</BANKACCTFROM>",
+      "<BANKTRANLIST>",
+      tag("DTSTART", ofxDate(rows[0]!.date)),
+      tag("DTEND", ofxDate(rows[rows.length - 1]!.date)),
+      ...transactions,
+      "</BANKTRANLIST>",
+      `<LEDGERBAL>${tag("BALAMT", (-total).toFixed(2))}${tag("DTASOF", now)}</LEDGERBAL>`,
+      "</STMTRS>",
+      "</STMTTRNRS></BANKMSGSRSV1>",
+      "</OFX>",
+      "",
+    ].join("\n");
+  }
+
+  // QIF cash account; dates are MM/DD/YYYY, the format both YNAB and GnuCash assume by default
+  private static toQif(rows: ExportRow[], currency: string): string {
+    const lines = ["!Type:Cash"];
+    for (const row of rows) {
+      const [y, m, d] = row.date.split("-");
+      lines.push(`D${m}/${d}/${y}`, `T${(-row.amount).toFixed(2)}`);
+      if (row.number) lines.push(`N${row.number.slice(1)}`);
+      lines.push(`P${row.item}`);
+      if (row.category) lines.push(`L${row.category}`);
+      const memo = [this.memo(row), row.currency !== currency ? row.currency : ""].filter(Boolean).join(" · ");
+      if (memo) lines.push(`M${memo}`);
+      lines.push("^");
+    }
+    return lines.join("\n") + "\n";
+  }
+}
@@ -0,0 +1,51 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+const DEFAULT_TTL_DAYS = 30;
+
+// Without IMAGE_LINK_SECRET links are signed with a per-process key and stop working on restart
+let fallbackSecret: string | null = null;
+
+// Expiring, signed receipt links: /v/<expenseId>.<expiry>.<signature>. The expense ID alone can't be
+// used to open an image, and a leaked link stops working after IMAGE_LINK_TTL_DAYS.
+export class ImageLinkService {
+  private static secret(): string {
+    const configured = (process.env.IMAGE_LINK_SECRET || "").trim();
+    if (configured) return configured;
+    if (!fallbackSecret) {
+      console.warn("IMAGE_LINK_SECRET is not set. Image links will stop working when the server restarts.");
+      fallbackSecret = randomBytes(32).toString("hex");
+    }
+    return fallbackSecret;
+  }
+
+  private static ttlMs(): number {
+    const days = parseFloat(process.env.IMAGE_LINK_TTL_DAYS || "");
+    return (days > 0 ? days : DEFAULT_TTL_DAYS) * 24 * 60 * 60 * 1000;
+  }
+
+  private static signature(payload: string): string {
+    return createHmac("sha256", this.secret()).update(payload).digest("base64url");
+  }
+
+  public static createToken(expenseId: string, now: number = Date.now()): string {
+    const payload = `${expenseId}.${Math.floor((now + this.ttlMs()) / 1000).toString(36)}`;
+    return `${payload}.${this.signature(payload)}`;
+  }
+
+  // Expense ID from a token; "expired" for a genuine link past its expiry, null for anything forged or malformed
+  public static verifyToken(token: string, now: number = Date.now()): { expenseId: string } | "expired" | null {
+    const [expenseId, expiry, signature, ...rest] = (token || "").split(".");
+    if (!expenseId || !expiry || !signature || rest.length) return null;
+    const expected = Buffer.from(this.signature(`${expenseId}.${expiry}`));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+    if (parseInt(expiry, 36) * 1000 < now) return "expired";
+    return { expenseId };
+  }
+
+  // Full viewer URL, or null when PUBLIC_BASE_URL isn't configured
+  public static url(expenseId: string): string | null {
+    const baseUrl = (process.env.PUBLIC_BASE_URL || "").trim().replace(/\/$/, "");
+    return baseUrl ? `${baseUrl}/v/${this.createToken(expenseId)}` : null;
+  }
+}
@@ -0,0 +1,51 @@
+import type { ImageRetention } from "../types/types";
+import { DateService } from "./DateService";
+
+// Photos older than a year are deleted unless IMAGE_RETENTION says otherwise
+const DEFAULT_RETENTION: ImageRetention = { mode: "delete", months: 12 };
+
+export class ImageRetentionService {
+  // "forever", "6 months", "delete after 1 year", "compress after 3 months"; null if not understood
+  public static parse(input: string): ImageRetention | null {
+    const text = (input || "").trim().toLowerCase().replace(/\s+/g, " ");
+    if (/^(?:keep(?: forever)?|forever|never(?: delete)?)$/.test(text)) return { mode: "forever" };
+
+    const match = text.match(/^(?:(delete|remove|compress|downscale|shrink) )?(?:after )?(\d+) ?(months?|mo|years?|yrs?|y)$/);
+    if (!match) return null;
+    const count = parseInt(match[2]!, 10);
+    const months = /^y/.test(match[3]!) ? count * 12 : count;
+    if (months < 1) return null;
+    const mode = match[1] && !/^(?:delete|remove)$/.test(match[1]) ? "compress" : "delete";
+    return { mode, months };
+  }
+
+  // Deployment default from IMAGE_RETENTION
+  public static fromEnv(): ImageRetention {
+    const configured = (process.env.IMAGE_RETENTION || "").trim();
+    if (!configured) return DEFAULT_RETENTION;
+    const policy = this.parse(configured);
+    if (!policy) {
+      console.warn(`IMAGE_RETENTION "${configured}" not understood. Using: ${this.describe(DEFAULT_RETENTION)}`);
+      return DEFAULT_RETENTION;
+    }
+    return policy;
+  }
+
+  // A user's own setting wins over the deployment default
+  public static resolve(userSetting?: ImageRetention | null): ImageRetention {
+    return userSetting || this.fromEnv();
+  }
+
+  public static describe(policy: ImageRetention): string {
+    if (policy.mode === "forever") return "keep forever";
+    const period = policy.months % 12 === 0
+      ? `${policy.months / 12} year${policy.months === 12 ? "" : "s"}`
+      : `${policy.months} month${policy.months === 1 ? "" : "s"}`;
+    return `${policy.mode} after ${period}`;
+  }
+
+  // Expenses dated before this (YYYY-MM-DD) are due for the policy's action; null when images are kept
+  public static cutoff(policy: ImageRetention, today: string): string | null {
+    return policy.mode === "forever" ? null : DateService.addMonths(today, -policy.months);
+  }
+}
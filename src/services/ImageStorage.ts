@@ -0,0 +1,325 @@
+import { createHash, createHmac } from "crypto";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import { dirname, extname, resolve, sep } from "path";
+import type { ImageProvider, ImageStorage, StoredImage } from "../types/types";
+import { CloudinaryService } from "./CloudinaryService";
+import { DriveService } from "./DriveService";
+
+type UploadOptions = Parameters<ImageStorage["upload"]>[0];
+
+const DEFAULT_LOCAL_DIR = "./data/receipts";
+const PRESIGNED_URL_SECONDS = 15 * 60;
+// Longest side of a compressed receipt photo; small print stays legible
+const COMPRESSED_MAX_DIMENSION = 1600;
+
+const MIME_TYPES: { [ext: string]: string } = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".heic": "image/heic",
+};
+
+// userId/2025/2025-03/<file>, the folder layout every backend uses
+const objectPath = (options: UploadOptions): string => {
+  const date = options.date || new Date();
+  const yyyy = String(date.getFullYear());
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const safe = (part: string) => part.replace(/[^\w.+-]+/g, "_").replace(/^\.+/, "");
+  return `${safe(options.userId)}/${yyyy}/${yyyy}-${mm}/${safe(options.filename)}`;
+};
+
+// Fetch an image from a public URL (Cloudinary, Drive)
+async function fetchImage(url: string): Promise<{ data: Buffer; mimetype: string }> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Image download failed: HTTP ${res.status}`);
+  return {
+    data: Buffer.from(await res.arrayBuffer()),
+    mimetype: (res.headers.get("content-type") || "image/jpeg").split(";")[0]!.trim(),
+  };
+}
+
+export class CloudinaryImageStorage implements ImageStorage {
+  public readonly provider = "cloudinary";
+  private cloudinary: CloudinaryService;
+
+  constructor(cloudinary: CloudinaryService = new CloudinaryService()) {
+    this.cloudinary = cloudinary;
+  }
+
+  public async upload(options: UploadOptions): Promise<StoredImage> {
+    const uploaded = await this.cloudinary.uploadImage(options);
+    return {
+      provider: this.provider,
+      ref: uploaded.publicId,
+      url: uploaded.secureUrl,
+      ...(uploaded.phash ? { phash: uploaded.phash } : {}),
+    };
+  }
+
+  public async delete(ref: string): Promise<void> {
+    await this.cloudinary.deleteImage(ref);
+  }
+
+  public async getUrl(ref: string): Promise<string | null> {
+    return this.cloudinary.getUrl(ref);
+  }
+
+  public async download(ref: string): Promise<{ data: Buffer; mimetype: string }> {
+    return fetchImage(this.cloudinary.getUrl(ref));
+  }
+
+  public async compress(ref: string): Promise<StoredImage> {
+    const compressed = await this.cloudinary.compressImage(ref, COMPRESSED_MAX_DIMENSION);
+    return { provider: this.provider, ref: compressed.publicId, url: compressed.secureUrl };
+  }
+}
+
+// Files are shared "anyone with the link" by DriveService, so the direct link works in a browser
+export class DriveImageStorage implements ImageStorage {
+  public readonly provider = "drive";
+  private drive: DriveService;
+
+  constructor(drive: DriveService = new DriveService()) {
+    this.drive = drive;
+  }
+
+  public async upload(options: UploadOptions): Promise<StoredImage> {
+    const uploaded = await this.drive.uploadImage(options);
+    return { provider: this.provider, ref: uploaded.fileId, url: uploaded.directLink };
+  }
+
+  public async delete(ref: string): Promise<void> {
+    await this.drive.deleteFile(ref);
+  }
+
+  public async getUrl(ref: string): Promise<string | null> {
+    return `https://drive.google.com/uc?id=${encodeURIComponent(ref)}&export=view`;
+  }
+
+  public async download(ref: string): Promise<{ data: Buffer; mimetype: string }> {
+    return fetchImage((await this.getUrl(ref))!);
+  }
+
+  // The file keeps its ID and link; only the content is replaced
+  public async compress(ref: string): Promise<StoredImage> {
+    await this.drive.compressImage(ref, COMPRESSED_MAX_DIMENSION);
+    return { provider: this.provider, ref, url: (await this.getUrl(ref))! };
+  }
+}
+
+// Files under a local directory; they have no public URL and are served by the /v/ viewer route.
+// No image library is bundled, so local and S3 images can be kept or deleted but not compressed.
+export class LocalImageStorage implements ImageStorage {
+  public readonly provider = "local";
+  private root: string;
+
+  constructor(root: string = DEFAULT_LOCAL_DIR) {
+    this.root = resolve(root);
+  }
+
+  // Absolute path for a ref, refusing anything that would escape the storage directory
+  private pathFor(ref: string): string {
+    const path = resolve(this.root, ref);
+    if (!path.startsWith(this.root + sep)) throw new Error(`Invalid image path: ${ref}`);
+    return path;
+  }
+
+  public async upload(options: UploadOptions): Promise<StoredImage> {
+    const ref = objectPath(options);
+    const path = this.pathFor(ref);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, options.buffer, { flag: "wx" });
+    return { provider: this.provider, ref, url: `local:${ref}` };
+  }
+
+  public async delete(ref: string): Promise<void> {
+    try {
+      await unlink(this.pathFor(ref));
+    } catch (e) {
+      if ((e as any)?.code !== "ENOENT") throw e;
+    }
+  }
+
+  public async getUrl(_ref: string): Promise<string | null> {
+    return null;
+  }
+
+  public async download(ref: string): Promise<{ data: Buffer; mimetype: string }> {
+    const data = await readFile(this.pathFor(ref));
+    return { data, mimetype: MIME_TYPES[extname(ref).toLowerCase()] || "application/octet-stream" };
+  }
+}
+
+export interface S3Config {
+  endpoint: string; // e.g. http://minio:9000 or https://s3.eu-central-1.amazonaws.com
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl?: string; // base URL when the bucket is publicly readable; presigned links otherwise
+}
+
+// S3 API with path-style URLs (MinIO, Ceph, Garage, R2, AWS), signed with AWS Signature V4
+export class S3ImageStorage implements ImageStorage {
+  public readonly provider = "s3";
+  private config: S3Config;
+
+  constructor(config: S3Config) {
+    this.config = { ...config, endpoint: config.endpoint.replace(/\/+$/, "") };
+  }
+
+  private static encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  // 20250301T120000Z
+  private static amzDate(now: Date): string {
+    return now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  }
+
+  private static sha256(data: string | Buffer): string {
+    return createHash("sha256").update(data).digest("hex");
+  }
+
+  private objectUri(key: string): string {
+    return `/${S3ImageStorage.encode(this.config.bucket)}/${key.split("/").map(S3ImageStorage.encode).join("/")}`;
+  }
+
+  // Credential scope and signature for one request; `headers` must include host (and x-amz-date
+  // unless the date travels in the query string)
+  private sign(method: string, uri: string, query: Record<string, string>, headers: Record<string, string>, payloadHash: string, now: Date) {
+    const amzDate = S3ImageStorage.amzDate(now);
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((k) => `${S3ImageStorage.encode(k)}=${S3ImageStorage.encode(query[k]!)}`)
+      .join("&");
+    const headerNames = Object.keys(headers).map((h) => h.toLowerCase()).sort();
+    const canonicalHeaders = headerNames.map((h) => `${h}:${headers[h]!.trim()}\n`).join("");
+    const signedHeaders = headerNames.join(";");
+    const canonicalRequest = [method, uri, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join("\n");
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, S3ImageStorage.sha256(canonicalRequest)].join("\n");
+
+    const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+    let key = hmac(`AWS4${this.config.secretAccessKey}`, dateStamp);
+    key = hmac(key, this.config.region);
+    key = hmac(key, "s3");
+    key = hmac(key, "aws4_request");
+    const signature = createHmac("sha256", key).update(stringToSign).digest("hex");
+    return { scope, signedHeaders, signature, canonicalQuery };
+  }
+
+  private async request(method: "PUT" | "GET" | "DELETE", key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const uri = this.objectUri(key);
+    const host = new URL(this.config.endpoint).host;
+    const payloadHash = S3ImageStorage.sha256(body || "");
+    const now = new Date();
+    const amzDate = S3ImageStorage.amzDate(now);
+    const headers: Record<string, string> = { host, "x-amz-content-sha256": payloadHash, "x-amz-date": amzDate };
+    const { scope, signedHeaders, signature } = this.sign(method, uri, {}, headers, payloadHash, now);
+
+    return fetch(`${this.config.endpoint}${uri}`, {
+      method,
+      headers: {
+        "x-amz-content-sha256": payloadHash,
+        "x-amz-date": amzDate,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        ...(contentType ? { "Content-Type": contentType } : {}),
+      },
+      ...(body ? { body: new Uint8Array(body) } : {}),
+    });
+  }
+
+  public async upload(options: UploadOptions): Promise<StoredImage> {
+    const ref = objectPath(options);
+    const res = await this.request("PUT", ref, options.buffer, options.mimetype);
+    if (!res.ok) throw new Error(`S3 upload failed: ${res.status} ${await res.text()}`);
+    const url = this.config.publicUrl
+      ? `${this.config.publicUrl.replace(/\/+$/, "")}/${ref}`
+      : `s3://${this.config.bucket}/${ref}`;
+    return { provider: this.provider, ref, url };
+  }
+
+  public async delete(ref: string): Promise<void> {
+    const res = await this.request("DELETE", ref);
+    if (!res.ok && res.status !== 404) throw new Error(`S3 delete failed: ${res.status} ${await res.text()}`);
+  }
+
+  // Public URL when configured, otherwise a presigned GET link valid for 15 minutes
+  public async getUrl(ref: string): Promise<string | null> {
+    if (this.config.publicUrl) return `${this.config.publicUrl.replace(/\/+$/, "")}/${ref}`;
+    const uri = this.objectUri(ref);
+    const host = new URL(this.config.endpoint).host;
+    const now = new Date();
+    const amzDate = S3ImageStorage.amzDate(now);
+    const scopePrefix = `${this.config.accessKeyId}/${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+    const query: Record<string, string> = {
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": scopePrefix,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(PRESIGNED_URL_SECONDS),
+      "X-Amz-SignedHeaders": "host",
+    };
+    const { signature, canonicalQuery } = this.sign("GET", uri, query, { host }, "UNSIGNED-PAYLOAD", now);
+    return `${this.config.endpoint}${uri}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  public async download(ref: string): Promise<{ data: Buffer; mimetype: string }> {
+    const res = await this.request("GET", ref);
+    if (!res.ok) throw new Error(`S3 download failed: ${res.status}`);
+    return {
+      data: Buffer.from(await res.arrayBuffer()),
+      mimetype: (res.headers.get("content-type") || MIME_TYPES[extname(ref).toLowerCase()] || "image/jpeg").split(";")[0]!.trim(),
+    };
+  }
+}
+
+function s3ConfigFromEnv(): S3Config {
+  const endpoint = process.env.S3_ENDPOINT || "";
+  const bucket = process.env.S3_BUCKET || "";
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID || "";
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || "";
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("S3 storage not configured. Set S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY");
+  }
+  const config: S3Config = { endpoint, bucket, region: process.env.S3_REGION || "us-east-1", accessKeyId, secretAccessKey };
+  if (process.env.S3_PUBLIC_URL) config.publicUrl = process.env.S3_PUBLIC_URL;
+  return config;
+}
+
+const backends = new Map<ImageProvider, ImageStorage | null>();
+
+// Backend for images stored under `provider`, including ones saved before the configured backend
+// changed; null when that backend isn't configured here
+export function imageStorageFor(provider: string | null | undefined): ImageStorage | null {
+  if (provider !== "cloudinary" && provider !== "drive" && provider !== "local" && provider !== "s3") return null;
+  if (!backends.has(provider)) {
+    let storage: ImageStorage | null = null;
+    try {
+      storage =
+        provider === "cloudinary" ? new CloudinaryImageStorage()
+        : provider === "drive" ? new DriveImageStorage()
+        : provider === "local" ? new LocalImageStorage(process.env.IMAGE_STORAGE_DIR || DEFAULT_LOCAL_DIR)
+        : new S3ImageStorage(s3ConfigFromEnv());
+    } catch (e) {
+      console.warn(`Image storage "${provider}" not configured:`, (e as any)?.message || e);
+    }
+    backends.set(provider, storage);
+  }
+  return backends.get(provider)!;
+}
+
+// Pick where new receipt photos go from IMAGE_STORAGE ("cloudinary", "drive", "local" or "s3").
+// Unset means Cloudinary when configured, then Drive; null stores no images.
+export function createImageStorage(): ImageStorage | null {
+  const configured = (process.env.IMAGE_STORAGE || "").trim().toLowerCase();
+  if (configured) {
+    const storage = imageStorageFor(configured);
+    if (!storage) console.warn(`IMAGE_STORAGE "${configured}" is not available. Receipt images will not be stored.`);
+    return storage;
+  }
+  return imageStorageFor("cloudinary") || imageStorageFor("drive");
+}
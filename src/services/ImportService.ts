@@ -0,0 +1,414 @@
+import type { Client, Message } from "../types/wa";
+import type { ExpenseData, PendingImport } from "../types/types";
+import { MongoService } from "./MongoService";
+import { CategoryService } from "./CategoryService";
+import { CurrencyService } from "./CurrencyService";
+import { DateService } from "./DateService";
+import { ExchangeRateService } from "./ExchangeRateService";
+
+type ImportColumn = "date" | "item" | "amount" | "currency" | "category";
+
+// Header names per column, in order of preference; matched after normalizing the header text.
+// Covers this bot's own exports (Price, Payee/Outflow) and common bank/budgeting-app layouts.
+const COLUMN_ALIASES: { [column in ImportColumn]: string[] } = {
+  date: ["date", "transaction date", "posted date", "posting date", "booking date", "value date", "day"],
+  item: ["item", "payee", "description", "name", "merchant", "details", "narration", "title", "memo", "note"],
+  amount: ["price", "amount", "outflow", "debit", "withdrawal", "spent", "cost", "value", "total"],
+  currency: ["currency", "ccy", "cur"],
+  category: ["category"],
+};
+const REQUIRED_COLUMNS: ImportColumn[] = ["date", "item", "amount"];
+const HEADER_SEARCH_ROWS = 10;
+const MAX_IMPORT_ROWS = 2000;
+const PREVIEW_ROWS = 10;
+// 03/04/2025 or 03.04.25, the same shapes DateService reads day-first
+const NUMERIC_DATE = /^(\d{1,2})[\/.](\d{1,2})[\/.](\d{2}|\d{4})$/;
+// Field separators seen in CSV exports: comma, semicolon (European locales) and tab
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+export class ImportService {
+  private client: Client;
+  private mongoService: MongoService;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(client: Client, mongoService: MongoService, exchangeRateService: ExchangeRateService = new ExchangeRateService()) {
+    this.client = client;
+    this.mongoService = mongoService;
+    this.exchangeRateService = exchangeRateService;
+  }
+
+  // Only CSV is imported: the xlsx parser has open security advisories, so Excel workbooks are
+  // declined and users are asked to save them as CSV
+  public static isSupportedFile(fileName: string, mimetype: string = ""): boolean {
+    return /\.csv$/i.test(fileName) || /csv/i.test(mimetype);
+  }
+
+  public static isExcelFile(fileName: string, mimetype: string = ""): boolean {
+    return /\.(?:xlsx|xlsm|xls)$/i.test(fileName) || /spreadsheetml|ms-excel/i.test(mimetype);
+  }
+
+  // Cell rows of a CSV file, decoded as UTF-8 so non-Latin item names survive
+  public static readRows(data: Buffer): string[][] {
+    return ImportService.parseCsv(data.toString("utf8").replace(/^\uFEFF/, ""));
+  }
+
+  // RFC 4180 CSV: quoted fields may hold separators, line breaks and doubled quotes. The separator is
+  // whichever of comma, semicolon or tab appears most in the first line (or the one named by Excel's
+  // "sep=;" line). Blank lines are dropped.
+  public static parseCsv(text: string): string[][] {
+    const sepLine = text.match(/^sep=(.)\r?\n/i);
+    if (sepLine) text = text.slice(sepLine[0].length);
+    const firstLine = text.split(/\r?\n/, 1)[0]!.replace(/"[^"]*"/g, "");
+    const delimiter =
+      sepLine?.[1] ?? CSV_DELIMITERS.reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best));
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    const endRow = () => {
+      row.push(field);
+      if (row.some((cell) => cell.trim())) rows.push(row);
+      row = [];
+      field = "";
+    };
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i]!;
+      if (quoted) {
+        if (ch === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (ch === '"') {
+          quoted = false;
+        } else {
+          field += ch;
+        }
+      } else if (ch === '"') {
+        quoted = true;
+      } else if (ch === delimiter) {
+        row.push(field);
+        field = "";
+      } else if (ch === "\n" || ch === "\r") {
+        if (ch === "\r" && text[i + 1] === "\n") i++;
+        endRow();
+      } else {
+        field += ch;
+      }
+    }
+    if (field || row.length) endRow();
+    return rows;
+  }
+
+  // Find the header row among the first rows and map each known column to its index
+  public static mapColumns(rows: any[][]): { headerRow: number; columns: Partial<Record<ImportColumn, number>> } | null {
+    for (let r = 0; r < Math.min(rows.length, HEADER_SEARCH_ROWS); r++) {
+      const headers = (rows[r] || []).map((cell) => CategoryService.normalizeKeyword(String(cell)));
+      const columns: Partial<Record<ImportColumn, number>> = {};
+      for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [ImportColumn, string[]][]) {
+        for (const alias of aliases) {
+          const index = headers.indexOf(alias);
+          if (index >= 0 && !Object.values(columns).includes(index)) {
+            columns[column] = index;
+            break;
+          }
+        }
+      }
+      if (REQUIRED_COLUMNS.every((c) => columns[c] !== undefined)) return { headerRow: r, columns };
+    }
+    return null;
+  }
+
+  // ISO dates, 12/03/2025 (day first, or month first for US files) and "12 Mar 2025"
+  public static parseDate(value: any, today: string, monthFirst: boolean = false): string | null {
+    const text = String(value ?? "").trim();
+    const numeric = monthFirst ? text.match(NUMERIC_DATE) : null;
+    const dayFirst = numeric ? `${numeric[2]}/${numeric[1]}/${numeric[3]}` : text;
+    return text ? DateService.parseDateExpression(dayFirst, today)?.date || null : null;
+  }
+
+  // Whether the file writes numeric dates month first (US 03/14/2025). One date with a day above 12
+  // decides it for the whole file; null when every such date reads both ways.
+  public static detectMonthFirst(values: any[]): boolean | null {
+    let ambiguous = false;
+    for (const value of values) {
+      const numeric = String(value ?? "").trim().match(NUMERIC_DATE);
+      if (!numeric) continue;
+      if (parseInt(numeric[1]!, 10) > 12) return false;
+      if (parseInt(numeric[2]!, 10) > 12) return true;
+      ambiguous = true;
+    }
+    return ambiguous ? null : false;
+  }
+
+  // 1,250.50 / "৳ 200" / -45.00 / (45.00) / 45.00 CR. The sign is kept: a minus, parentheses or a
+  // CR suffix make the amount negative.
+  public static parseAmount(value: any): number | null {
+    if (typeof value === "number") return value ? Math.round(value * 100) / 100 : null;
+    const text = String(value ?? "").replace(/,/g, "").trim();
+    const match = text.match(/\d+(?:\.\d+)?/);
+    const amount = match ? parseFloat(match[0]) : NaN;
+    if (!(amount > 0)) return null;
+    const negative = /^\(.*\)$/.test(text) || /-\s*\D{0,3}\d/.test(text) || /\bcr\.?$/i.test(text);
+    return (negative ? -1 : 1) * Math.round(amount * 100) / 100;
+  }
+
+  // Same day, same item and same amount (as stored or as entered) counts as the same expense
+  private static duplicateKey(date: string, item: string, amount: number): string {
+    return `${date}|${CategoryService.normalizeKeyword(item)}|${amount.toFixed(2)}`;
+  }
+
+  // Turn sheet rows into expenses in the user's currency. Rows without a readable date or amount,
+  // or in an unknown currency or one without an exchange rate, are counted as skipped; credits and
+  // refunds are counted separately. Numeric dates are read in the order the file uses, or
+  // `monthFirst` when the file doesn't settle it (`ambiguousDates`).
+  private async parseRows(
+    userId: string,
+    rows: any[][],
+    monthFirst?: boolean
+  ): Promise<{ expenses: ExpenseData[]; skipped: number; credits: number; ambiguousDates: boolean } | null> {
+    const mapping = ImportService.mapColumns(rows);
+    if (!mapping) return null;
+    const { headerRow, columns } = mapping;
+
+    const [homeCurrency, timeZone, categories, learned] = await Promise.all([
+      this.mongoService.getUserCurrency(userId),
+      this.mongoService.getUserTimezone(userId),
+      this.mongoService.getUserCategories(userId),
+      this.mongoService.getCategoryMappings(userId),
+    ]);
+    const today = DateService.today(timeZone);
+    const cell = (row: any[], column: ImportColumn) => (columns[column] !== undefined ? row[columns[column]!] : "");
+    const rates = new Map<string, number | null>();
+
+    const dataRows = rows.slice(headerRow + 1).filter((row) => !row.every((value) => String(value ?? "").trim() === ""));
+    const detected = ImportService.detectMonthFirst(dataRows.map((row) => cell(row, "date")));
+    const readMonthFirst = detected ?? monthFirst ?? false;
+    // Banks disagree on whether spending is positive or negative; the sign most rows share is taken
+    // as spending and the other one as credits and refunds
+    const amounts = dataRows.map((row) => ImportService.parseAmount(cell(row, "amount")));
+    const negatives = amounts.filter((a) => a !== null && a < 0).length;
+    const spendingSign = negatives > amounts.filter((a) => a !== null && a > 0).length ? -1 : 1;
+
+    const expenses: ExpenseData[] = [];
+    let skipped = 0;
+    let credits = 0;
+    for (const [index, row] of dataRows.entries()) {
+      const item = String(cell(row, "item") ?? "").trim();
+      const date = ImportService.parseDate(cell(row, "date"), today, readMonthFirst);
+      const signed = amounts[index] ?? null;
+      // The "Total" line at the bottom of exported sheets has no date
+      if (!date && /^total\b/i.test(item)) continue;
+      if (!date || signed === null) {
+        skipped++;
+        continue;
+      }
+      if (Math.sign(signed) !== spendingSign) {
+        credits++;
+        continue;
+      }
+      const amount = Math.abs(signed);
+
+      const currencyText = String(cell(row, "currency") ?? "").trim();
+      const currency = currencyText
+        ? CurrencyService.detectCurrency(currencyText)
+        : CurrencyService.detectCurrency(String(cell(row, "amount") ?? "")) || homeCurrency;
+      if (!currency) {
+        skipped++;
+        continue;
+      }
+      const name = item || String(cell(row, "category") ?? "").trim() || "Item";
+      const expense: ExpenseData = {
+        item: name,
+        price: amount,
+        currency: homeCurrency,
+        date,
+        category:
+          CategoryService.matchCategory(String(cell(row, "category") ?? ""), categories) ||
+          CategoryService.classify(name, categories, learned),
+      };
+      if (currency !== homeCurrency) {
+        if (!rates.has(currency)) {
+          const converted = await this.exchangeRateService.convert(1, currency, homeCurrency);
+          rates.set(currency, converted ? converted.rate : null);
+        }
+        const rate = rates.get(currency);
+        if (!rate) {
+          skipped++;
+          continue;
+        }
+        expense.originalPrice = amount;
+        expense.originalCurrency = currency;
+        expense.exchangeRate = rate;
+        expense.price = Math.round(amount * rate * 100) / 100;
+      }
+      expenses.push(expense);
+    }
+    return { expenses, skipped, credits, ambiguousDates: detected === null };
+  }
+
+  // Drop rows already recorded. Existing expenses are matched one-to-one, so two identical coffees
+  // in the file are only skipped if two such coffees already exist.
+  private async removeDuplicates(userId: string, expenses: ExpenseData[]): Promise<{ fresh: ExpenseData[]; duplicates: number }> {
+    if (!expenses.length) return { fresh: [], duplicates: 0 };
+    const dates = expenses.map((e) => e.date).sort();
+    const existing = await this.mongoService.getExpensesBetween(userId, dates[0]!, dates[dates.length - 1]!);
+
+    const counts = new Map<string, number>();
+    const add = (key: string) => counts.set(key, (counts.get(key) || 0) + 1);
+    for (const doc of existing as any[]) {
+      add(ImportService.duplicateKey(doc.date, doc.item, doc.price));
+      if (doc.originalCurrency && doc.originalPrice != null) {
+        add(ImportService.duplicateKey(doc.date, doc.item, doc.originalPrice));
+      }
+    }
+
+    const fresh: ExpenseData[] = [];
+    let duplicates = 0;
+    for (const expense of expenses) {
+      const keys = [ImportService.duplicateKey(expense.date, expense.item, expense.price)];
+      if (expense.originalPrice != null) keys.push(ImportService.duplicateKey(expense.date, expense.item, expense.originalPrice));
+      const match = keys.find((key) => (counts.get(key) || 0) > 0);
+      if (match) {
+        counts.set(match, counts.get(match)! - 1);
+        duplicates++;
+      } else {
+        fresh.push(expense);
+      }
+    }
+    return { fresh, duplicates };
+  }
+
+  private money(amount: number): string {
+    const [whole, cents] = (Math.round(amount * 100) / 100).toFixed(2).split(".");
+    const grouped = whole!.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+    return cents === "00" ? grouped : `${grouped}.${cents}`;
+  }
+
+  private formatPreview(pending: PendingImport, currency: string): string {
+    const rows = [...pending.rows].sort((a, b) => a.date.localeCompare(b.date));
+    const total = rows.reduce((sum, r) => sum + r.price, 0);
+    const span = rows[0]!.date === rows[rows.length - 1]!.date
+      ? DateService.formatShort(rows[0]!.date)
+      : `${DateService.formatShort(rows[0]!.date)} – ${DateService.formatShort(rows[rows.length - 1]!.date)}`;
+
+    let reply = `📥 *Import preview* · ${pending.fileName}\n`;
+    reply += `${rows.length} new expense${rows.length === 1 ? "" : "s"} · ${this.money(total)} ${currency}\n_${span}_\n`;
+    if (pending.duplicates) reply += `↩️ ${pending.duplicates} already recorded, will be skipped\n`;
+    if (pending.skipped) reply += `⚠️ ${pending.skipped} row${pending.skipped === 1 ? "" : "s"} couldn't be read\n`;
+    if (pending.credits) reply += `💳 ${pending.credits} credit${pending.credits === 1 ? "" : "s"} or refund${pending.credits === 1 ? "" : "s"} left out\n`;
+    reply += "\n";
+    reply += rows
+      .slice(0, PREVIEW_ROWS)
+      .map((r) => `${DateService.formatShort(r.date)} · ${r.item} · ${this.money(r.price)} ${currency}${r.category ? ` (${r.category})` : ""}`)
+      .join("\n");
+    if (rows.length > PREVIEW_ROWS) reply += `\n…and ${rows.length - PREVIEW_ROWS} more`;
+    if (pending.monthFirst) {
+      reply += "\n\n📅 Dates were read as day/month (03/04 = 3 Apr). Reply MDY if this file uses month/day.";
+    }
+    reply += "\n\nReply YES to import, or NO to cancel.";
+    return reply;
+  }
+
+  // A CSV document sent in chat: parse, de-duplicate and ask for confirmation
+  public async handleDocument(message: Message): Promise<void> {
+    const userId = message.from;
+    const fileName = message.filename || "file";
+    try {
+      const media = message.downloadMedia ? await message.downloadMedia() : null;
+      if (media && !ImportService.isSupportedFile(fileName, media.mimetype) && ImportService.isExcelFile(fileName, media.mimetype)) {
+        await this.client.sendMessage(
+          userId,
+          "❌ I can't read Excel workbooks. Please save the sheet as CSV (File → Save As → CSV) and send that instead."
+        );
+        return;
+      }
+      if (!media || !ImportService.isSupportedFile(fileName, media.mimetype)) {
+        await this.client.sendMessage(
+          userId,
+          "❌ I can import CSV files with date, item and amount columns — for example a file exported with *Export csv*."
+        );
+        return;
+      }
+
+      const rows = ImportService.readRows(Buffer.from(media.data, "base64"));
+      if (rows.length > MAX_IMPORT_ROWS + HEADER_SEARCH_ROWS) {
+        await this.client.sendMessage(userId, `❌ That file is too large. Please import at most ${MAX_IMPORT_ROWS} rows at a time.`);
+        return;
+      }
+      const parsed = await this.parseRows(userId, rows);
+      if (!parsed) {
+        await this.client.sendMessage(
+          userId,
+          "❌ Couldn't find the columns in that file. It needs a header row with Date, Item (or Description/Payee) and Amount (or Price)."
+        );
+        return;
+      }
+      if (!parsed.expenses.length) {
+        await this.client.sendMessage(userId, `❌ No expenses could be read from ${fileName} (${parsed.skipped} rows skipped).`);
+        return;
+      }
+
+      const { fresh, duplicates } = await this.removeDuplicates(userId, parsed.expenses);
+      if (!fresh.length) {
+        await this.client.sendMessage(userId, `✅ All ${duplicates} expenses in ${fileName} are already recorded. Nothing to import.`);
+        return;
+      }
+
+      const pending: PendingImport = { fileName, rows: fresh, duplicates, skipped: parsed.skipped, credits: parsed.credits };
+      // Nothing in the file tells 03/04 apart: keep the month-first reading too and let the user pick
+      if (parsed.ambiguousDates) {
+        const monthFirst = await this.parseRows(userId, rows, true);
+        if (monthFirst) {
+          const alternative = await this.removeDuplicates(userId, monthFirst.expenses);
+          pending.monthFirst = { rows: alternative.fresh, duplicates: alternative.duplicates };
+        }
+      }
+      await this.mongoService.storePendingImport(userId, pending);
+      await this.client.sendMessage(userId, this.formatPreview(pending, await this.mongoService.getUserCurrency(userId)));
+    } catch (error) {
+      console.error("❌ Error reading import file:", error);
+      await this.client.sendMessage(userId, "Sorry, I couldn't read that file. Please check it's a valid CSV or Excel file.");
+    }
+  }
+
+  // YES saves the previewed rows with consecutive numbers, NO discards them, MDY re-reads ambiguous dates month first
+  public async handleConfirmation(messageBody: string, message: Message): Promise<void> {
+    const userId = message.from;
+    const answer = (messageBody || "").trim().toLowerCase();
+    const pending = await this.mongoService.getPendingImport(userId);
+    if (!pending || !pending.rows?.length) {
+      await this.mongoService.clearPendingImport(userId);
+      await this.client.sendMessage(userId, "❌ Nothing to import. Send the CSV file again.");
+      return;
+    }
+
+    if (answer === "yes" || answer === "y") {
+      const { first, last } = await this.mongoService.insertImportedExpenses(userId, pending.rows, { text: `Import ${pending.fileName}` });
+      await this.mongoService.clearPendingImport(userId);
+      const pad = (n: number) => `#${String(n).padStart(3, "0")}`;
+      const count = pending.rows.length;
+      await this.client.sendMessage(
+        userId,
+        `✅ Imported ${count} expense${count === 1 ? "" : "s"} (${first === last ? pad(first) : `${pad(first)}–${pad(last)}`}).`
+      );
+    } else if (answer === "no" || answer === "n") {
+      await this.mongoService.clearPendingImport(userId);
+      await this.client.sendMessage(userId, "❎ Import cancelled. Nothing was saved.");
+    } else if (answer === "mdy" && pending.monthFirst) {
+      const { monthFirst, ...rest } = pending;
+      if (!monthFirst.rows.length) {
+        await this.mongoService.clearPendingImport(userId);
+        await this.client.sendMessage(userId, `✅ Read as month/day, all ${monthFirst.duplicates} expenses in ${pending.fileName} are already recorded. Nothing to import.`);
+        return;
+      }
+      const switched: PendingImport = { ...rest, rows: monthFirst.rows, duplicates: monthFirst.duplicates };
+      await this.mongoService.storePendingImport(userId, switched);
+      await this.client.sendMessage(userId, this.formatPreview(switched, await this.mongoService.getUserCurrency(userId)));
+    } else {
+      await this.client.sendMessage(
+        userId,
+        `Please reply YES to import ${pending.rows.length} expense${pending.rows.length === 1 ? "" : "s"} from ${pending.fileName}, or NO to cancel.`
+      );
+    }
+  }
+}
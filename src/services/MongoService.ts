@@ -1,15 +1,29 @@
-import { Budget, Expense, Conversation, Counter, User } from "../models/ExpenseModel";
-import type { MonthlyTotal } from "../types/types";
+import { randomUUID } from "crypto";
+import type { UpdateQuery } from "mongoose";
+import { Budget, Expense, Conversation, Counter, User, CategoryMapping, RecurringExpense, ExpenseHistory, DeletedExpense } from "../models/ExpenseModel";
+import { CategoryService } from "./CategoryService";
+import { DateService } from "./DateService";
+import { ExchangeRateService } from "./ExchangeRateService";
+import { DuplicateReceiptService, type DuplicateReason } from "./DuplicateReceiptService";
+import type { ExpenseChangeAction, ExpenseChangeSource, ExpenseData, ExpenseQuery, ExpenseQueryResult, ExpenseSnapshot, ImageRetention, MonthlyTotal, PendingBulkEdit, PendingImport, PendingReceipt, RecurringRule, UndoResult } from "../types/types";
+
+type ExpenseDocument = InstanceType<typeof Expense>;
 
 export class MongoService {
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(exchangeRateService: ExchangeRateService = new ExchangeRateService()) {
+    this.exchangeRateService = exchangeRateService;
+  }
+
   public async hasMonthlyBudget(userId: string): Promise<boolean> {
-    const currentMonth = new Date().toISOString().slice(0, 7);
-    const budget = await Budget.findOne({ userId, month: currentMonth });
+    const currentMonth = await this.currentMonthFor(userId);
+    const budget = await this.ensureMonthlyBudget(userId, currentMonth);
     return !!budget;
   }
 
   public async setMonthlyBudget(userId: string, budget: number): Promise<void> {
-    const currentMonth = new Date().toISOString().slice(0, 7);
+    const currentMonth = await this.currentMonthFor(userId);
     await Budget.create({
       userId,
       month: currentMonth,
@@ -18,58 +32,158 @@ export class MongoService {
     });
   }
 
-  public async getMonthlyBudget(userId: string): Promise<number> {
-    const currentMonth = new Date().toISOString().slice(0, 7);
-    const budgetDoc = await Budget.findOne({ userId, month: currentMonth });
-    return budgetDoc?.budget || 0;
+  // Effective budget for a month (default: current): the base budget plus any amount carried over
+  public async getMonthlyBudget(userId: string, month?: string): Promise<number> {
+    const targetMonth = month || await this.currentMonthFor(userId);
+    const budgetDoc = await this.ensureMonthlyBudget(userId, targetMonth);
+    if (!budgetDoc) return 0;
+    const amounts = await this.budgetInCurrency(budgetDoc, await this.getUserCurrency(userId));
+    return Math.round((amounts.budget + amounts.carriedOver) * 100) / 100;
+  }
+
+  public async getBudgetCarryOver(userId: string, month?: string): Promise<number> {
+    const targetMonth = month || await this.currentMonthFor(userId);
+    const budgetDoc = await this.ensureMonthlyBudget(userId, targetMonth);
+    if (!budgetDoc) return 0;
+    return (await this.budgetInCurrency(budgetDoc, await this.getUserCurrency(userId))).carriedOver;
+  }
+
+  // A budget's amounts in `currency`. Budgets of months before a currency change keep the old
+  // currency, so they are converted when read; without a known rate the amounts are used as is.
+  private async budgetInCurrency(
+    budgetDoc: { budget: number; carriedOver?: number; currency: string; categoryBudgets?: { category: string; budget: number }[] },
+    currency: string
+  ): Promise<{ budget: number; carriedOver: number; categoryBudgets: { category: string; budget: number }[] }> {
+    let rate = 1;
+    if (budgetDoc.currency && budgetDoc.currency !== currency) {
+      const converted = await this.exchangeRateService.convert(1, budgetDoc.currency, currency);
+      if (converted) rate = converted.rate;
+    }
+    const convert = (n: number | undefined) => Math.round((n || 0) * rate * 100) / 100;
+    return {
+      budget: convert(budgetDoc.budget),
+      carriedOver: convert(budgetDoc.carriedOver),
+      categoryBudgets: (budgetDoc.categoryBudgets || []).map((b) => ({ category: b.category, budget: convert(b.budget) })),
+    };
+  }
+
+  private nextMonthKey(month: string): string {
+    const [y, m] = month.split("-").map((p) => parseInt(p, 10));
+    const date = new Date(Date.UTC(y!, m!, 1)); // m is 1-based, so this is the following month
+    return date.toISOString().slice(0, 7);
+  }
+
+  // Leftover of a month's effective budget after its expenses; negative when overspent
+  private async calculateLeftover(
+    userId: string,
+    budgetDoc: { month: string; budget: number; carriedOver?: number; currency: string }
+  ): Promise<number> {
+    const total = await this.calculateMonthlyTotal(userId, `${budgetDoc.month}-01`);
+    const amounts = await this.budgetInCurrency(budgetDoc, total.currency);
+    const leftover = amounts.budget + amounts.carriedOver - total.totalAmount;
+    return Math.round(leftover * 100) / 100;
+  }
+
+  // Return the Budget doc for `month`, copying recurring budgets forward month by month when it
+  // doesn't exist yet. With rollover enabled each copied month also carries the previous leftover.
+  private async ensureMonthlyBudget(userId: string, month: string) {
+    const existing = await Budget.findOne({ userId, month });
+    if (existing) return existing;
+
+    let previous = await Budget.findOne({ userId, month: { $lt: month } }).sort({ month: -1 });
+    if (!previous || !previous.recurring) return null;
+
+    const user = await User.findOne({ userId });
+    const rollover = !!user?.rolloverEnabled;
+    const currency = user?.currency || previous.currency;
+
+    let created = previous;
+    let cursor = this.nextMonthKey(previous.month);
+    // Guard against very old budgets: only fill the gap for up to two years
+    for (let i = 0; cursor <= month && i < 24; i++, cursor = this.nextMonthKey(cursor)) {
+      const carriedOver = rollover ? await this.calculateLeftover(userId, previous) : 0;
+      // Copies are made in the user's current currency
+      const amounts = await this.budgetInCurrency(previous, currency);
+      created = await Budget.findOneAndUpdate(
+        { userId, month: cursor },
+        {
+          $setOnInsert: {
+            budget: amounts.budget,
+            currency,
+            categoryBudgets: amounts.categoryBudgets,
+            recurring: true,
+            carriedOver,
+          },
+        },
+        { upsert: true, new: true }
+      );
+      previous = created;
+    }
+    return created.month === month ? created : null;
+  }
+
+  // Turn rollover on/off and recompute the current month's carried amount accordingly
+  public async setRolloverEnabled(userId: string, enabled: boolean): Promise<number> {
+    await User.findOneAndUpdate({ userId }, { rolloverEnabled: enabled }, { upsert: true, new: true });
+    const currentMonth = await this.currentMonthFor(userId);
+    const current = await this.ensureMonthlyBudget(userId, currentMonth);
+    if (!current) return 0;
+
+    let carriedOver = 0;
+    if (enabled) {
+      const previous = await Budget.findOne({ userId, month: { $lt: currentMonth } }).sort({ month: -1 });
+      if (previous && previous.month === this.previousMonthKey(currentMonth)) {
+        carriedOver = await this.calculateLeftover(userId, previous);
+      }
+    }
+    await Budget.updateOne({ _id: current._id }, { carriedOver });
+    return carriedOver;
+  }
+
+  public async isRolloverEnabled(userId: string): Promise<boolean> {
+    const user = await User.findOne({ userId });
+    return !!user?.rolloverEnabled;
+  }
+
+  private previousMonthKey(month: string): string {
+    const [y, m] = month.split("-").map((p) => parseInt(p, 10));
+    const date = new Date(Date.UTC(y!, m! - 2, 1));
+    return date.toISOString().slice(0, 7);
   }
 
+  // Totals for the calendar month of `currentDate` (YYYY-MM-DD). Dates are stored as the user's
+  // local calendar date, so the month is taken from the string instead of a Date object.
+  // `price` is the amount in the currency the user had when it was entered; entries left in an
+  // older currency after a currency change are converted before summing.
   public async calculateMonthlyTotal(
     userId: string,
     currentDate: string
   ): Promise<MonthlyTotal> {
+    const month = currentDate.slice(0, 7);
+    const year = parseInt(month.slice(0, 4), 10);
     try {
-      const currentMonth = new Date(currentDate).getMonth();
-      const currentYear = new Date(currentDate).getFullYear();
-
+      const { from, to } = DateService.monthRange(month);
       const expenses = await Expense.find({
         userId,
-        date: {
-          $regex: `^${currentYear}-${String(currentMonth + 1).padStart(
-            2,
-            "0"
-          )}`,
-        },
+        date: { $gte: from, $lte: to },
       });
 
-      let totalAmount = 0;
-      let expenseCount = 0;
-      let currency = "USD";
-
-      for (const exp of expenses) {
-        totalAmount += exp.price;
-        expenseCount++;
-        if (expenseCount === 1) {
-          currency = exp.currency || "USD";
-        }
-      }
+      const currency = await this.getUserCurrency(userId);
+      const totalAmount = await this.sumInCurrency(expenses, currency);
+      const expenseCount = expenses.length;
 
       return {
-        month: new Date(currentDate).toLocaleString("default", {
-          month: "long",
-        }),
-        year: currentYear,
-        totalAmount: Math.round(totalAmount * 100) / 100,
+        month: DateService.monthName(month),
+        year,
+        totalAmount,
         currency,
         expenseCount,
       };
     } catch (error) {
       console.error("❌ Error calculating monthly total:", error);
       return {
-        month: new Date(currentDate).toLocaleString("default", {
-          month: "long",
-        }),
-        year: new Date(currentDate).getFullYear(),
+        month: DateService.monthName(month),
+        year,
         totalAmount: 0,
         currency: "USD",
         expenseCount: 0,
@@ -106,13 +220,55 @@ export class MongoService {
     return counter.seq;
   }
 
+  // Reserve `count` consecutive expense numbers and return the first one
+  public async reserveExpenseNumbers(userId: string, count: number): Promise<number> {
+    const key = `expense_number:${userId}`;
+    const counter = await Counter.findOneAndUpdate(
+      { key },
+      { $inc: { seq: count } },
+      { upsert: true, new: true }
+    );
+    return counter.seq - count + 1;
+  }
+
+  public async getNextRecurringNumber(userId: string): Promise<number> {
+    const key = `recurring_number:${userId}`;
+    const counter = await Counter.findOneAndUpdate(
+      { key },
+      { $inc: { seq: 1 } },
+      { upsert: true, new: true }
+    );
+    return counter.seq;
+  }
+
+  // Recurring expense methods
+  public async createRecurringExpense(
+    userId: string,
+    rule: RecurringRule & { currency: string; category: string; nextRunDate: string }
+  ) {
+    const number = await this.getNextRecurringNumber(userId);
+    return RecurringExpense.create({ userId, number, ...rule, active: true });
+  }
+
+  public async getActiveRecurringExpenses(userId: string) {
+    return RecurringExpense.find({ userId, active: true }).sort({ number: 1 });
+  }
+
+  public async stopRecurringExpense(userId: string, number: number) {
+    return RecurringExpense.findOneAndUpdate(
+      { userId, number, active: true },
+      { active: false },
+      { new: true }
+    );
+  }
+
   // User state management methods
-  public async getUserState(userId: string): Promise<'new' | 'awaiting_budget' | 'awaiting_currency' | 'active' | 'awaiting_ocr_confirmation' | 'awaiting_currency_change' | 'awaiting_image_expense' | 'awaiting_history_delete_confirm'> {
+  public async getUserState(userId: string): Promise<'new' | 'awaiting_budget' | 'awaiting_currency' | 'active' | 'awaiting_ocr_confirmation' | 'awaiting_currency_change' | 'awaiting_image_expense' | 'awaiting_history_delete_confirm' | 'awaiting_import_confirm' | 'awaiting_receipt_split' | 'awaiting_duplicate_confirm' | 'awaiting_bulk_confirm'> {
     const user = await User.findOne({ userId });
     return user?.state || 'new';
   }
 
-  public async setUserState(userId: string, state: 'new' | 'awaiting_budget' | 'awaiting_currency' | 'active' | 'awaiting_ocr_confirmation' | 'awaiting_currency_change' | 'awaiting_image_expense' | 'awaiting_history_delete_confirm'): Promise<void> {
+  public async setUserState(userId: string, state: 'new' | 'awaiting_budget' | 'awaiting_currency' | 'active' | 'awaiting_ocr_confirmation' | 'awaiting_currency_change' | 'awaiting_image_expense' | 'awaiting_history_delete_confirm' | 'awaiting_import_confirm' | 'awaiting_receipt_split' | 'awaiting_duplicate_confirm' | 'awaiting_bulk_confirm'): Promise<void> {
     await User.findOneAndUpdate(
       { userId },
       { state },
@@ -128,13 +284,51 @@ export class MongoService {
     );
   }
 
+  public async getUserTimezone(userId: string): Promise<string> {
+    const user = await User.findOne({ userId });
+    return DateService.resolveTimezone(userId, user?.timezone);
+  }
+
+  public async setUserTimezone(userId: string, timezone: string): Promise<void> {
+    await User.findOneAndUpdate({ userId }, { timezone }, { upsert: true, new: true });
+  }
+
+  // The user's own image retention setting; null when they follow the deployment default
+  public async getImageRetention(userId: string): Promise<ImageRetention | null> {
+    const user = await User.findOne({ userId });
+    return user?.imageRetention?.mode ? user.imageRetention : null;
+  }
+
+  public async setImageRetention(userId: string, policy: ImageRetention | null): Promise<void> {
+    const update = policy ? { $set: { imageRetention: policy } } : { $unset: { imageRetention: 1 } };
+    await User.findOneAndUpdate({ userId }, update, { upsert: true, new: true });
+  }
+
+  // Stored receipt photos on expenses dated before `cutoff`; with `uncompressed`, only ones not already shrunk
+  public async countImagesBefore(userId: string, cutoff: string, uncompressed: boolean = false): Promise<number> {
+    return Expense.countDocuments({
+      userId,
+      date: { $lt: cutoff },
+      imageUrl: { $exists: true, $ne: '' },
+      imageDeletedAt: { $exists: false },
+      ...(uncompressed ? { imageCompressedAt: { $exists: false } } : {}),
+    });
+  }
+
+  // Current YYYY-MM in the user's local time zone
+  private async currentMonthFor(userId: string): Promise<string> {
+    return DateService.currentMonth(await this.getUserTimezone(userId));
+  }
+
   public async getUserCurrency(userId: string): Promise<string> {
     const user = await User.findOne({ userId });
     return user?.currency || 'USD';
   }
 
   public async setMonthlyBudgetWithCurrency(userId: string, budget: number, currency: string): Promise<void> {
-    const currentMonth = new Date().toISOString().slice(0, 7);
+    const currentMonth = await this.currentMonthFor(userId);
+    // Bring forward last month's doc first so category budgets and the carried amount are kept
+    await this.ensureMonthlyBudget(userId, currentMonth);
     await Budget.findOneAndUpdate(
       { userId, month: currentMonth },
       { budget, currency },
@@ -142,6 +336,155 @@ export class MongoService {
     );
   }
 
+  // Per-category budgets live on the same monthly Budget document; an amount of 0 removes the limit
+  public async setCategoryBudget(userId: string, category: string, budget: number, currency: string): Promise<void> {
+    const currentMonth = await this.currentMonthFor(userId);
+    await this.ensureMonthlyBudget(userId, currentMonth);
+    await Budget.findOneAndUpdate(
+      { userId, month: currentMonth },
+      { $setOnInsert: { budget: 0, currency }, $pull: { categoryBudgets: { category } } },
+      { upsert: true, new: true }
+    );
+    if (budget > 0) {
+      await Budget.updateOne(
+        { userId, month: currentMonth },
+        { $push: { categoryBudgets: { category, budget } } }
+      );
+    }
+  }
+
+  public async getCategoryBudgets(userId: string, month?: string): Promise<{ category: string; budget: number }[]> {
+    const targetMonth = month || await this.currentMonthFor(userId);
+    const budgetDoc = await this.ensureMonthlyBudget(userId, targetMonth);
+    if (!budgetDoc) return [];
+    return (await this.budgetInCurrency(budgetDoc, await this.getUserCurrency(userId))).categoryBudgets;
+  }
+
+  public async calculateCategoryTotal(userId: string, category: string, currentDate: string): Promise<number> {
+    const month = currentDate.slice(0, 7);
+    const { from, to } = DateService.monthRange(month);
+    const expenses = await Expense.find({ userId, category, date: { $gte: from, $lte: to } });
+    return this.sumInCurrency(expenses, await this.getUserCurrency(userId));
+  }
+
+  // Spent today (the user's local date) in their current currency
+  public async calculateTodaysSpending(userId: string): Promise<number> {
+    const today = DateService.today(await this.getUserTimezone(userId));
+    const expenses = await Expense.find({ userId, date: today });
+    return this.sumInCurrency(expenses, await this.getUserCurrency(userId));
+  }
+
+  // Total, count, average and top items for a spending question, aggregated in Mongo per currency
+  // and then converted into the user's currency
+  public async queryExpenses(userId: string, query: ExpenseQuery): Promise<ExpenseQueryResult> {
+    const match: any = { userId, date: { $gte: query.from, $lte: query.to } };
+    if (query.category) match.category = query.category;
+    if (query.keyword) {
+      const escaped = query.keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      match.item = { $regex: escaped, $options: "i" };
+    }
+
+    const [facets] = await Expense.aggregate([
+      { $match: match },
+      {
+        $facet: {
+          totals: [{ $group: { _id: "$currency", total: { $sum: "$price" }, count: { $sum: 1 } } }],
+          items: [
+            {
+              $group: {
+                _id: { item: { $toLower: "$item" }, currency: "$currency" },
+                name: { $first: "$item" },
+                total: { $sum: "$price" },
+                count: { $sum: 1 },
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    const currency = await this.getUserCurrency(userId);
+    let count = 0;
+    const totals: { price: number; currency: string }[] = [];
+    for (const t of facets?.totals || []) {
+      totals.push({ price: t.total, currency: t._id });
+      count += t.count;
+    }
+    const total = await this.sumInCurrency(totals, currency);
+
+    // Same item in several currencies is merged after conversion
+    const byItem = new Map<string, { item: string; total: number; count: number }>();
+    for (const row of facets?.items || []) {
+      const amount = await this.sumInCurrency([{ price: row.total, currency: row._id.currency }], currency);
+      const entry = byItem.get(row._id.item) || { item: row.name, total: 0, count: 0 };
+      entry.total = Math.round((entry.total + amount) * 100) / 100;
+      entry.count += row.count;
+      byItem.set(row._id.item, entry);
+    }
+    const topItems = [...byItem.values()]
+      .sort((a, b) => b.total - a.total)
+      .slice(0, query.limit || 5);
+
+    return {
+      total,
+      count,
+      average: count ? Math.round((total / count) * 100) / 100 : 0,
+      currency,
+      topItems,
+    };
+  }
+
+  // Spending per category and per day between two dates (inclusive), in the user's currency
+  public async getSpendingBreakdown(
+    userId: string,
+    from: string,
+    to: string
+  ): Promise<{ byCategory: { category: string; total: number }[]; byDay: { date: string; total: number }[] }> {
+    const [facets] = await Expense.aggregate([
+      { $match: { userId, date: { $gte: from, $lte: to } } },
+      {
+        $facet: {
+          categories: [{ $group: { _id: { category: "$category", currency: "$currency" }, total: { $sum: "$price" } } }],
+          days: [{ $group: { _id: { date: "$date", currency: "$currency" }, total: { $sum: "$price" } } }],
+        },
+      },
+    ]);
+
+    const currency = await this.getUserCurrency(userId);
+    const merge = async (rows: any[], key: "category" | "date") => {
+      const totals = new Map<string, number>();
+      for (const row of rows || []) {
+        const name = row._id[key] || CategoryService.FALLBACK_CATEGORY;
+        const amount = await this.sumInCurrency([{ price: row.total, currency: row._id.currency }], currency);
+        totals.set(name, Math.round(((totals.get(name) || 0) + amount) * 100) / 100);
+      }
+      return totals;
+    };
+
+    const byCategory = [...(await merge(facets?.categories, "category")).entries()]
+      .map(([category, total]) => ({ category, total }))
+      .sort((a, b) => b.total - a.total);
+    const byDay = [...(await merge(facets?.days, "date")).entries()]
+      .map(([date, total]) => ({ date, total }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return { byCategory, byDay };
+  }
+
+  // Sum prices in `currency`, converting entries stored in another one. Entries without a known
+  // rate are added unconverted rather than dropped from the total.
+  private async sumInCurrency(expenses: { price: number; currency: string }[], currency: string): Promise<number> {
+    let total = 0;
+    for (const exp of expenses) {
+      if (!exp.currency || exp.currency === currency) {
+        total += exp.price;
+        continue;
+      }
+      const converted = await this.exchangeRateService.convert(exp.price, exp.currency, currency);
+      total += converted ? converted.amount : exp.price;
+    }
+    return Math.round(total * 100) / 100;
+  }
+
   public async isUserActive(userId: string): Promise<boolean> {
     const user = await User.findOne({ userId });
     return user?.state === 'active';
@@ -174,6 +517,31 @@ export class MongoService {
     );
   }
 
+  // Scan that looks like an expense already saved; YES saves it anyway like a confirmed OCR result
+  public async storePendingDuplicate(userId: string, expense: ExpenseData): Promise<void> {
+    await User.findOneAndUpdate(
+      { userId },
+      {
+        pendingExpense: expense,
+        state: 'awaiting_duplicate_confirm'
+      },
+      { upsert: true, new: true }
+    );
+  }
+
+  // Most recent expense that `scan` duplicates: the same photo at any time, or the same amount,
+  // merchant and receipt date within the last 90 days
+  public async findDuplicateExpense(userId: string, scan: ExpenseData): Promise<{ expense: any; reason: DuplicateReason } | null> {
+    const recent: Record<string, any>[] = [{ date: { $gte: DateService.addDays(scan.date, -90) } }];
+    if (scan.imageDigest) recent.push({ imageDigest: scan.imageDigest });
+    const candidates = await Expense.find({ userId, $or: recent }).sort({ number: -1 });
+    for (const expense of candidates) {
+      const reason = DuplicateReceiptService.match(scan, expense);
+      if (reason) return { expense, reason };
+    }
+    return null;
+  }
+
   public async isAwaitingOCRConfirmation(userId: string): Promise<boolean> {
     const user = await User.findOne({ userId });
     return user?.state === 'awaiting_ocr_confirmation';
@@ -213,9 +581,87 @@ export class MongoService {
       { userId },
       { currency: newCurrency, $unset: { pendingCurrency: 1 }, state: 'active' }
     );
+    // Budgets are plans rather than history: this month's and later ones always follow the new currency
+    await this.convertBudgets(userId, newCurrency, await this.currentMonthFor(userId));
     return newCurrency;
   }
 
+  // Rewrite the user's expenses and budgets stored in other currencies into `to`. Converted expenses
+  // keep the amount as entered (originalPrice/originalCurrency) and record the rate that was used.
+  // Currencies without a rate are left untouched and reported in `missing`. Every rewrite is logged
+  // under one actionId as an automatic change: Undo doesn't revert the conversion on its own (the
+  // user's currency stays changed), and older edits of a converted expense are skipped as changed since.
+  public async convertUserHistory(
+    userId: string,
+    to: string,
+    source: ExpenseChangeSource = {}
+  ): Promise<{ expenses: number; budgets: number; missing: string[] }> {
+    const rates = new Map<string, number | null>();
+    const rateFor = async (from: string) => {
+      if (!rates.has(from)) {
+        const converted = await this.exchangeRateService.convert(1, from, to);
+        rates.set(from, converted ? converted.rate : null);
+      }
+      return rates.get(from)!;
+    };
+    const missing = new Set<string>();
+
+    const expenses = await Expense.find({ userId, currency: { $ne: to } });
+    const change: ExpenseChangeSource = { ...source, actionId: source.actionId || this.newActionId(), automatic: true };
+    let converted = 0;
+    for (const exp of expenses) {
+      // Convert from the amount as entered when there is one, so repeated changes don't compound rounding
+      const from = exp.originalCurrency || exp.currency;
+      const amount = exp.originalCurrency ? exp.originalPrice ?? exp.price : exp.price;
+      if (from === to) {
+        await this.updateExpense(exp, { price: amount, currency: to, $unset: { originalPrice: 1, originalCurrency: 1, exchangeRate: 1 } }, change);
+        converted++;
+        continue;
+      }
+      const rate = await rateFor(from);
+      if (!rate) {
+        missing.add(from);
+        continue;
+      }
+      await this.updateExpense(
+        exp,
+        {
+          price: Math.round(amount * rate * 100) / 100,
+          currency: to,
+          originalPrice: amount,
+          originalCurrency: from,
+          exchangeRate: rate,
+        },
+        change
+      );
+      converted++;
+    }
+
+    const budgets = await this.convertBudgets(userId, to);
+    budgets.missing.forEach((c) => missing.add(c));
+
+    return { expenses: converted, budgets: budgets.converted, missing: [...missing] };
+  }
+
+  // Convert budgets stored in other currencies into `to`, optionally only from `fromMonth` (YYYY-MM) on
+  private async convertBudgets(userId: string, to: string, fromMonth?: string): Promise<{ converted: number; missing: string[] }> {
+    const filter: any = { userId, currency: { $ne: to } };
+    if (fromMonth) filter.month = { $gte: fromMonth };
+    const budgets = await Budget.find(filter);
+    const missing = new Set<string>();
+    let converted = 0;
+    for (const doc of budgets) {
+      if (!(await this.exchangeRateService.convert(1, doc.currency, to))) {
+        missing.add(doc.currency);
+        continue;
+      }
+      const amounts = await this.budgetInCurrency(doc, to);
+      await Budget.updateOne({ _id: doc._id }, { ...amounts, currency: to });
+      converted++;
+    }
+    return { converted, missing: [...missing] };
+  }
+
   public async clearPendingCurrency(userId: string): Promise<void> {
     await User.findOneAndUpdate(
       { userId },
@@ -243,4 +689,271 @@ export class MongoService {
     const user = await User.findOne({ userId });
     return user?.state === 'awaiting_history_delete_confirm' && !!user?.pendingDelete;
   }
+
+  // Pending multi-item receipt: save all items, only the total, or drop lines first
+  public async storePendingReceipt(userId: string, receipt: PendingReceipt): Promise<void> {
+    await User.findOneAndUpdate(
+      { userId },
+      { pendingReceipt: receipt, state: 'awaiting_receipt_split' },
+      { upsert: true, new: true }
+    );
+  }
+
+  public async getPendingReceipt(userId: string): Promise<PendingReceipt | null> {
+    const user = await User.findOne({ userId });
+    return user?.pendingReceipt || null;
+  }
+
+  public async clearPendingReceipt(userId: string): Promise<void> {
+    await User.findOneAndUpdate(
+      { userId },
+      { $unset: { pendingReceipt: 1 }, state: 'active' }
+    );
+  }
+
+  // Pending bulk edit/delete confirmation flow
+  public async storePendingBulkEdit(userId: string, pending: PendingBulkEdit): Promise<void> {
+    await User.findOneAndUpdate(
+      { userId },
+      { pendingBulkEdit: pending, state: 'awaiting_bulk_confirm' },
+      { upsert: true, new: true }
+    );
+  }
+
+  public async getPendingBulkEdit(userId: string): Promise<PendingBulkEdit | null> {
+    const user = await User.findOne({ userId });
+    return user?.pendingBulkEdit || null;
+  }
+
+  public async clearPendingBulkEdit(userId: string): Promise<void> {
+    await User.findOneAndUpdate(
+      { userId },
+      { $unset: { pendingBulkEdit: 1 }, state: 'active' }
+    );
+  }
+
+  // Expenses by running number, in number order
+  public async getExpensesByNumber(userId: string, numbers: number[]) {
+    return Expense.find({ userId, number: { $in: numbers } }).sort({ number: 1 });
+  }
+
+  // Expenses dated between two dates (inclusive), in number order
+  public async getExpensesInRange(userId: string, from: string, to: string) {
+    return Expense.find({ userId, date: { $gte: from, $lte: to } }).sort({ number: 1 });
+  }
+
+  // Pending CSV import confirmation flow
+  public async storePendingImport(userId: string, pending: PendingImport): Promise<void> {
+    await User.findOneAndUpdate(
+      { userId },
+      { pendingImport: pending, state: 'awaiting_import_confirm' },
+      { upsert: true, new: true }
+    );
+  }
+
+  public async getPendingImport(userId: string): Promise<PendingImport | null> {
+    const user = await User.findOne({ userId });
+    return user?.pendingImport || null;
+  }
+
+  public async clearPendingImport(userId: string): Promise<void> {
+    await User.findOneAndUpdate(
+      { userId },
+      { $unset: { pendingImport: 1 }, state: 'active' }
+    );
+  }
+
+  // Expenses between two dates (inclusive), for matching imported rows against what's already recorded
+  public async getExpensesBetween(userId: string, from: string, to: string) {
+    return Expense.find({ userId, date: { $gte: from, $lte: to } })
+      .select("date item price currency originalPrice originalCurrency")
+      .lean();
+  }
+
+  // Insert imported expenses in date order with consecutive running numbers; one Undo removes the whole import
+  public async insertImportedExpenses(userId: string, rows: ExpenseData[], source: ExpenseChangeSource = {}): Promise<{ first: number; last: number }> {
+    const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+    const first = await this.reserveExpenseNumbers(userId, sorted.length);
+    const inserted = await Expense.insertMany(sorted.map((row, i) => ({ ...row, userId, number: first + i })));
+    const actionId = source.actionId || this.newActionId();
+    for (const expense of inserted) {
+      await this.logExpenseCreated(expense, { ...source, actionId });
+    }
+    return { first, last: first + sorted.length - 1 };
+  }
+
+  // Expense history, trash and undo. Every change goes through these so it can be shown and reverted.
+
+  public newActionId(): string {
+    return randomUUID();
+  }
+
+  // Plain copy of an expense's fields (without _id and userId)
+  private snapshotOf(expense: ExpenseDocument): ExpenseSnapshot {
+    const { _id, __v, userId, ...fields } = expense.toObject();
+    return fields as ExpenseSnapshot;
+  }
+
+  private async logChange(
+    expense: ExpenseDocument,
+    action: ExpenseChangeAction,
+    before: ExpenseSnapshot | null,
+    after: ExpenseSnapshot | null,
+    source: ExpenseChangeSource,
+    undoOf?: string
+  ): Promise<void> {
+    await ExpenseHistory.create({
+      userId: expense.userId,
+      expenseId: String(expense._id),
+      number: expense.number,
+      action,
+      ...(before ? { before } : {}),
+      ...(after ? { after } : {}),
+      ...(source.text ? { source: source.text.slice(0, 200) } : {}),
+      actionId: source.actionId || this.newActionId(),
+      ...(source.automatic ? { automatic: true } : {}),
+      ...(undoOf ? { undoOf } : {}),
+    });
+  }
+
+  public async logExpenseCreated(expense: ExpenseDocument, source: ExpenseChangeSource = {}): Promise<void> {
+    await this.logChange(expense, 'create', null, this.snapshotOf(expense), source);
+  }
+
+  // Apply `update` to an expense and log what it looked like before and after; returns the updated expense
+  public async updateExpense(
+    expense: ExpenseDocument,
+    update: UpdateQuery<ExpenseDocument>,
+    source: ExpenseChangeSource = {}
+  ): Promise<ExpenseDocument | null> {
+    const updated = await Expense.findByIdAndUpdate(expense._id, update, { new: true });
+    if (updated) await this.logChange(updated, 'edit', this.snapshotOf(expense), this.snapshotOf(updated), source);
+    return updated;
+  }
+
+  // Move an expense to the trash, where it can be restored for 30 days
+  public async deleteExpense(expense: ExpenseDocument, source: ExpenseChangeSource = {}, undoOf?: string): Promise<void> {
+    const snapshot = this.snapshotOf(expense);
+    await DeletedExpense.findOneAndUpdate(
+      { expenseId: String(expense._id) },
+      { userId: expense.userId, number: expense.number, expense: snapshot, deletedAt: new Date() },
+      { upsert: true }
+    );
+    await Expense.deleteOne({ _id: expense._id });
+    await this.logChange(expense, 'delete', snapshot, null, source, undoOf);
+  }
+
+  // Put a deleted expense back under its old number; null when it isn't in the trash (never deleted, or expired)
+  public async restoreExpense(
+    userId: string,
+    match: { number: number } | { expenseId: string },
+    source: ExpenseChangeSource = {},
+    undoOf?: string
+  ): Promise<ExpenseDocument | null> {
+    const trashed = await DeletedExpense.findOne({ userId, ...match }).sort({ deletedAt: -1 });
+    if (!trashed) return null;
+    const restored = await Expense.create({ ...trashed.expense, _id: trashed.expenseId, userId });
+    await DeletedExpense.deleteOne({ _id: trashed._id });
+    await this.logChange(restored, 'restore', null, this.snapshotOf(restored), source, undoOf);
+    return restored;
+  }
+
+  public async getDeletedExpenses(userId: string) {
+    return DeletedExpense.find({ userId }).sort({ deletedAt: -1 }).limit(20);
+  }
+
+  // Change log of one expense number, oldest first
+  public async getExpenseHistory(userId: string, number: number) {
+    return ExpenseHistory.find({ userId, number }).sort({ createdAt: 1 });
+  }
+
+  // Revert the user's most recent command that hasn't been undone yet (all entries sharing its actionId,
+  // newest first). Changes made by the scheduler and by earlier undos are skipped, and so is an edit whose
+  // expense has changed since (e.g. converted to a new currency), rather than overwriting the newer fields
+  // with a stale snapshot. Null if nothing is left.
+  public async undoLastAction(userId: string, source: ExpenseChangeSource = {}): Promise<UndoResult | null> {
+    const last = await ExpenseHistory.findOne({
+      userId,
+      undoneAt: { $exists: false },
+      undoOf: { $exists: false },
+      automatic: { $ne: true },
+    }).sort({ createdAt: -1 });
+    if (!last) return null;
+
+    const entries = await ExpenseHistory.find({ userId, actionId: last.actionId, undoneAt: { $exists: false } }).sort({ createdAt: -1 });
+    const revert: ExpenseChangeSource = { ...source, actionId: this.newActionId() };
+    const result: UndoResult = { action: last.action, reverted: [], skipped: [] };
+
+    for (const entry of entries) {
+      const label = { number: entry.number, item: entry.after?.item || entry.before?.item || '' };
+      const current = await Expense.findById(entry.expenseId);
+      let done = false;
+      if (entry.action === 'create' || entry.action === 'restore') {
+        if (current) {
+          await this.deleteExpense(current, revert, entry.actionId);
+          done = true;
+        }
+      } else if (entry.action === 'delete') {
+        done = !current && !!(await this.restoreExpense(userId, { expenseId: entry.expenseId }, revert, entry.actionId));
+      } else if (current && entry.before && this.sameSnapshot(this.snapshotOf(current), entry.after)) {
+        await Expense.replaceOne({ _id: current._id }, { ...entry.before, userId });
+        const reverted = await Expense.findById(current._id);
+        if (reverted) await this.logChange(reverted, 'edit', this.snapshotOf(current), this.snapshotOf(reverted), revert, entry.actionId);
+        done = true;
+      }
+      (done ? result.reverted : result.skipped).push(label);
+    }
+
+    await ExpenseHistory.updateMany({ _id: { $in: entries.map((e) => e._id) } }, { undoneAt: new Date() });
+    return result;
+  }
+
+  // Whether an expense still looks the way a history entry left it
+  private sameSnapshot(current: ExpenseSnapshot, logged: ExpenseSnapshot | undefined): boolean {
+    if (!logged) return false;
+    const fields = new Set([...Object.keys(current), ...Object.keys(logged)]);
+    return [...fields].every(
+      (field) => JSON.stringify(current[field as keyof ExpenseSnapshot]) === JSON.stringify(logged[field as keyof ExpenseSnapshot])
+    );
+  }
+
+  // Category list and learned category mappings
+  public async getUserCategories(userId: string): Promise<string[]> {
+    const user = await User.findOne({ userId });
+    const categories = user?.categories;
+    return categories && categories.length ? categories : [...CategoryService.DEFAULT_CATEGORIES];
+  }
+
+  public async addUserCategory(userId: string, category: string): Promise<string[]> {
+    const categories = await this.getUserCategories(userId);
+    if (!CategoryService.matchCategory(category, categories)) {
+      categories.push(category);
+    }
+    await User.findOneAndUpdate({ userId }, { categories }, { upsert: true, new: true });
+    return categories;
+  }
+
+  public async removeUserCategory(userId: string, category: string): Promise<string[] | null> {
+    const categories = await this.getUserCategories(userId);
+    const existing = CategoryService.matchCategory(category, categories);
+    if (!existing) return null;
+    const remaining = categories.filter((c) => c !== existing);
+    await User.findOneAndUpdate({ userId }, { categories: remaining }, { upsert: true, new: true });
+    return remaining;
+  }
+
+  public async getCategoryMappings(userId: string): Promise<{ keyword: string; category: string }[]> {
+    const mappings = await CategoryMapping.find({ userId }).select('keyword category');
+    return mappings.map((m) => ({ keyword: m.keyword, category: m.category }));
+  }
+
+  public async saveCategoryMapping(userId: string, item: string, category: string): Promise<void> {
+    const keyword = CategoryService.normalizeKeyword(item);
+    if (!keyword) return;
+    await CategoryMapping.findOneAndUpdate(
+      { userId, keyword },
+      { category, updatedAt: new Date() },
+      { upsert: true, new: true }
+    );
+  }
 }
@@ -0,0 +1,74 @@
+import type { GroqExpenseResponse, OcrConfidence } from "../types/types";
+import { DateService } from "./DateService";
+
+// Scans scoring below this are shown to the user for a YES/NO confirmation instead of being saved
+export const DEFAULT_OCR_CONFIDENCE_THRESHOLD = 0.6;
+
+// How much each signal contributes to the final score
+const WEIGHTS = { model: 0.4, checksum: 0.3, date: 0.15, merchant: 0.15 };
+// Signals the model didn't provide count as "probably fine" rather than as failures
+const NEUTRAL = 0.6;
+
+export class OcrConfidenceService {
+  public static threshold(): number {
+    const configured = parseFloat(process.env.OCR_CONFIDENCE_THRESHOLD || "");
+    return configured >= 0 && configured <= 1 ? configured : DEFAULT_OCR_CONFIDENCE_THRESHOLD;
+  }
+
+  // Combine the model's own confidence with checks on the extracted fields: line items (plus tax,
+  // minus discount) should add up to the total, the receipt date should be recent and not in the
+  // future, and the merchant name should look like a name.
+  public static score(parsed: GroqExpenseResponse, today: string): OcrConfidence {
+    const reasons: string[] = [];
+    if (typeof parsed.price !== "number" || !(parsed.price > 0)) {
+      return { confidence: 0, reasons: ["no total found"] };
+    }
+
+    const model = typeof parsed.confidence === "number" && parsed.confidence >= 0 && parsed.confidence <= 1
+      ? parsed.confidence
+      : NEUTRAL;
+    if (model < 0.5) reasons.push("the photo was hard to read");
+
+    const checksum = this.checksumScore(parsed);
+    if (checksum < 0.5) reasons.push("line items don't add up to the total");
+
+    const date = this.dateScore(parsed.date, today);
+    if (date < 0.5) reasons.push(`the receipt date (${parsed.date}) looks wrong`);
+
+    const merchant = this.merchantScore(parsed.merchant);
+    if (merchant < 0.5) reasons.push("the shop name is unclear");
+
+    const confidence =
+      model * WEIGHTS.model + checksum * WEIGHTS.checksum + date * WEIGHTS.date + merchant * WEIGHTS.merchant;
+    return { confidence: Math.round(confidence * 100) / 100, reasons };
+  }
+
+  // Line totals + tax - discount against the printed total; within 1% is a match
+  private static checksumScore(parsed: GroqExpenseResponse): number {
+    const lines = (parsed.lineTotals || []).filter((n) => typeof n === "number" && n > 0);
+    if (!lines.length) return NEUTRAL;
+    const expected = lines.reduce((sum, n) => sum + n, 0) + (parsed.tax || 0) - Math.abs(parsed.discount || 0);
+    const diff = Math.abs(expected - parsed.price!) / parsed.price!;
+    if (diff <= 0.01) return 1;
+    if (diff <= 0.05) return 0.6;
+    return 0.1;
+  }
+
+  // Receipts are usually scanned within days; future dates or dates years back are misreads
+  private static dateScore(date: string | undefined, today: string): number {
+    if (!date) return NEUTRAL;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) return 0.2;
+    if (date > DateService.addDays(today, 1)) return 0.1;
+    if (date >= DateService.addDays(today, -90)) return 1;
+    if (date >= DateService.addDays(today, -365)) return 0.6;
+    return 0.2;
+  }
+
+  private static merchantScore(merchant: string | undefined): number {
+    const name = (merchant || "").trim();
+    if (!name) return NEUTRAL;
+    const letters = (name.match(/\p{L}/gu) || []).length;
+    if (name.length < 2 || name.length > 60 || letters < 2 || letters / name.length < 0.4) return 0.2;
+    return 1;
+  }
+}
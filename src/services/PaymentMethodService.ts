@@ -0,0 +1,29 @@
+// Canonical names for how an expense was paid, so "visa", "debit card" and "card" reconcile together
+const PAYMENT_METHODS: [string, RegExp][] = [
+  ["Cash", /\bcash\b/i],
+  ["bKash", /\bb\s*-?\s*kash\b/i],
+  ["Nagad", /\bnagad\b/i],
+  ["Rocket", /\brocket\b/i],
+  ["UPI", /\b(?:upi|paytm|phonepe|bhim)\b/i],
+  ["Apple Pay", /\bapple\s*pay\b/i],
+  ["Google Pay", /\b(?:google\s*pay|gpay)\b/i],
+  ["PayPal", /\bpaypal\b/i],
+  ["Card", /\b(?:card|credit|debit|visa|master\s*card|mastercard|amex|american express|maestro|contactless|tap)\b/i],
+  ["Bank transfer", /\b(?:bank|transfer|wire|neft|imps|ach)\b/i],
+];
+
+export class PaymentMethodService {
+  // Canonical name for a payment method mentioned in receipt text or an edit, or null if none is recognised
+  public static normalize(text: string | undefined | null): string | null {
+    const value = (text || "").trim();
+    if (!value) return null;
+    return PAYMENT_METHODS.find(([, pattern]) => pattern.test(value))?.[0] ?? null;
+  }
+
+  // Name to store for a user-typed method: the canonical one when recognised, otherwise as typed
+  // ("#004 paid company account")
+  public static fromUserText(text: string): string {
+    const value = text.trim().replace(/\s+/g, " ").slice(0, 40);
+    return this.normalize(value) || value.charAt(0).toUpperCase() + value.slice(1);
+  }
+}
@@ -0,0 +1,185 @@
+import type { MonthlySummary } from "../types/types";
+
+// A4 in PDF points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+
+type Color = [number, number, number];
+const TEXT: Color = [0.13, 0.13, 0.13];
+const MUTED: Color = [0.45, 0.45, 0.45];
+const ACCENT: Color = [0.15, 0.55, 0.4];
+const WARN: Color = [0.8, 0.3, 0.25];
+const TRACK: Color = [0.92, 0.92, 0.92];
+
+// Minimal single-page PDF writer: Helvetica text and filled rectangles are all the report needs,
+// so we avoid pulling in a PDF library. Coordinates are measured from the top-left corner.
+class PdfPage {
+  private ops: string[] = [];
+
+  // The standard fonts only cover Latin-1; anything else (e.g. Bangla item names) becomes "?"
+  private static escape(text: string): string {
+    return text
+      .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+      .replace(/\\/g, "\\\\")
+      .replace(/\(/g, "\\(")
+      .replace(/\)/g, "\\)");
+  }
+
+  // Rough Helvetica width, good enough for right-aligning numbers
+  public static textWidth(text: string, size: number): number {
+    return text.length * size * 0.52;
+  }
+
+  public text(x: number, y: number, text: string, size: number = 11, opts: { bold?: boolean; color?: Color } = {}): void {
+    const [r, g, b] = opts.color || TEXT;
+    this.ops.push(
+      `BT ${r} ${g} ${b} rg /${opts.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${PdfPage.escape(text)}) Tj ET`
+    );
+  }
+
+  public rect(x: number, y: number, width: number, height: number, color: Color): void {
+    const [r, g, b] = color;
+    this.ops.push(
+      `${r} ${g} ${b} rg ${x.toFixed(2)} ${(PAGE_HEIGHT - y - height).toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f`
+    );
+  }
+
+  public toBuffer(): Buffer {
+    const content = this.ops.join("\n");
+    const objects = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    ];
+
+    let out = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(out, "latin1"));
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = Buffer.byteLength(out, "latin1");
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(out, "latin1");
+  }
+}
+
+export class PdfService {
+  private static money(amount: number): string {
+    const [whole, cents] = (Math.round(amount * 100) / 100).toFixed(2).split(".");
+    const grouped = whole!.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+    return cents === "00" ? grouped : `${grouped}.${cents}`;
+  }
+
+  private static shortDate(date: string): string {
+    const [, m, d] = date.split("-").map((p) => parseInt(p, 10));
+    const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+    return `${d} ${months[m! - 1]}`;
+  }
+
+  // One-page monthly report: key figures, category bars, a daily spending chart and top items
+  public static monthlySummary(summary: MonthlySummary): Buffer {
+    const page = new PdfPage();
+    const cur = summary.currency;
+    const contentWidth = PAGE_WIDTH - MARGIN * 2;
+    let y = MARGIN + 10;
+
+    page.text(MARGIN, y, `Expense summary - ${summary.label}`, 20, { bold: true });
+    y += 18;
+    page.text(MARGIN, y, `${summary.count} expense${summary.count === 1 ? "" : "s"} - amounts in ${cur}`, 10, { color: MUTED });
+    y += 30;
+
+    // Key figures
+    const figures: [string, string][] = [["Spent", `${this.money(summary.total)} ${cur}`]];
+    if (summary.budget > 0) {
+      figures.push(["Budget", `${this.money(summary.budget)} ${cur}`]);
+      figures.push(["Remaining", `${this.money(summary.remaining)} ${cur}`]);
+    }
+    if (summary.biggestDay) {
+      figures.push(["Biggest day", `${this.shortDate(summary.biggestDay.date)} - ${this.money(summary.biggestDay.total)} ${cur}`]);
+    }
+    const diff = summary.total - summary.previous.total;
+    figures.push([
+      `vs ${summary.previous.label}`,
+      `${diff >= 0 ? "+" : "-"}${this.money(Math.abs(diff))} ${cur} (${this.money(summary.previous.total)} ${cur})`,
+    ]);
+    for (const [label, value] of figures) {
+      page.text(MARGIN, y, label, 11, { color: MUTED });
+      page.text(MARGIN + 130, y, value, 11, { bold: true });
+      y += 18;
+    }
+
+    // Budget usage bar
+    if (summary.budget > 0) {
+      y += 4;
+      const used = Math.min(summary.total / summary.budget, 1);
+      page.rect(MARGIN, y, contentWidth, 10, TRACK);
+      page.rect(MARGIN, y, contentWidth * used, 10, summary.total > summary.budget ? WARN : ACCENT);
+      y += 22;
+      page.text(MARGIN, y, `${Math.round((summary.total / summary.budget) * 100)}% of budget used`, 9, { color: MUTED });
+    }
+    y += 30;
+
+    // Spending by category: horizontal bars scaled to the largest category
+    page.text(MARGIN, y, "By category", 14, { bold: true });
+    y += 16;
+    const categories = summary.byCategory.slice(0, 10);
+    const maxCategory = Math.max(...categories.map((c) => c.total), 1);
+    const labelWidth = 110;
+    const amountWidth = 90;
+    const barWidth = contentWidth - labelWidth - amountWidth;
+    for (const c of categories) {
+      page.text(MARGIN, y + 9, c.category.slice(0, 18), 10);
+      page.rect(MARGIN + labelWidth, y, barWidth, 11, TRACK);
+      page.rect(MARGIN + labelWidth, y, Math.max((c.total / maxCategory) * barWidth, 1), 11, ACCENT);
+      const amount = this.money(c.total);
+      page.text(PAGE_WIDTH - MARGIN - PdfPage.textWidth(amount, 10), y + 9, amount, 10);
+      y += 18;
+    }
+    if (!categories.length) {
+      page.text(MARGIN, y + 9, "No expenses this month.", 10, { color: MUTED });
+      y += 18;
+    }
+    y += 24;
+
+    // Daily spending: one column per day of the month
+    page.text(MARGIN, y, "Daily spending", 14, { bold: true });
+    y += 14;
+    const chartHeight = 110;
+    const [yy, mm] = summary.month.split("-").map((p) => parseInt(p, 10));
+    const days = new Date(Date.UTC(yy!, mm!, 0)).getUTCDate();
+    const perDay = new Map(summary.byDay.map((d) => [d.date, d.total]));
+    const maxDay = Math.max(...summary.byDay.map((d) => d.total), 1);
+    const slot = contentWidth / days;
+    page.rect(MARGIN, y + chartHeight, contentWidth, 0.8, MUTED);
+    for (let day = 1; day <= days; day++) {
+      const date = `${summary.month}-${String(day).padStart(2, "0")}`;
+      const total = perDay.get(date) || 0;
+      const height = (total / maxDay) * chartHeight;
+      const isBiggest = summary.biggestDay?.date === date;
+      if (height > 0) page.rect(MARGIN + (day - 1) * slot + 1, y + chartHeight - height, slot - 2, height, isBiggest ? WARN : ACCENT);
+      if (day === 1 || day % 5 === 0) page.text(MARGIN + (day - 1) * slot + 1, y + chartHeight + 12, String(day), 8, { color: MUTED });
+    }
+    page.text(MARGIN, y - 2, `max ${this.money(maxDay)}`, 8, { color: MUTED });
+    y += chartHeight + 40;
+
+    // Top items
+    page.text(MARGIN, y, "Top items", 14, { bold: true });
+    y += 18;
+    summary.topItems.slice(0, 5).forEach((t, i) => {
+      page.text(MARGIN, y, `${i + 1}. ${t.item.slice(0, 40)}${t.count > 1 ? ` (${t.count}x)` : ""}`, 11);
+      const amount = `${this.money(t.total)} ${cur}`;
+      page.text(PAGE_WIDTH - MARGIN - PdfPage.textWidth(amount, 11), y, amount, 11);
+      y += 17;
+    });
+
+    return page.toBuffer();
+  }
+}
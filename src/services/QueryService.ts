@@ -0,0 +1,215 @@
+import type { Client, Message } from "../types/wa";
+import type { ExpenseQuery, ExpenseQueryResult, IntentResult, QueryMetric, QueryProvider } from "../types/types";
+import { MongoService } from "./MongoService";
+import { CategoryService } from "./CategoryService";
+import { DateService } from "./DateService";
+import { createQueryProvider } from "./ReceiptProvider";
+
+const METRICS: QueryMetric[] = ["total", "count", "average", "top"];
+const DEFAULT_TOP_LIMIT = 5;
+
+// Question openers. On their own they're not enough: "Show tickets 800" and "Total gym 500" are expenses
+const QUESTION_OPENER =
+  /^(?:how\s+(?:much|many)|what(?:'s|s)?|which|when\s+did|did\s+i|show(?:\s+me)?|total|average|avg|biggest|top)\b/i;
+// Questions without a "?": "how much did I spend…", "how many coffees did I buy…", "top 5 items…"
+const QUESTION_SHAPE =
+  /^(?:how\s+(?:much|many)\s+(?:\S+\s+){0,2}?(?:did|do|does|have|has|was|were|is|are)\b|top\s+(?:\d{1,2}\s+)?(?:items?|expenses?|purchases?|spends?|spending)\b)/i;
+// An expense ends in its price
+const TRAILING_AMOUNT = /\d+(?:[.,]\d+)?\s*$/;
+
+// Filler words removed before the remaining text is used as an item keyword
+const FILLER_WORDS = new Set([
+  "how", "much", "many", "what", "whats", "what's", "which", "when", "did", "do", "does", "i", "we", "my", "me",
+  "spend", "spent", "spending", "pay", "paid", "buy", "bought", "get", "got", "total", "count", "number", "of",
+  "expense", "expenses", "average", "avg", "mean", "top", "biggest", "largest", "highest", "most", "expensive",
+  "item", "items", "purchase", "purchases", "transactions", "entries", "times", "the", "a", "an", "in", "on",
+  "for", "at", "from", "during", "so", "far", "was", "is", "are", "have", "has", "been", "all", "show", "money",
+  "cost", "costs", "per", "and", "to", "with", "it", "there", "were",
+]);
+
+export class QueryService {
+  private client: Client;
+  private mongoService: MongoService;
+  private queryProvider: QueryProvider | null;
+
+  constructor(client: Client, mongoService: MongoService, queryProvider: QueryProvider | null = createQueryProvider()) {
+    this.client = client;
+    this.mongoService = mongoService;
+    this.queryProvider = queryProvider;
+  }
+
+  // A question opener plus a trailing "?" or an unmistakable question shape, never text ending in an amount
+  public static looksLikeQuery(text: string): boolean {
+    const body = (text || "").trim();
+    if (!QUESTION_OPENER.test(body) || TRAILING_AMOUNT.test(body)) return false;
+    return body.endsWith("?") || QUESTION_SHAPE.test(body);
+  }
+
+  // Deterministic parser: date range via DateService, metric from keywords, category from the
+  // user's list and whatever words remain as the item keyword. Defaults to this month's total.
+  public static parseQuery(text: string, today: string, categories: string[]): ExpenseQuery | null {
+    let body = (text || "").trim().replace(/[?!.]+$/, "").trim();
+    if (!body) return null;
+
+    const range = DateService.parseDateRange(body, today);
+    const from = range ? range.from : `${today.slice(0, 7)}-01`;
+    const to = range ? range.to : today;
+    const label = range ? range.label : "this month";
+    if (range) body = range.rest;
+
+    const lower = body.toLowerCase();
+    let metric: QueryMetric = "total";
+    let limit: number | undefined;
+    if (/\b(?:top|biggest|largest|highest|most\s+expensive)\b/.test(lower)) {
+      metric = "top";
+      const topMatch = lower.match(/\btop\s+(\d{1,2})\b/);
+      limit = topMatch ? Math.max(1, parseInt(topMatch[1]!, 10)) : DEFAULT_TOP_LIMIT;
+    } else if (/\b(?:how\s+many|count|number\s+of)\b/.test(lower)) {
+      metric = "count";
+    } else if (/\b(?:average|avg|mean)\b/.test(lower)) {
+      metric = "average";
+    }
+
+    const words = CategoryService.normalizeKeyword(body)
+      .split(" ")
+      .filter((w) => w && !FILLER_WORDS.has(w) && !/^\d+$/.test(w));
+
+    // A category named anywhere in the question filters by category; the rest is the item keyword
+    let category: string | undefined;
+    const remaining: string[] = [];
+    for (const word of words) {
+      const matched = !category ? CategoryService.matchCategory(word, categories) : null;
+      if (matched) category = matched;
+      else remaining.push(word);
+    }
+    // Item names are matched as substrings, so "coffees" searches for "coffee"
+    let keyword = remaining
+      .map((w) => (w.length > 3 && w.endsWith("s") && !w.endsWith("ss") ? w.slice(0, -1) : w))
+      .join(" ")
+      .trim() || undefined;
+    // Multi-word category names ("Dining Out") only match as a whole
+    if (!category && keyword && CategoryService.matchCategory(keyword, categories)) {
+      category = CategoryService.matchCategory(keyword, categories)!;
+      keyword = undefined;
+    }
+
+    const query: ExpenseQuery = { metric, from, to, label };
+    if (category) query.category = category;
+    if (keyword) query.keyword = keyword;
+    if (limit) query.limit = limit;
+    return query;
+  }
+
+  // Ask the query model to turn the question into the same ExpenseQuery shape; null on any failure or invalid output
+  private async parseWithModel(text: string, today: string, categories: string[]): Promise<ExpenseQuery | null> {
+    if (!this.queryProvider) return null;
+    try {
+      const systemPrompt =
+        `You turn spending questions into JSON filters. Today is ${today}. Weeks start on Monday. ` +
+        `The user's categories are: ${categories.join(", ")}. ` +
+        'Return ONLY JSON with keys: metric ("total" | "count" | "average" | "top"), from (YYYY-MM-DD), to (YYYY-MM-DD), ' +
+        "category (one of the categories or null), keyword (item name to match or null), limit (number or null). " +
+        "When no period is mentioned use the first day of the current month up to today.";
+      const content = await this.queryProvider.complete({ systemPrompt, userText: text, temperature: 0, maxTokens: 200 });
+      const firstBrace = content.indexOf("{");
+      const lastBrace = content.lastIndexOf("}");
+      if (firstBrace === -1 || lastBrace <= firstBrace) return null;
+      const parsed = JSON.parse(content.slice(firstBrace, lastBrace + 1));
+
+      const isDate = (v: any) => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+      if (!METRICS.includes(parsed.metric) || !isDate(parsed.from) || !isDate(parsed.to) || parsed.from > parsed.to) {
+        return null;
+      }
+      const query: ExpenseQuery = {
+        metric: parsed.metric,
+        from: parsed.from,
+        to: parsed.to > today ? today : parsed.to,
+        label: "",
+      };
+      const range = DateService.parseDateRange(text, today);
+      query.label = range && range.from === query.from && range.to === query.to
+        ? range.label
+        : query.from === query.to
+          ? DateService.formatShort(query.from)
+          : `${DateService.formatShort(query.from)} – ${DateService.formatShort(query.to)}`;
+      const category = parsed.category ? CategoryService.matchCategory(String(parsed.category), categories) : null;
+      if (category) query.category = category;
+      const keyword = typeof parsed.keyword === "string" ? parsed.keyword.trim().slice(0, 40) : "";
+      if (keyword && keyword.toLowerCase() !== category?.toLowerCase()) query.keyword = keyword;
+      if (query.metric === "top") {
+        const limit = parseInt(parsed.limit, 10);
+        query.limit = limit > 0 && limit <= 20 ? limit : DEFAULT_TOP_LIMIT;
+      }
+      return query;
+    } catch (e) {
+      console.warn(`Query parsing (${this.queryProvider.name}) failed, using the built-in parser:`, (e as any)?.message || e);
+      return null;
+    }
+  }
+
+  // Classify a message as a spending question. The query model is used when configured; the deterministic
+  // parser covers the rest so questions still work without it.
+  public async detectIntent(text: string, userId: string): Promise<IntentResult> {
+    if (!QueryService.looksLikeQuery(text)) return { intent: "other", data: null };
+    const today = DateService.today(await this.mongoService.getUserTimezone(userId));
+    const categories = await this.mongoService.getUserCategories(userId);
+    const query =
+      (await this.parseWithModel(text, today, categories)) ?? QueryService.parseQuery(text, today, categories);
+    return query ? { intent: "query_expenses", data: query } : { intent: "other", data: null };
+  }
+
+  // "how much did I spend on food last week?"
+  public async handleQuery(messageBody: string, originalMessage: Message): Promise<void> {
+    const userId = originalMessage.from;
+    const intent = await this.detectIntent(messageBody, userId);
+    if (intent.intent !== "query_expenses") {
+      await this.client.sendMessage(
+        userId,
+        "❌ Couldn't read that question. Try:\nHow much did I spend on food last week?\nHow many coffees this month?\nTop 5 items in March"
+      );
+      return;
+    }
+    const query = intent.data as ExpenseQuery;
+    const result = await this.mongoService.queryExpenses(userId, query);
+    await this.client.sendMessage(userId, QueryService.formatReply(query, result));
+  }
+
+  private static money(amount: number): string {
+    const s = (Math.round(amount * 100) / 100).toFixed(2);
+    return s.replace(/\.00$/, "").replace(/(\.\d)0$/, "$1");
+  }
+
+  public static formatReply(query: ExpenseQuery, result: ExpenseQueryResult): string {
+    const subject = [query.category, query.keyword ? `"${query.keyword}"` : ""].filter(Boolean).join(" · ");
+    const title = subject ? `${subject} · ${query.label}` : query.label;
+    const span = query.from === query.to
+      ? DateService.formatShort(query.from)
+      : `${DateService.formatShort(query.from)} – ${DateService.formatShort(query.to)}`;
+    if (!result.count) {
+      return `📊 No expenses found for *${title}*.\n_${span}_`;
+    }
+
+    const plural = (n: number) => `${n} expense${n === 1 ? "" : "s"}`;
+    const money = (n: number) => `${this.money(n)} ${result.currency}`;
+    let reply = `📊 *${title}*\n_${span}_\n`;
+    switch (query.metric) {
+      case "count":
+        reply += `🧾 ${plural(result.count)} · ${money(result.total)} total`;
+        break;
+      case "average":
+        reply += `Average: *${money(result.average)}* per expense\n${plural(result.count)} · ${money(result.total)} total`;
+        break;
+      case "top":
+        reply += result.topItems
+          .map((t, i) => `${i + 1}. ${t.item}: ${money(t.total)}${t.count > 1 ? ` (${t.count}×)` : ""}`)
+          .join("\n");
+        reply += `\nTotal: ${money(result.total)} · ${plural(result.count)}`;
+        break;
+      case "total":
+      default:
+        reply += `Spent: *${money(result.total)}* · ${plural(result.count)}`;
+        break;
+    }
+    return reply;
+  }
+}
@@ -0,0 +1,195 @@
+import Groq from "groq-sdk";
+import { readFileSync } from "fs";
+import type {
+  QueryCompletionRequest,
+  QueryProvider,
+  ReceiptExtractionKind,
+  ReceiptExtractionRequest,
+  ReceiptProvider,
+} from "../types/types";
+
+const DEFAULT_GROQ_MODEL = "meta-llama/llama-4-maverick-17b-128e-instruct";
+// Ollama's OpenAI-compatible endpoint; LM Studio and vLLM expose the same /chat/completions route
+const DEFAULT_OPENAI_URL = "http://localhost:11434/v1";
+
+// The same receipt in both shapes, so fixture scans save one expense or split into line items
+const SAMPLE_RECEIPT: { [kind in ReceiptExtractionKind]: object } = {
+  expense: {
+    item: "Total",
+    price: 23.5,
+    currency: "USD",
+    merchant: "Corner Market",
+    lineTotals: [12, 8.5, 1],
+    tax: 2,
+    discount: 0,
+    confidence: 0.9,
+  },
+  items: {
+    currency: "USD",
+    items: [
+      { name: "Coffee beans", quantity: 1, unitPrice: 12, total: 12 },
+      { name: "Milk", quantity: 2, unitPrice: 4.25, total: 8.5 },
+      { name: "Bag", quantity: 1, unitPrice: 1, total: 1 },
+    ],
+    tax: 2,
+    discount: 0,
+    total: 23.5,
+  },
+};
+
+const chatMessages = (request: ReceiptExtractionRequest) => [
+  { role: "system", content: request.systemPrompt },
+  {
+    role: "user",
+    content: [
+      { type: "text", text: request.userText },
+      { type: "image_url", image_url: { url: request.imageDataUrl } },
+    ],
+  },
+];
+
+const textMessages = (request: QueryCompletionRequest) => [
+  { role: "system", content: request.systemPrompt },
+  { role: "user", content: request.userText },
+];
+
+// Groq-hosted vision model (the default); also answers text-only prompts for spending questions
+export class GroqReceiptProvider implements ReceiptProvider, QueryProvider {
+  public readonly name = "groq";
+  private groq: Groq;
+  private model: string;
+
+  constructor(apiKey: string | undefined = process.env.GROQ_API_KEY, model: string = DEFAULT_GROQ_MODEL) {
+    this.groq = new Groq({ apiKey });
+    this.model = model;
+  }
+
+  public async extract(request: ReceiptExtractionRequest): Promise<string> {
+    return this.chat(chatMessages(request), request.temperature, request.maxTokens);
+  }
+
+  public async complete(request: QueryCompletionRequest): Promise<string> {
+    return this.chat(textMessages(request), request.temperature, request.maxTokens);
+  }
+
+  private async chat(messages: object[], temperature: number, maxTokens: number): Promise<string> {
+    const completion = await this.groq.chat.completions.create({
+      model: this.model,
+      temperature,
+      max_completion_tokens: maxTokens,
+      top_p: 1,
+      stream: false,
+      messages,
+    } as any);
+    return completion?.choices?.[0]?.message?.content || "";
+  }
+}
+
+// Any server speaking the OpenAI chat completions API with image input (Ollama, LM Studio, vLLM,
+// OpenAI itself). `baseUrl` is the part before /chat/completions.
+export class OpenAICompatibleReceiptProvider implements ReceiptProvider, QueryProvider {
+  public readonly name = "openai";
+  private baseUrl: string;
+  private model: string;
+  private apiKey: string;
+
+  constructor(baseUrl: string, model: string, apiKey: string = "") {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  public async extract(request: ReceiptExtractionRequest): Promise<string> {
+    return this.chat(chatMessages(request), request.temperature, request.maxTokens);
+  }
+
+  public async complete(request: QueryCompletionRequest): Promise<string> {
+    return this.chat(textMessages(request), request.temperature, request.maxTokens);
+  }
+
+  private async chat(messages: object[], temperature: number, maxTokens: number): Promise<string> {
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature,
+        max_tokens: maxTokens,
+        stream: false,
+        messages,
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`Model request failed: ${res.status} ${await res.text()}`);
+    }
+    const body: any = await res.json();
+    return body?.choices?.[0]?.message?.content || "";
+  }
+}
+
+// Fixed replies with no network access, for tests and offline development. Every photo reads as
+// the same receipt; pass your own responses (objects are sent back as JSON) to script other cases.
+export class FixtureReceiptProvider implements ReceiptProvider {
+  public readonly name = "fixture";
+  private responses: { [kind in ReceiptExtractionKind]?: string | object };
+
+  constructor(responses: { [kind in ReceiptExtractionKind]?: string | object } = SAMPLE_RECEIPT) {
+    this.responses = responses;
+  }
+
+  public async extract(request: ReceiptExtractionRequest): Promise<string> {
+    const response = this.responses[request.kind] ?? "";
+    return typeof response === "string" ? response : JSON.stringify(response);
+  }
+}
+
+// Pick the provider from RECEIPT_PROVIDER ("groq" by default, "openai" or "fixture")
+export function createReceiptProvider(): ReceiptProvider {
+  const provider = (process.env.RECEIPT_PROVIDER || "groq").toLowerCase();
+  const model = process.env.RECEIPT_MODEL || "";
+
+  if (provider === "openai") {
+    if (!model) console.warn("RECEIPT_MODEL is not set for the openai receipt provider; the server's default model will be asked for.");
+    return new OpenAICompatibleReceiptProvider(
+      process.env.RECEIPT_API_URL || DEFAULT_OPENAI_URL,
+      model,
+      process.env.RECEIPT_API_KEY || ""
+    );
+  }
+
+  if (provider === "fixture") {
+    const path = (process.env.RECEIPT_FIXTURE_PATH || "").trim();
+    if (path) {
+      try {
+        return new FixtureReceiptProvider(JSON.parse(readFileSync(path, "utf8")));
+      } catch (e) {
+        console.warn(`RECEIPT_FIXTURE_PATH ${path} could not be read. Using the sample receipt:`, (e as any)?.message || e);
+      }
+    }
+    return new FixtureReceiptProvider();
+  }
+
+  if (provider !== "groq") console.warn(`Unknown RECEIPT_PROVIDER "${provider}". Using Groq.`);
+  return new GroqReceiptProvider(process.env.GROQ_API_KEY, model || DEFAULT_GROQ_MODEL);
+}
+
+// Model for spending questions. QUERY_PROVIDER, QUERY_MODEL, QUERY_API_URL and QUERY_API_KEY work
+// like their RECEIPT_ counterparts, which are used when QUERY_PROVIDER is not set. Null (built-in
+// parser only) for the fixture provider or when Groq has no API key.
+export function createQueryProvider(): QueryProvider | null {
+  const own = !!process.env.QUERY_PROVIDER;
+  const setting = (key: string) => (own ? process.env[`QUERY_${key}`] : process.env[`RECEIPT_${key}`]) || "";
+  const provider = (setting("PROVIDER") || "groq").toLowerCase();
+  const model = setting("MODEL");
+
+  if (provider === "openai") {
+    return new OpenAICompatibleReceiptProvider(setting("API_URL") || DEFAULT_OPENAI_URL, model, setting("API_KEY"));
+  }
+  if (provider === "fixture") return null;
+  if (provider !== "groq") console.warn(`Unknown QUERY_PROVIDER "${provider}". Using Groq.`);
+  if (!process.env.GROQ_API_KEY) return null;
+  return new GroqReceiptProvider(process.env.GROQ_API_KEY, model || DEFAULT_GROQ_MODEL);
+}
@@ -0,0 +1,264 @@
+import type { Client, Message } from "../types/wa";
+import type { RecurringFrequency, RecurringRule } from "../types/types";
+import { RecurringExpense } from "../models/ExpenseModel";
+import { ExpenseService } from "./ExpenseService";
+import { MongoService } from "./MongoService";
+import { CategoryService } from "./CategoryService";
+import { DateService } from "./DateService";
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export class RecurringService {
+  private client: Client;
+  private expenseService: ExpenseService;
+  private mongoService: MongoService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(client: Client, expenseService: ExpenseService, mongoService: MongoService) {
+    this.client = client;
+    this.expenseService = expenseService;
+    this.mongoService = mongoService;
+  }
+
+  // Parse "Repeat Netflix 15 monthly on 5th" / "Repeat Gym 50 weekly on monday" / "Repeat Tea 20 daily".
+  // Frequency defaults to monthly and the schedule day defaults to `today`.
+  public static parseRepeatCommand(text: string, today: string): RecurringRule | null {
+    let body = (text || "").trim().replace(/^repeat\s+/i, "");
+    if (!body) return null;
+
+    let frequency: RecurringFrequency | null = null;
+    const freqMatch = body.match(/\b(daily|weekly|monthly|yearly|annually|every\s+(?:day|week|month|year))\b/i);
+    if (freqMatch) {
+      const word = freqMatch[1]!.toLowerCase();
+      if (word.includes("day") || word === "daily") frequency = "daily";
+      else if (word.includes("week")) frequency = "weekly";
+      else if (word.includes("year") || word === "annually") frequency = "yearly";
+      else frequency = "monthly";
+      body = (body.slice(0, freqMatch.index) + " " + body.slice(freqMatch.index! + freqMatch[0].length)).trim();
+    }
+
+    const [ty, tm, td] = today.split("-").map((p) => parseInt(p, 10));
+    let dayOfMonth = td!;
+    let month = tm!;
+    let dayOfWeek = new Date(Date.UTC(ty!, tm! - 1, td!)).getUTCDay();
+
+    // Optional schedule: "on 5th", "on the 1st", "on monday", "on 5 mar"
+    const onMatch = body.match(/\s+on\s+(?:the\s+)?(.+)$/i);
+    if (onMatch) {
+      const when = onMatch[1]!.trim().toLowerCase();
+      const weekday = WEEKDAYS.findIndex((d) => when === d || when === d.slice(0, 3));
+      const dayMatch = when.match(/^(\d{1,2})(?:st|nd|rd|th)?(?:\s+([a-z]+))?$/);
+      if (weekday >= 0) {
+        dayOfWeek = weekday;
+        if (!frequency) frequency = "weekly";
+      } else if (dayMatch) {
+        dayOfMonth = parseInt(dayMatch[1]!, 10);
+        if (dayOfMonth < 1 || dayOfMonth > 31) return null;
+        if (dayMatch[2]) {
+          const monthIndex = MONTHS.findIndex((m) => dayMatch[2] === m || dayMatch[2] === m.slice(0, 3));
+          if (monthIndex < 0) return null;
+          month = monthIndex + 1;
+          if (!frequency) frequency = "yearly";
+        }
+      } else {
+        return null;
+      }
+      body = body.slice(0, onMatch.index).trim();
+    }
+
+    // Remaining text is "<item> <price>" with the price as the last number
+    const numMatch = body.match(/(\d+(?:[\.,]\d+)?)(?!.*\d)/);
+    if (!numMatch) return null;
+    const price = Math.round(parseFloat(numMatch[1]!.replace(",", ".")) * 100) / 100;
+    if (isNaN(price) || price <= 0) return null;
+    const item = (body.slice(0, numMatch.index) + " " + body.slice(numMatch.index! + numMatch[0].length))
+      .replace(/\s{2,}/g, " ")
+      .trim();
+    if (!item) return null;
+
+    const rule: RecurringRule = { item, price, frequency: frequency || "monthly" };
+    if (rule.frequency === "weekly") rule.dayOfWeek = dayOfWeek;
+    if (rule.frequency === "monthly" || rule.frequency === "yearly") rule.dayOfMonth = dayOfMonth;
+    if (rule.frequency === "yearly") rule.month = month;
+    return rule;
+  }
+
+  // Build a UTC date for year/monthIndex, clamping the day to the month length (31st -> 30th/28th)
+  private static clampedDate(year: number, monthIndex: number, day: number): Date {
+    const first = new Date(Date.UTC(year, monthIndex, 1));
+    const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), Math.min(day, lastDay)));
+  }
+
+  // First scheduled date strictly after `after` (YYYY-MM-DD)
+  public static nextRunDate(rule: RecurringRule, after: string): string {
+    const [y, m, d] = after.split("-").map((p) => parseInt(p, 10));
+    const base = new Date(Date.UTC(y!, m! - 1, d!));
+    let next: Date;
+    switch (rule.frequency) {
+      case "daily":
+        next = new Date(Date.UTC(y!, m! - 1, d! + 1));
+        break;
+      case "weekly": {
+        const diff = ((rule.dayOfWeek ?? base.getUTCDay()) - base.getUTCDay() + 7) % 7 || 7;
+        next = new Date(Date.UTC(y!, m! - 1, d! + diff));
+        break;
+      }
+      case "yearly": {
+        const monthIndex = (rule.month ?? m!) - 1;
+        next = this.clampedDate(y!, monthIndex, rule.dayOfMonth ?? d!);
+        if (next <= base) next = this.clampedDate(y! + 1, monthIndex, rule.dayOfMonth ?? d!);
+        break;
+      }
+      case "monthly":
+      default: {
+        next = this.clampedDate(y!, m! - 1, rule.dayOfMonth ?? d!);
+        if (next <= base) next = this.clampedDate(y!, m!, rule.dayOfMonth ?? d!);
+        break;
+      }
+    }
+    return next.toISOString().slice(0, 10);
+  }
+
+  public static describeSchedule(rule: RecurringRule): string {
+    const ordinal = (n: number) => {
+      const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+      return `${n}${suffix}`;
+    };
+    switch (rule.frequency) {
+      case "daily":
+        return "daily";
+      case "weekly": {
+        const day = WEEKDAYS[rule.dayOfWeek ?? 0]!;
+        return `weekly on ${day.charAt(0).toUpperCase()}${day.slice(1)}`;
+      }
+      case "yearly": {
+        const month = MONTHS[(rule.month ?? 1) - 1]!;
+        return `yearly on ${ordinal(rule.dayOfMonth ?? 1)} ${month.charAt(0).toUpperCase()}${month.slice(1, 3)}`;
+      }
+      case "monthly":
+      default:
+        return `monthly on ${ordinal(rule.dayOfMonth ?? 1)}`;
+    }
+  }
+
+  // "Repeat Netflix 15 monthly on 5th"
+  public async handleRepeatCommand(messageBody: string, originalMessage: Message): Promise<void> {
+    const userId = originalMessage.from;
+    const today = DateService.today(await this.mongoService.getUserTimezone(userId));
+    const rule = RecurringService.parseRepeatCommand(messageBody, today);
+    if (!rule) {
+      await this.client.sendMessage(
+        userId,
+        "❌ Couldn't read that. Examples:\nRepeat Netflix 15 monthly on 5th\nRepeat Rent 20000 monthly on 1st\nRepeat Gym 50 weekly on Monday"
+      );
+      return;
+    }
+
+    const [currency, categories, learned] = await Promise.all([
+      this.mongoService.getUserCurrency(userId),
+      this.mongoService.getUserCategories(userId),
+      this.mongoService.getCategoryMappings(userId),
+    ]);
+    const category = CategoryService.classify(rule.item, categories, learned);
+    const nextRunDate = RecurringService.nextRunDate(rule, today);
+    const created = await this.mongoService.createRecurringExpense(userId, {
+      ...rule,
+      currency,
+      category,
+      nextRunDate,
+    });
+
+    await this.client.sendMessage(
+      userId,
+      `🔁 *#R${created.number} ${rule.item}: ${rule.price} ${currency}* — ${RecurringService.describeSchedule(rule)}\n` +
+      `Next entry: ${nextRunDate}\nSee all: Recurring · Stop: #R${created.number} stop`
+    );
+  }
+
+  // "Recurring"
+  public async handleListCommand(originalMessage: Message): Promise<void> {
+    const userId = originalMessage.from;
+    const rules = await this.mongoService.getActiveRecurringExpenses(userId);
+    if (!rules.length) {
+      await this.client.sendMessage(userId, "No recurring expenses yet.\nAdd one like: Repeat Netflix 15 monthly on 5th");
+      return;
+    }
+    const lines = rules.map(
+      (r) => `#R${r.number} ${r.item}: ${r.price} ${r.currency} · ${RecurringService.describeSchedule(r)} · next ${r.nextRunDate}`
+    );
+    await this.client.sendMessage(userId, `🔁 *Recurring expenses:*\n${lines.join("\n")}\n\nStop one: #R1 stop`);
+  }
+
+  // "#R1 stop"
+  public async handleStopCommand(messageBody: string, originalMessage: Message): Promise<void> {
+    const userId = originalMessage.from;
+    const match = messageBody.trim().match(/^#r(\d+)\s+(?:stop|cancel|delete)$/i);
+    if (!match) {
+      await this.client.sendMessage(userId, "❌ Invalid format. Use: #R1 stop");
+      return;
+    }
+    const number = parseInt(match[1]!, 10);
+    const stopped = await this.mongoService.stopRecurringExpense(userId, number);
+    if (!stopped) {
+      await this.client.sendMessage(userId, `❌ Recurring expense #R${number} not found.`);
+      return;
+    }
+    await this.client.sendMessage(userId, `⏹️ Stopped #R${number} ${stopped.item}. Past entries are kept.`);
+  }
+
+  public start(intervalMs: number = CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+    void this.postDueExpenses();
+    this.timer = setInterval(() => void this.postDueExpenses(), intervalMs);
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Post every occurrence that is due (catching up on missed runs) and advance each schedule
+  public async postDueExpenses(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+    let posted = 0;
+    try {
+      // Users ahead of UTC may already be on tomorrow's date; each rule is then checked in its owner's zone
+      const latestToday = DateService.addDays(DateService.today(), 1);
+      const due = await RecurringExpense.find({ active: true, nextRunDate: { $lte: latestToday } });
+      for (const rule of due) {
+        const today = DateService.today(await this.mongoService.getUserTimezone(rule.userId));
+        let runDate = rule.nextRunDate;
+        while (runDate <= today) {
+          const next = RecurringService.nextRunDate(rule, runDate);
+          // Claim the occurrence atomically so overlapping runs never post it twice
+          const claimed = await RecurringExpense.findOneAndUpdate(
+            { _id: rule._id, active: true, nextRunDate: runDate },
+            { nextRunDate: next, lastPostedAt: new Date() }
+          );
+          if (!claimed) break;
+          try {
+            await this.expenseService.postRecurringExpense(rule, runDate, this.mongoService);
+            posted++;
+          } catch (e) {
+            console.error(`❌ Failed to post recurring expense #R${rule.number} for ${rule.userId}:`, e);
+          }
+          runDate = next;
+        }
+      }
+    } catch (e) {
+      console.error("❌ Error posting recurring expenses:", e);
+    } finally {
+      this.running = false;
+    }
+    if (posted) console.log(`🔁 Posted ${posted} recurring expense(s)`);
+    return posted;
+  }
+}
@@ -0,0 +1,79 @@
+import type { ReportFormat, ReportRequest } from "../types/types";
+import { DateService } from "./DateService";
+
+// Format keywords; "excel"/"sheet" are spelled out by users asking for the spreadsheet
+const FORMAT_PATTERNS: [ReportFormat, RegExp][] = [
+  ["csv", /\bcsv\b/],
+  ["json", /\bjson\b/],
+  ["ofx", /\b(?:ofx|qfx)\b/],
+  ["qif", /\bqif\b/],
+  ["xlsx", /\b(?:xlsx|excel|sheets?)\b/],
+];
+
+const SPREADSHEET_PHRASES = [
+  "send expense info",
+  "give excel file",
+  "give my expense data",
+  "expnese in excel",
+  "expnese in sheet",
+  "excel sheet",
+  "google sheets",
+  "monthly spend data",
+  "full expense data",
+  "all expense",
+  "report",
+  "this month",
+  "this year",
+];
+
+// Shared by the Cloud API server and WhatsAppClient so every report entry point reads periods the same way
+export class ReportRequestParser {
+  // "Export csv March", "Export json", "Export ofx this year"
+  public static isExportCommand(text: string): boolean {
+    return /^export\b/i.test((text || "").trim());
+  }
+
+  // Older phrasings that ask for the spreadsheet ("give excel file", "all expense", "report this month")
+  public static isSpreadsheetRequest(text: string): boolean {
+    const lower = (text || "").toLowerCase();
+    return SPREADSHEET_PHRASES.some((phrase) => lower.includes(phrase));
+  }
+
+  // Format and date range from a report/export message. Any range DateService.parseDateRange
+  // understands selects the period ("last 30 days", "1 Mar - 15 Apr", "Q1 2025", "March");
+  // "report"/"export" alone means the current month and any other spreadsheet request means all expenses.
+  public static parse(text: string, today: string): ReportRequest {
+    const lower = (text || "").toLowerCase();
+    const format = FORMAT_PATTERNS.find(([, pattern]) => pattern.test(lower))?.[0] || "xlsx";
+
+    const range = DateService.parseDateRange(lower, today);
+    if (range) return { format, from: range.from, to: range.to, key: this.fileKey(range.from, range.to, today), label: range.label };
+
+    if (/\b(?:report|export)\b/.test(lower)) {
+      const month = today.slice(0, 7);
+      const { from, to } = DateService.monthRange(month);
+      return { format, from, to, key: month, label: `${DateService.monthName(month)} ${month.slice(0, 4)}` };
+    }
+    return { format, from: null, to: null, key: "all", label: "all time" };
+  }
+
+  // File name part: YYYY-MM for a month, YYYY-Q1 for a quarter, YYYY for a year (current ones may
+  // end today), otherwise both dates
+  private static fileKey(from: string, to: string, today: string): string {
+    const month = from.slice(0, 7);
+    const year = from.slice(0, 4);
+    if (from === `${month}-01` && (to === DateService.monthRange(month).to || (to === today && to.startsWith(month)))) return month;
+    const quarterStart = ["01", "04", "07", "10"].indexOf(from.slice(5, 7));
+    if (quarterStart >= 0 && from === `${month}-01`) {
+      const quarterEnd = DateService.monthRange(DateService.addMonths(from, 2).slice(0, 7)).to;
+      if (to === quarterEnd || (to === today && to <= quarterEnd && to > from)) return `${year}-Q${quarterStart + 1}`;
+    }
+    if (from === `${year}-01-01` && (to === `${year}-12-31` || (to === today && to.startsWith(year)))) return year;
+    return from === to ? from : `${from}_${to}`;
+  }
+
+  // Mongo filter selecting the request's expenses; YYYY-MM-DD strings compare in date order
+  public static expenseFilter(userId: string, request: ReportRequest): Record<string, any> {
+    return request.from && request.to ? { userId, date: { $gte: request.from, $lte: request.to } } : { userId };
+  }
+}
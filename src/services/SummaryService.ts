@@ -0,0 +1,133 @@
+import { Client, Message, MessageMedia } from "../types/wa";
+import type { MonthlySummary } from "../types/types";
+import { MongoService } from "./MongoService";
+import { DateService } from "./DateService";
+import { PdfService } from "./PdfService";
+
+export class SummaryService {
+  private client: Client;
+  private mongoService: MongoService;
+
+  constructor(client: Client, mongoService: MongoService) {
+    this.client = client;
+    this.mongoService = mongoService;
+  }
+
+  // Gather the month's totals, budget, top items, per-day/per-category spending and last month's total.
+  // For the month in progress, last month is compared over the same number of days.
+  public async buildMonthlySummary(userId: string, month: string, today: string): Promise<MonthlySummary> {
+    const { from, to: monthEnd } = DateService.monthRange(month);
+    const partial = month === today.slice(0, 7);
+    const to = partial ? today : monthEnd;
+
+    const [result, breakdown, budget] = await Promise.all([
+      this.mongoService.queryExpenses(userId, { metric: "top", from, to, label: "", limit: 5 }),
+      this.mongoService.getSpendingBreakdown(userId, from, to),
+      this.mongoService.getMonthlyBudget(userId, month),
+    ]);
+
+    const previousMonth = DateService.addMonths(from, -1).slice(0, 7);
+    const previousRange = DateService.monthRange(previousMonth);
+    // addMonths clamps, so 31 Mar compares with 28/29 Feb
+    const previousTo = partial ? DateService.addMonths(today, -1) : previousRange.to;
+    const previous = await this.mongoService.queryExpenses(userId, {
+      metric: "total",
+      from: previousRange.from,
+      to: previousTo,
+      label: "",
+    });
+
+    const biggestDay = breakdown.byDay.reduce<{ date: string; total: number } | null>(
+      (best, d) => (!best || d.total > best.total ? d : best),
+      null
+    );
+
+    return {
+      month,
+      label: `${DateService.monthName(month)} ${month.slice(0, 4)}`,
+      currency: result.currency,
+      total: result.total,
+      count: result.count,
+      budget,
+      remaining: Math.round((budget - result.total) * 100) / 100,
+      topItems: result.topItems,
+      byCategory: breakdown.byCategory,
+      byDay: breakdown.byDay,
+      biggestDay,
+      previous: { label: DateService.monthName(previousMonth), total: previous.total, partial },
+    };
+  }
+
+  private money(amount: number): string {
+    const s = (Math.round(amount * 100) / 100).toFixed(2);
+    return s.replace(/\.00$/, "").replace(/(\.\d)0$/, "$1");
+  }
+
+  public formatSummaryText(summary: MonthlySummary): string {
+    const cur = summary.currency;
+    let reply = `📊 *${summary.label} summary*\n`;
+    if (summary.budget > 0) {
+      const pct = Math.round((summary.total / summary.budget) * 100);
+      reply += `Spent: *${this.money(summary.total)} / ${this.money(summary.budget)} ${cur}* (${pct}%)\n`;
+      reply += summary.remaining >= 0
+        ? `Remaining: ${this.money(summary.remaining)} ${cur}\n`
+        : `⚠️ Over budget by ${this.money(-summary.remaining)} ${cur}\n`;
+    } else {
+      reply += `Spent: *${this.money(summary.total)} ${cur}* (no budget set)\n`;
+    }
+    reply += `🧾 ${summary.count} expense${summary.count === 1 ? "" : "s"}\n`;
+
+    if (summary.topItems.length) {
+      reply += `\n🏆 *Top items*\n`;
+      reply += summary.topItems
+        .slice(0, 5)
+        .map((t, i) => `${i + 1}. ${t.item}: ${this.money(t.total)} ${cur}${t.count > 1 ? ` (${t.count}×)` : ""}`)
+        .join("\n");
+      reply += "\n";
+    }
+
+    if (summary.biggestDay) {
+      reply += `\n📅 Biggest day: ${DateService.formatShort(summary.biggestDay.date)} · ${this.money(summary.biggestDay.total)} ${cur}\n`;
+    }
+
+    const diff = Math.round((summary.total - summary.previous.total) * 100) / 100;
+    const period = summary.previous.partial ? `${summary.previous.label} (same days)` : summary.previous.label;
+    if (summary.previous.total > 0) {
+      const pct = Math.round((diff / summary.previous.total) * 1000) / 10;
+      const arrow = diff > 0 ? "📈" : diff < 0 ? "📉" : "➖";
+      reply += `${arrow} vs ${period}: ${diff >= 0 ? "+" : "-"}${this.money(Math.abs(diff))} ${cur} (${pct >= 0 ? "+" : ""}${pct}%)`;
+    } else {
+      reply += `➖ No spending recorded in ${period} to compare with.`;
+    }
+    return reply;
+  }
+
+  // "Summary", "Summary March", "Summary last month": text digest followed by the PDF report
+  public async sendSummary(messageBody: string, originalMessage: Message): Promise<void> {
+    const userId = originalMessage.from;
+    try {
+      const today = DateService.today(await this.mongoService.getUserTimezone(userId));
+      const rest = (messageBody || "").trim().replace(/^summary\s*/i, "");
+      const range = rest ? DateService.parseDateRange(rest, today) : null;
+      if (rest && !range) {
+        await this.client.sendMessage(userId, "❌ Couldn't read that month. Try: Summary, Summary last month or Summary March 2025");
+        return;
+      }
+      const month = range ? range.from.slice(0, 7) : today.slice(0, 7);
+
+      const summary = await this.buildMonthlySummary(userId, month, today);
+      if (!summary.count) {
+        await this.client.sendMessage(userId, `📊 No expenses recorded for ${summary.label} yet.`);
+        return;
+      }
+      await this.client.sendMessage(userId, this.formatSummaryText(summary));
+
+      const pdf = PdfService.monthlySummary(summary);
+      const media = new MessageMedia("application/pdf", pdf.toString("base64"), `summary_${month}.pdf`);
+      await this.client.sendMessage(userId, media);
+    } catch (error) {
+      console.error("❌ Error sending summary:", error);
+      await this.client.sendMessage(userId, "Sorry, there was an error generating your summary. Please try again.");
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { DeletedExpense, Expense, Receipt } from "../models/ExpenseModel";
+import { imageStorageFor } from "./ImageStorage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The TTL index on DeletedExpense removes trashed expenses after 30 days; their photos go a day earlier
+// so the stored file is never left without a document pointing at it
+const IMAGE_EXPIRY_DAYS = 29;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export class TrashService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  public start(intervalMs: number = CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+    void this.deleteExpiringImages();
+    this.timer = setInterval(() => void this.deleteExpiringImages(), intervalMs);
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Delete the stored photos of trashed expenses that are about to expire. A photo still used by a
+  // live expense (split receipts share one) or by a more recently trashed one is only unlinked.
+  public async deleteExpiringImages(now: Date = new Date()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+    let deleted = 0;
+    try {
+      const cutoff = new Date(now.getTime() - IMAGE_EXPIRY_DAYS * DAY_MS);
+      const expiring = await DeletedExpense.find({
+        deletedAt: { $lte: cutoff },
+        "expense.imageRef": { $exists: true, $ne: null },
+      });
+      for (const trashed of expiring) {
+        const provider = trashed.expense.imageProvider;
+        const ref = trashed.expense.imageRef!;
+        try {
+          const inUse =
+            (await Expense.exists({ imageProvider: provider, imageRef: ref })) ||
+            (await DeletedExpense.exists({
+              _id: { $ne: trashed._id },
+              deletedAt: { $gt: cutoff },
+              "expense.imageProvider": provider,
+              "expense.imageRef": ref,
+            }));
+          if (!inUse) {
+            // Can't reach the storage it was kept in; leave it for an operator rather than losing the ref
+            const storage = imageStorageFor(provider);
+            if (!storage) continue;
+            await storage.delete(ref);
+            await Receipt.updateMany({ imageProvider: provider, imageRef: ref }, { $unset: { imageUrl: 1, imageRef: 1, imageProvider: 1 } });
+            deleted++;
+          }
+          await DeletedExpense.updateOne(
+            { _id: trashed._id },
+            {
+              $set: { "expense.imageDeletedAt": now },
+              $unset: { "expense.imageUrl": 1, "expense.imageRef": 1, "expense.imageProvider": 1 },
+            }
+          );
+        } catch (e) {
+          console.error(`❌ Failed to delete ${provider} image ${ref} of trashed expense #${trashed.number}:`, e);
+        }
+      }
+    } catch (e) {
+      console.error("❌ Error deleting images of expiring trash:", e);
+    } finally {
+      this.running = false;
+    }
+    return deleted;
+  }
+}
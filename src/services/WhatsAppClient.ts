@@ -4,6 +4,8 @@ import { ExpenseService } from "./ExpenseService";
 import { ExcelService } from "./ExcelService";
 import { MongoService } from "./MongoService";
 import { CurrencyService } from "./CurrencyService";
+import { DateService } from "./DateService";
+import { ReportRequestParser } from "./ReportRequestParser";
 import mongoose from "mongoose";
 import type { Client as WaClient, Message as WaMessage } from "../types/wa";
 import { MessageMedia as WaMessageMedia } from "../types/wa";
@@ -308,7 +310,7 @@ export class WhatsAppClient {
         return;
       }
 
-      // Handle report generation (supports 'report' and 'report <month> [year]')
+      // Handle report generation ('report', 'report march 2025', 'report last 30 days', 'report 1 mar - 15 apr')
       if (userState === "active" && messageText.startsWith("report")) {
         await this.handleReportGeneration(userId, this.toMinimalMessage(message));
         return;
@@ -372,9 +374,12 @@ export class WhatsAppClient {
           await this.mongoService.setMonthlyBudgetWithCurrency(userId, numeric, userCurrency);
           await this.mongoService.setUserState(userId, "active");
 
-          const currentMonthName = new Date().toLocaleString("default", { month: "long" });
-          const currentYear = new Date().getFullYear();
-          const dailyLimit = CurrencyService.getDailyLimit(numeric);
+          // Month and daily limit follow the user's calendar, as in the Cloud API server
+          const timeZone = await this.mongoService.getUserTimezone(userId);
+          const today = DateService.today(timeZone);
+          const currentMonthName = DateService.monthName(today.slice(0, 7));
+          const currentYear = parseInt(today.slice(0, 4), 10);
+          const dailyLimit = CurrencyService.getDailyLimit(numeric, timeZone);
 
           console.log(`📤 Confirmed budget setup for: ${userId}`);
           await this.client.sendMessage(
@@ -542,11 +547,11 @@ export class WhatsAppClient {
           userCurrency
         );
 
-        const currentMonth = new Date().toLocaleString("default", {
-          month: "long",
-        });
-        const currentYear = new Date().getFullYear();
-        const dailyLimit = CurrencyService.getDailyLimit(newBudget);
+        const timeZone = await this.mongoService.getUserTimezone(userId);
+        const today = DateService.today(timeZone);
+        const currentMonth = DateService.monthName(today.slice(0, 7));
+        const currentYear = parseInt(today.slice(0, 4), 10);
+        const dailyLimit = CurrencyService.getDailyLimit(newBudget, timeZone);
 
         console.log(`📤 Sending budget update confirmation to: ${userId}`);
         await this.client.sendMessage(
@@ -607,7 +612,7 @@ export class WhatsAppClient {
     message: WaMessage
   ): Promise<void> {
     try {
-      const helpMessage = `*Quick Commands:*\n\n📝 *Add:* Grocery 100\n✏️ *Edit:* #001 Edit 80\n🗑️ *Delete:* #001 Delete\n💰 *Budget:* Budget 30000\n💱 *Currency:* Currency BDT\n📊 *Report:* Report (current month) or Report January [2025]\n📷 *Scan:* Send a receipt photo (optional caption like Food)\n🙋 *Help:* Help`;
+      const helpMessage = `*Quick Commands:*\n\n📝 *Add:* Grocery 100\n✏️ *Edit:* #001 Edit 80\n🗑️ *Delete:* #001 Delete\n💰 *Budget:* Budget 30000\n💱 *Currency:* Currency BDT\n📊 *Report:* Report (current month), Report January 2025, Report last 30 days or Report 1 Mar - 15 Apr\n📷 *Scan:* Send a receipt photo (optional caption like Food)\n🙋 *Help:* Help`;
 
       console.log(`📤 Sending help message to: ${userId}`);
       await this.client.sendMessage(userId, helpMessage);
@@ -625,34 +630,13 @@ export class WhatsAppClient {
     message: WaMessage
   ): Promise<void> {
     try {
-      const raw = (message.body || "").toLowerCase();
-      const monthNames = [
-        "january","february","march","april","may","june",
-        "july","august","september","october","november","december"
-      ];
-      const now = new Date();
-      let targetMonthIndex: number | null = null;
-      for (let i = 0; i < monthNames.length; i++) {
-        const full = monthNames[i];
-        const short = full.slice(0,3);
-        if (raw.includes(full) || raw.match(new RegExp(`\\b${short}\\b`))) {
-          targetMonthIndex = i; break;
-        }
-      }
-      const yearMatch = raw.match(/\b(20\d{2}|19\d{2})\b/);
-      let targetYear: number = yearMatch ? parseInt(yearMatch[1]!, 10) : now.getFullYear();
-      const currentMonthName = now.toLocaleString("default", { month: "long" });
-      const currentYear = now.getFullYear();
-
-      const monthLabel = targetMonthIndex !== null
-        ? monthNames[targetMonthIndex][0].toUpperCase() + monthNames[targetMonthIndex].slice(1)
-        : currentMonthName;
-      const yearLabel = targetMonthIndex !== null ? targetYear : currentYear;
+      const today = DateService.today(await this.mongoService.getUserTimezone(userId));
+      const request = ReportRequestParser.parse(message.body || "", today);
 
       console.log(`📤 Sending report generation message to: ${userId}`);
       await this.client.sendMessage(
         userId,
-        `📊 Generating your report for ${monthLabel} ${yearLabel} ⏳✨`
+        `📊 Generating your report for ${request.label} ⏳✨`
       );
 
       // Generate and send the Excel report
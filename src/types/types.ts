@@ -1,11 +1,33 @@
 export interface ExpenseData {
   item: string;
+  category?: string;
   price: number;
   currency: string;
   date: string;
   imageUrl?: string;
-  imageProvider?: 'drive' | 'cloudinary';
+  imageProvider?: ImageProvider;
   imageRef?: string;
+  imageHash?: string; // perceptual hash (hex) reported by the image host, for spotting re-sent receipts
+  imageDigest?: string; // SHA-256 of the image bytes
+  recurringId?: string;
+  // Set when the expense was entered in another currency; `price` is then the converted amount
+  originalPrice?: number;
+  originalCurrency?: string;
+  exchangeRate?: number;
+  receiptId?: string;
+  // Receipt details kept for reconciling against card and wallet statements
+  merchant?: string;
+  paymentMethod?: string; // canonical name, e.g. Cash, Card, bKash
+  receiptDate?: string; // YYYY-MM-DD printed on the receipt; `date` is when it was recorded
+  location?: ExpenseLocation;
+}
+
+// Shared WhatsApp location attached to an expense
+export interface ExpenseLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
 }
 
 export interface GroqExpenseResponse {
@@ -13,6 +35,19 @@ export interface GroqExpenseResponse {
   price?: number;
   currency?: string;
   error?: string;
+  // Extra fields the vision model reports so the scan can be checked
+  date?: string; // YYYY-MM-DD as printed on the receipt
+  merchant?: string;
+  paymentMethod?: string;
+  lineTotals?: number[];
+  tax?: number;
+  discount?: number;
+  confidence?: number; // model's own 0..1 estimate
+}
+
+export interface OcrConfidence {
+  confidence: number; // 0..1
+  reasons: string[]; // short user-facing notes on what looked off
 }
 
 export interface MonthlyTotal {
@@ -23,7 +58,213 @@ export interface MonthlyTotal {
   expenseCount: number;
 }
 
+// Source of exchange rates. `getRate` returns how many units of `to` one unit of `from` buys,
+// or null when the pair is unknown.
+export interface ExchangeRateProvider {
+  readonly name: string;
+  getRate(from: string, to: string): Promise<number | null>;
+}
+
+// Audit trail of changes to expenses
+export type ExpenseChangeAction = "create" | "edit" | "delete" | "restore";
+
+// An expense's fields at one point in time, as kept in the history log and the trash
+export type ExpenseSnapshot = ExpenseData & { number: number; imageDeletedAt?: Date; imageCompressedAt?: Date };
+
+// What made a change. Entries sharing an actionId came from one command and are undone together.
+export interface ExpenseChangeSource {
+  text?: string; // the message that made the change
+  actionId?: string;
+  automatic?: boolean; // posted by the scheduler or a currency conversion, not a user command; Undo skips these
+}
+
+// What Undo reverted: the kind of command and the expenses it touched. Skipped ones had changed or expired since.
+export interface UndoResult {
+  action: ExpenseChangeAction;
+  reverted: { number: number; item: string }[];
+  skipped: { number: number; item: string }[];
+}
+
+// Where receipt photos are kept; stored on each expense so old images stay reachable after switching
+export type ImageProvider = "cloudinary" | "drive" | "local" | "s3";
+
+export interface StoredImage {
+  provider: ImageProvider;
+  ref: string; // backend key: Cloudinary public_id, Drive fileId, file path or object key
+  url: string; // stored as imageUrl
+  phash?: string; // perceptual hash, when the backend computes one
+}
+
+// Receipt image backend. `getUrl` returns a URL the browser can open, or null when the image is only
+// reachable through `download` (private files the viewer route serves itself).
+export interface ImageStorage {
+  readonly provider: ImageProvider;
+  upload(options: { buffer: Buffer; mimetype: string; filename: string; userId: string; date?: Date }): Promise<StoredImage>;
+  delete(ref: string): Promise<void>;
+  getUrl(ref: string): Promise<string | null>;
+  download(ref: string): Promise<{ data: Buffer; mimetype: string }>;
+  // Replace the stored image with a smaller copy; backends that can't resize leave this out
+  compress?(ref: string): Promise<StoredImage>;
+}
+
+// What happens to receipt photos once they are old: kept, deleted, or replaced with a smaller copy.
+// Set per deployment (IMAGE_RETENTION) and overridable per user.
+export type ImageRetention =
+  | { mode: "forever" }
+  | { mode: "delete" | "compress"; months: number };
+
+// What a receipt scan asks the vision model for: one expense (grand total) or every line item
+export type ReceiptExtractionKind = "expense" | "items";
+
+export interface ReceiptExtractionRequest {
+  kind: ReceiptExtractionKind;
+  imageDataUrl: string;
+  systemPrompt: string;
+  userText: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+// Vision model used to read receipt photos. `extract` returns the model's raw text reply (expected
+// to contain JSON); callers parse and validate it.
+export interface ReceiptProvider {
+  readonly name: string;
+  extract(request: ReceiptExtractionRequest): Promise<string>;
+}
+
+export interface QueryCompletionRequest {
+  systemPrompt: string;
+  userText: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+// Text model that turns spending questions into filters. `complete` returns the raw reply (expected
+// to contain JSON); QueryService validates it and falls back to its own parser.
+export interface QueryProvider {
+  readonly name: string;
+  complete(request: QueryCompletionRequest): Promise<string>;
+}
+
+export interface CategoryBudgetStatus {
+  category: string;
+  budget: number;
+  spent: number;
+  remaining: number;
+}
+
+export type RecurringFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface RecurringRule {
+  item: string;
+  price: number;
+  frequency: RecurringFrequency;
+  dayOfMonth?: number;
+  month?: number;
+  dayOfWeek?: number;
+}
+
+export type QueryMetric = "total" | "count" | "average" | "top";
+
+// A spending question such as "how much did I spend on food last week?"
+export interface ExpenseQuery {
+  metric: QueryMetric;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  label: string; // human-readable range, e.g. "last week"
+  category?: string;
+  keyword?: string; // matched against the item name
+  limit?: number; // number of items for "top"
+}
+
+export interface ExpenseQueryResult {
+  total: number;
+  count: number;
+  average: number;
+  currency: string;
+  topItems: { item: string; total: number; count: number }[];
+}
+
+// Everything the "Summary" digest and PDF report show for one month
+export interface MonthlySummary {
+  month: string; // YYYY-MM
+  label: string; // "October 2026"
+  currency: string;
+  total: number;
+  count: number;
+  budget: number;
+  remaining: number;
+  topItems: { item: string; total: number; count: number }[];
+  byCategory: { category: string; total: number }[];
+  byDay: { date: string; total: number }[];
+  biggestDay: { date: string; total: number } | null;
+  previous: { label: string; total: number; partial: boolean }; // same days of last month when `partial`
+}
+
+export type ReportFormat = "xlsx" | "csv" | "json" | "ofx" | "qif";
+
+// "Report March 2025", "Export csv last 30 days": file format plus the dates to include
+export interface ReportRequest {
+  format: ReportFormat;
+  from: string | null; // YYYY-MM-DD, inclusive; null for all expenses
+  to: string | null; // YYYY-MM-DD, inclusive
+  key: string; // YYYY-MM, YYYY, YYYY-MM-DD_YYYY-MM-DD or "all"; used in file names
+  label: string; // "March 2025", "last week", "all time"
+}
+
+// Parsed CSV/XLSX rows waiting for the user's YES before they are saved
+export interface PendingImport {
+  fileName: string;
+  rows: ExpenseData[]; // new rows only, already in the user's currency
+  duplicates: number; // rows matching an existing expense
+  skipped: number; // rows without a readable date/amount or without an exchange rate
+  credits?: number; // credits and refunds (amounts with the other sign than spending), left out
+  // Set when every numeric date in the file reads both ways (03/04/2025): `rows` are read day-first,
+  // these month-first. Replying MDY switches to them.
+  monthFirst?: { rows: ExpenseData[]; duplicates: number };
+}
+
+// Change applied to every expense selected by a bulk command ("#010-#015 delete", "#3,#7 category Food")
+export type BulkOperation =
+  | { kind: "delete" }
+  | { kind: "category"; category: string }
+  | { kind: "date"; date: string }
+  | { kind: "paymentMethod" | "merchant"; value: string | null }; // null clears the field
+
+export interface PendingBulkEdit {
+  numbers: number[]; // expenses shown in the preview
+  operation: BulkOperation;
+  command: string; // as typed, for the change log
+}
+
+export interface ReceiptLineItem {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number; // line total as printed, quantity × unitPrice before tax/discount
+}
+
+// Line items read from a receipt photo, waiting for the user to save all, save the total or drop lines
+export interface PendingReceipt {
+  date: string;
+  currency: string; // as printed on the receipt
+  items: ReceiptLineItem[];
+  tax: number;
+  discount: number;
+  total: number;
+  category?: string; // from the photo caption, e.g. "Split Groceries"
+  merchant?: string;
+  paymentMethod?: string;
+  receiptDate?: string;
+  imageUrl?: string;
+  imageProvider?: ImageProvider;
+  imageRef?: string;
+  imageHash?: string;
+  imageDigest?: string;
+  duplicateNote?: string; // shown in the preview when the receipt looks already saved
+}
+
 export interface IntentResult {
-  intent: "add_expense" | "update_expense" | "export_excel" | "other";
+  intent: "add_expense" | "update_expense" | "export_excel" | "query_expenses" | "other";
   data: any;
 }
@@ -15,6 +15,9 @@ export interface Message {
   from: string;
   body?: string;
   hasMedia?: boolean;
+  type?: 'text' | 'image' | 'document' | 'location';
+  filename?: string; // original file name of a document
+  location?: { latitude: number; longitude: number; name?: string; address?: string };
   downloadMedia?: () => Promise<MessageMedia | null>;
 }
 
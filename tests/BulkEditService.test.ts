@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { BulkEditService } from "../src/services/BulkEditService";
+
+describe("BulkEditService.parseNumbers", () => {
+  test("reads ranges and lists, sorted and without repeats", () => {
+    expect(BulkEditService.parseNumbers("#010-#015")).toEqual([10, 11, 12, 13, 14, 15]);
+    expect(BulkEditService.parseNumbers("#3,#7,#9")).toEqual([3, 7, 9]);
+    expect(BulkEditService.parseNumbers("#9, 3 , #3–#4")).toEqual([3, 4, 9]);
+  });
+
+  test("a reversed range is read low to high", () => {
+    expect(BulkEditService.parseNumbers("#15-#12")).toEqual([12, 13, 14, 15]);
+  });
+
+  test("null for unreadable selections", () => {
+    expect(BulkEditService.parseNumbers("#3,,#4")).toBeNull();
+    expect(BulkEditService.parseNumbers("#3 and #4")).toBeNull();
+    expect(BulkEditService.parseNumbers("")).toBeNull();
+  });
+
+  test("null over the bulk limit of 200", () => {
+    expect(BulkEditService.parseNumbers("#1-#200")).toHaveLength(200);
+    expect(BulkEditService.parseNumbers("#1-#201")).toBeNull();
+    expect(BulkEditService.parseNumbers("#1-#150, #301-#400")).toBeNull();
+  });
+});
+
+describe("BulkEditService.formatNumbers", () => {
+  test("collapses consecutive numbers into ranges", () => {
+    expect(BulkEditService.formatNumbers([10, 11, 12, 20])).toBe("#010–#012, #020");
+    expect(BulkEditService.formatNumbers([7])).toBe("#007");
+  });
+
+  test("shortens long selections after six runs", () => {
+    expect(BulkEditService.formatNumbers([1, 3, 5, 7, 9, 11, 13, 15])).toBe("#001, #003, #005, #007, #009, #011 …");
+  });
+});
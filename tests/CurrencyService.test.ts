@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, test, setSystemTime } from "bun:test";
+import { CurrencyService } from "../src/services/CurrencyService";
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("CurrencyService.calculateDynamicDailyLimit", () => {
+  test("spreads the remaining budget over the days left, today included", () => {
+    setSystemTime(new Date("2025-04-21T06:00:00Z")); // 21 Apr: 10 days left
+    expect(CurrencyService.calculateDynamicDailyLimit(1000, "UTC")).toBe(100);
+  });
+
+  test("counts days in the user's month, not the server's", () => {
+    // 00:30 on 1 March in Dhaka, 28 February in UTC
+    setSystemTime(new Date("2025-02-28T18:30:00Z"));
+    expect(CurrencyService.calculateDynamicDailyLimit(3100, "Asia/Dhaka")).toBe(100); // 31 days of March
+    expect(CurrencyService.calculateDynamicDailyLimit(3100, "UTC")).toBe(3100); // last day of February
+  });
+
+  test("last day of the month gets everything that's left", () => {
+    setSystemTime(new Date("2025-01-31T12:00:00Z"));
+    expect(CurrencyService.calculateDynamicDailyLimit(250.5, "UTC")).toBe(250.5);
+  });
+
+  test("overspending gives a negative limit", () => {
+    setSystemTime(new Date("2025-04-21T06:00:00Z"));
+    expect(CurrencyService.calculateDynamicDailyLimit(-500, "UTC")).toBe(-50);
+  });
+});
+
+describe("CurrencyService.getDailyLimit", () => {
+  test("divides by the length of the user's current month", () => {
+    setSystemTime(new Date("2025-02-28T18:30:00Z"));
+    expect(CurrencyService.getDailyLimit(3100, "Asia/Dhaka")).toBe(100);
+    expect(CurrencyService.getDailyLimit(2800, "UTC")).toBe(100);
+  });
+});
+
+describe("CurrencyService.amountCurrency", () => {
+  test("reads codes, names and symbols right next to the amount", () => {
+    expect(CurrencyService.amountCurrency("Taxi 20 EUR")).toEqual({ currency: "EUR", rest: "Taxi 20" });
+    expect(CurrencyService.amountCurrency("Taxi 20eur")).toEqual({ currency: "EUR", rest: "Taxi 20" });
+    expect(CurrencyService.amountCurrency("Lunch 15 euros")).toEqual({ currency: "EUR", rest: "Lunch 15" });
+    expect(CurrencyService.amountCurrency("Rickshaw 80 taka")).toEqual({ currency: "BDT", rest: "Rickshaw 80" });
+    expect(CurrencyService.amountCurrency("Coffee €3.50")).toEqual({ currency: "EUR", rest: "Coffee 3.50" });
+    expect(CurrencyService.amountCurrency("Coffee 3.50€")).toEqual({ currency: "EUR", rest: "Coffee 3.50" });
+    expect(CurrencyService.amountCurrency("Book GBP 15")).toEqual({ currency: "GBP", rest: "Book 15" });
+  });
+
+  test("everyday words in the item are not currencies", () => {
+    expect(CurrencyService.amountCurrency("Pound cake 200")).toBeNull();
+    expect(CurrencyService.amountCurrency("Php course 1500")).toBeNull();
+    expect(CurrencyService.amountCurrency("Won ton soup 300")).toBeNull();
+    expect(CurrencyService.amountCurrency("Sar 500")).toBeNull();
+    expect(CurrencyService.amountCurrency("Peso pizza 250")).toBeNull();
+    expect(CurrencyService.amountCurrency("Dong bakery 90")).toBeNull();
+    expect(CurrencyService.amountCurrency("Tk bus 40")).toBeNull();
+  });
+});
+
+describe("CurrencyService.detectCurrency", () => {
+  test("accepts a currency given on its own", () => {
+    expect(CurrencyService.detectCurrency("eur")).toBe("EUR");
+    expect(CurrencyService.detectCurrency("Taka")).toBe("BDT");
+    expect(CurrencyService.detectCurrency("£")).toBe("GBP");
+    expect(CurrencyService.detectCurrency("৳ 200")).toBe("BDT");
+    expect(CurrencyService.detectCurrency("200 USD")).toBe("USD");
+  });
+
+  test("no longer reads loose words as currencies", () => {
+    expect(CurrencyService.detectCurrency("pound")).toBeNull();
+    expect(CurrencyService.detectCurrency("won")).toBeNull();
+    expect(CurrencyService.detectCurrency("Pound cake 200")).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, test, setSystemTime } from "bun:test";
+import { DateService } from "../src/services/DateService";
+
+// 00:30 on 1 March in Dhaka (UTC+6) is still 28 February in UTC
+const DHAKA_MIDNIGHT_PAST = new Date("2025-02-28T18:30:00Z");
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("DateService.today / currentMonth", () => {
+  test("use the user's time zone, not UTC, across a month boundary", () => {
+    setSystemTime(DHAKA_MIDNIGHT_PAST);
+    expect(DateService.today("Asia/Dhaka")).toBe("2025-03-01");
+    expect(DateService.currentMonth("Asia/Dhaka")).toBe("2025-03");
+    expect(DateService.today("UTC")).toBe("2025-02-28");
+    expect(DateService.currentMonth("UTC")).toBe("2025-02");
+  });
+
+  test("zones behind UTC are still in the previous month", () => {
+    setSystemTime(new Date("2025-03-01T02:00:00Z"));
+    expect(DateService.today("America/New_York")).toBe("2025-02-28");
+    expect(DateService.currentMonth("America/New_York")).toBe("2025-02");
+    expect(DateService.currentMonth("UTC")).toBe("2025-03");
+  });
+
+  test("year boundary", () => {
+    setSystemTime(new Date("2024-12-31T18:15:00Z"));
+    expect(DateService.today("Asia/Dhaka")).toBe("2025-01-01");
+    expect(DateService.currentMonth("Asia/Dhaka")).toBe("2025-01");
+    expect(DateService.currentMonth("UTC")).toBe("2024-12");
+  });
+});
+
+describe("DateService.toLocalDate", () => {
+  test("buckets an instant into the local calendar day", () => {
+    expect(DateService.toLocalDate(DHAKA_MIDNIGHT_PAST, "Asia/Dhaka")).toBe("2025-03-01");
+    expect(DateService.toLocalDate(DHAKA_MIDNIGHT_PAST, "UTC")).toBe("2025-02-28");
+    expect(DateService.toLocalDate(new Date("2025-02-28T17:59:59Z"), "Asia/Dhaka")).toBe("2025-02-28");
+  });
+
+  test("handles leap days", () => {
+    expect(DateService.toLocalDate(new Date("2024-02-28T19:00:00Z"), "Asia/Dhaka")).toBe("2024-02-29");
+    expect(DateService.daysInMonth("2024-02")).toBe(29);
+    expect(DateService.daysInMonth("2025-02")).toBe(28);
+  });
+});
+
+describe("DateService.resolveTimezone", () => {
+  test("prefers the stored zone and falls back to the phone prefix", () => {
+    expect(DateService.resolveTimezone("8801711000000", "Europe/London")).toBe("Europe/London");
+    expect(DateService.resolveTimezone("8801711000000")).toBe("Asia/Dhaka");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+import { DuplicateReceiptService, type DuplicateCandidate } from "../src/services/DuplicateReceiptService";
+
+// A receipt-like test card: white paper with dark text lines whose position and length depend on `seed`
+function receipt(seed: number, width = 240, height = 320): { width: number; height: number; data: Buffer } {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const line = Math.floor(y / 20);
+      const indent = (line * seed * 29) % 110;
+      const lineLength = ((line * 37 + seed * 53) % 100) + 20;
+      const ink = y % 20 < 10 && x > indent && x < indent + lineLength;
+      const shade = ink ? 30 : 235 - Math.floor((x + y * seed) % 9);
+      data.set([shade, shade, shade, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+const photo = (seed: number, quality: number) => jpeg.encode(receipt(seed), quality).data;
+
+describe("DuplicateReceiptService.perceptualHash", () => {
+  test("the same receipt recompressed hashes within a few bits", () => {
+    const original = DuplicateReceiptService.perceptualHash(photo(1, 90))!;
+    const recompressed = DuplicateReceiptService.perceptualHash(photo(1, 40))!;
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(DuplicateReceiptService.hammingDistance(original, recompressed)).toBeLessThanOrEqual(6);
+  });
+
+  test("different receipts are far apart", () => {
+    const a = DuplicateReceiptService.perceptualHash(photo(1, 90))!;
+    const b = DuplicateReceiptService.perceptualHash(photo(4, 90))!;
+    expect(DuplicateReceiptService.hammingDistance(a, b)).toBeGreaterThan(6);
+  });
+
+  test("a PNG of the same receipt matches the JPEG", () => {
+    const png = new PNG({ width: 240, height: 320 });
+    receipt(1).data.copy(png.data);
+    const fromPng = DuplicateReceiptService.perceptualHash(PNG.sync.write(png))!;
+    const fromJpeg = DuplicateReceiptService.perceptualHash(photo(1, 80))!;
+    expect(DuplicateReceiptService.hammingDistance(fromPng, fromJpeg)).toBeLessThanOrEqual(6);
+  });
+
+  test("null for files it can't decode", () => {
+    expect(DuplicateReceiptService.perceptualHash(Buffer.from("not an image"))).toBeNull();
+    expect(DuplicateReceiptService.perceptualHash(Buffer.from([0xff, 0xd8, 0x00, 0x01]))).toBeNull();
+  });
+});
+
+describe("DuplicateReceiptService.hammingDistance", () => {
+  test("counts differing bits", () => {
+    expect(DuplicateReceiptService.hammingDistance("00ff", "00ff")).toBe(0);
+    expect(DuplicateReceiptService.hammingDistance("00ff", "01fe")).toBe(2);
+    expect(DuplicateReceiptService.hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+  });
+
+  test("null when the hashes can't be compared", () => {
+    expect(DuplicateReceiptService.hammingDistance("00ff", "00ff00")).toBeNull();
+    expect(DuplicateReceiptService.hammingDistance("zz", "00")).toBeNull();
+  });
+});
+
+describe("DuplicateReceiptService.match", () => {
+  const saved: DuplicateCandidate = {
+    price: 450,
+    currency: "BDT",
+    date: "2025-04-20",
+    merchant: "Star Kabab",
+    receiptDate: "2025-04-20",
+    imageDigest: "a".repeat(64),
+    imageHash: "f0f0f0f0f0f0f0f0",
+  };
+
+  test("identical bytes are the same photo", () => {
+    expect(DuplicateReceiptService.match({ price: 1, currency: "USD", date: "2025-01-01", imageDigest: "a".repeat(64) }, saved)).toBe("image");
+  });
+
+  test("a near-identical perceptual hash is the same photo", () => {
+    expect(DuplicateReceiptService.match({ price: 1, currency: "USD", date: "2025-01-01", imageHash: "f0f0f0f0f0f0f0f3" }, saved)).toBe("image");
+    expect(DuplicateReceiptService.match({ price: 1, currency: "USD", date: "2025-01-01", imageHash: "0f0f0f0f0f0f0f0f" }, saved)).toBeNull();
+  });
+
+  test("same amount, receipt date and merchant are the same receipt", () => {
+    expect(DuplicateReceiptService.match({ price: 450, currency: "BDT", date: "2025-04-22", merchant: "STAR KABAB", receiptDate: "2025-04-20" }, saved)).toBe("details");
+  });
+
+  test("compares amounts as entered, so a different rate still matches", () => {
+    const euro: DuplicateCandidate = { ...saved, price: 2600, originalPrice: 20, originalCurrency: "EUR", imageDigest: "b".repeat(64), imageHash: "" };
+    expect(DuplicateReceiptService.match({ ...euro, price: 2640, imageDigest: "c".repeat(64) }, euro)).toBe("details");
+  });
+
+  test("an amount and a day without merchants are not enough", () => {
+    expect(DuplicateReceiptService.match({ price: 450, currency: "BDT", date: "2025-04-20" }, { ...saved, merchant: "" })).toBeNull();
+    expect(DuplicateReceiptService.match({ price: 451, currency: "BDT", date: "2025-04-20", merchant: "Star Kabab", receiptDate: "2025-04-20" }, saved)).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Expense, Receipt } from "../src/models/ExpenseModel";
+import { ExchangeRateService } from "../src/services/ExchangeRateService";
+import { ExpenseService } from "../src/services/ExpenseService";
+import { FixtureReceiptProvider } from "../src/services/ReceiptProvider";
+import { LocalImageStorage } from "../src/services/ImageStorage";
+import type { MongoService } from "../src/services/MongoService";
+import type { PendingReceipt, StoredImage } from "../src/types/types";
+import { MessageMedia, type Message } from "../src/types/wa";
+
+const userId = "8801700000000@c.us";
+const message: Message = { from: userId, body: "ALL", type: "text" };
+
+const EURO_RECEIPT: PendingReceipt = {
+  date: "2025-04-20",
+  currency: "EUR",
+  items: [
+    { name: "Bread", quantity: 1, unitPrice: 3, total: 3 },
+    { name: "Cheese", quantity: 1, unitPrice: 7, total: 7 },
+  ],
+  tax: 0,
+  discount: 0,
+  total: 10,
+  imageUrl: "local:receipts/2025/04/receipt.jpg",
+  imageProvider: "local",
+  imageRef: "receipts/2025/04/receipt.jpg",
+};
+
+describe("ExpenseService.handleReceiptReply", () => {
+  let sent: string[];
+  let cleared: number;
+
+  const mongoService = {
+    getPendingReceipt: async () => ({ ...EURO_RECEIPT }),
+    clearPendingReceipt: async () => { cleared++; },
+    getUserCurrency: async () => "BDT",
+  } as unknown as MongoService;
+
+  function service(): ExpenseService {
+    const client = { sendMessage: async (_: string, content: unknown) => { sent.push(String(content)); } };
+    const noRates = new ExchangeRateService({ name: "stub", getRate: async () => null });
+    return new ExpenseService(client, noRates, new FixtureReceiptProvider(), null);
+  }
+
+  beforeEach(() => {
+    sent = [];
+    cleared = 0;
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test("a receipt without an exchange rate is dropped with its photo", async () => {
+    const createReceipt = spyOn(Receipt, "create");
+    const createExpense = spyOn(Expense, "create");
+    const deleteImage = spyOn(LocalImageStorage.prototype, "delete").mockResolvedValue(undefined);
+
+    const handled = await service().handleReceiptReply("ALL", userId, message, mongoService);
+
+    expect(handled).toBe(true);
+    expect(createReceipt).not.toHaveBeenCalled();
+    expect(createExpense).not.toHaveBeenCalled();
+    expect(deleteImage).toHaveBeenCalledWith("receipts/2025/04/receipt.jpg");
+    expect(cleared).toBe(1);
+    expect(sent).toEqual(["❌ I don't have an exchange rate for EUR → BDT. Please send the amount in BDT."]);
+  });
+
+  test("NO discards the receipt and deletes the photo", async () => {
+    const deleteImage = spyOn(LocalImageStorage.prototype, "delete").mockResolvedValue(undefined);
+
+    await service().handleReceiptReply("NO", userId, message, mongoService);
+
+    expect(deleteImage).toHaveBeenCalledWith("receipts/2025/04/receipt.jpg");
+    expect(cleared).toBe(1);
+    expect(sent).toEqual(["❎ Receipt discarded. Nothing was saved."]);
+  });
+});
+
+describe("ExpenseService receipt photos", () => {
+  const photo = new MessageMedia("image/jpeg", Buffer.from("not really a jpeg").toString("base64"));
+  const stored: StoredImage = { provider: "local", ref: "receipts/2025/04/scan.jpg", url: "local:receipts/2025/04/scan.jpg" };
+  const mongoService = {
+    getUserCurrency: async () => "BDT",
+    getUserTimezone: async () => "Asia/Dhaka",
+    getPendingExpense: async () => ({ item: "Image Scan", price: 450, currency: "BDT", date: "2025-04-20", imageProvider: "local", imageRef: stored.ref }),
+    clearPendingExpense: async () => {},
+  } as unknown as MongoService;
+
+  function service(provider: FixtureReceiptProvider): ExpenseService {
+    return new ExpenseService({ sendMessage: async () => {} }, new ExchangeRateService(), provider, new LocalImageStorage("/tmp/receipts-test"));
+  }
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test("a photo without a readable total is deleted again", async () => {
+    spyOn(LocalImageStorage.prototype, "upload").mockResolvedValue(stored);
+    const deleteImage = spyOn(LocalImageStorage.prototype, "delete").mockResolvedValue(undefined);
+
+    await service(new FixtureReceiptProvider({ expense: "no receipt here" })).processImageMessage(photo, "", message, mongoService);
+
+    expect(deleteImage).toHaveBeenCalledWith(stored.ref);
+  });
+
+  test("NO to a low-confidence scan deletes its photo", async () => {
+    const deleteImage = spyOn(LocalImageStorage.prototype, "delete").mockResolvedValue(undefined);
+
+    await service(new FixtureReceiptProvider()).handleOCRConfirmation("NO", userId, message, mongoService);
+
+    expect(deleteImage).toHaveBeenCalledWith(stored.ref);
+  });
+});
+
+describe("ExpenseService text entries", () => {
+  const service = new ExpenseService({ sendMessage: async () => {} }, new ExchangeRateService(), new FixtureReceiptProvider(), null);
+
+  test.each([
+    ["Pound cake 200", "Pound cake"],
+    ["Php course 1500", "Php course"],
+    ["Won ton soup 300", "Won ton soup"],
+    ["Sar 500", "Sar"],
+  ])("%s keeps the user's currency and the whole item name", async (text, item) => {
+    const data = await service["extractExpenseData"](text);
+    expect(data).toMatchObject({ item, currency: "USD" });
+  });
+
+  test("a code next to the price is still used", async () => {
+    expect(await service["extractExpenseData"]("Taxi 20 EUR")).toMatchObject({ item: "Taxi", price: 20, currency: "EUR" });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test";
+import { ExportService } from "../src/services/ExportService";
+
+const rows = [
+  { id: "65f0a1", number: "#001", date: "2025-04-20", item: "চা & <snacks>", category: "Food", amount: 120, currency: "BDT" },
+  { id: "65f0a2", number: "#002", date: "2025-04-21", item: "Taxi", category: "Transport", amount: 2600, currency: "BDT", originalPrice: 20, originalCurrency: "EUR", exchangeRate: 130 },
+];
+
+describe("ExportService.toOfx", () => {
+  const ofx: string = ExportService["toOfx"](rows, "8801700000000@c.us", "BDT");
+
+  test("declares UTF-8 through the OFX 2 XML header", () => {
+    expect(ofx.startsWith('<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n<?OFX OFXHEADER="200" VERSION="211"')).toBe(true);
+    expect(ofx).not.toContain("ENCODING:");
+  });
+
+  test("escapes payee and memo and keeps non-Latin names", () => {
+    expect(ofx).toContain("<NAME>চা &amp; &lt;snacks&gt;</NAME>");
+    expect(ofx).toContain("<MEMO>Transport · 20 EUR × 130</MEMO>");
+  });
+
+  test("closes every element", () => {
+    const opened = ofx.match(/<[A-Z0-9.]+>/g)!.length;
+    const closed = ofx.match(/<\/[A-Z0-9.]+>/g)!.length;
+    expect(opened).toBe(closed);
+    expect(ofx).toContain("<TRNAMT>-2600.00</TRNAMT>");
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { ImageLinkService } from "../src/services/ImageLinkService";
+
+const EXPENSE_ID = "65f0a1b2c3d4e5f6a7b8c9d0";
+const NOW = Date.UTC(2025, 3, 20, 12, 0, 0);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("ImageLinkService tokens", () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.IMAGE_LINK_SECRET = "test-secret";
+    delete process.env.IMAGE_LINK_TTL_DAYS;
+    delete process.env.PUBLIC_BASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test("a fresh token opens its expense", () => {
+    const token = ImageLinkService.createToken(EXPENSE_ID, NOW);
+    expect(ImageLinkService.verifyToken(token, NOW + DAY_MS)).toEqual({ expenseId: EXPENSE_ID });
+  });
+
+  test("expires after IMAGE_LINK_TTL_DAYS, 30 by default", () => {
+    const token = ImageLinkService.createToken(EXPENSE_ID, NOW);
+    expect(ImageLinkService.verifyToken(token, NOW + 29 * DAY_MS)).toEqual({ expenseId: EXPENSE_ID });
+    expect(ImageLinkService.verifyToken(token, NOW + 31 * DAY_MS)).toBe("expired");
+
+    process.env.IMAGE_LINK_TTL_DAYS = "2";
+    const short = ImageLinkService.createToken(EXPENSE_ID, NOW);
+    expect(ImageLinkService.verifyToken(short, NOW + 3 * DAY_MS)).toBe("expired");
+  });
+
+  test("a token for another expense or with a changed expiry is rejected", () => {
+    const [, expiry, signature] = ImageLinkService.createToken(EXPENSE_ID, NOW).split(".");
+    expect(ImageLinkService.verifyToken(`65f0a1b2c3d4e5f6a7b8c9d1.${expiry}.${signature}`, NOW)).toBeNull();
+    const later = (parseInt(expiry!, 36) + 365 * 24 * 60 * 60).toString(36);
+    expect(ImageLinkService.verifyToken(`${EXPENSE_ID}.${later}.${signature}`, NOW)).toBeNull();
+  });
+
+  test("a token signed with another secret is rejected", () => {
+    const token = ImageLinkService.createToken(EXPENSE_ID, NOW);
+    process.env.IMAGE_LINK_SECRET = "rotated-secret";
+    expect(ImageLinkService.verifyToken(token, NOW)).toBeNull();
+  });
+
+  test("malformed tokens are rejected", () => {
+    expect(ImageLinkService.verifyToken("", NOW)).toBeNull();
+    expect(ImageLinkService.verifyToken(EXPENSE_ID, NOW)).toBeNull();
+    expect(ImageLinkService.verifyToken(`${ImageLinkService.createToken(EXPENSE_ID, NOW)}.extra`, NOW)).toBeNull();
+  });
+
+  test("url needs PUBLIC_BASE_URL", () => {
+    expect(ImageLinkService.url(EXPENSE_ID)).toBeNull();
+    process.env.PUBLIC_BASE_URL = "https://bot.example.com/";
+    expect(ImageLinkService.url(EXPENSE_ID)).toStartWith(`https://bot.example.com/v/${EXPENSE_ID}.`);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { ImportService } from "../src/services/ImportService";
+
+const TODAY = "2025-04-21";
+
+describe("ImportService.parseAmount", () => {
+  test("keeps the sign of credits written with a minus, parentheses or CR", () => {
+    expect(ImportService.parseAmount("1,250.50")).toBe(1250.5);
+    expect(ImportService.parseAmount("৳ 200")).toBe(200);
+    expect(ImportService.parseAmount("-45.00")).toBe(-45);
+    expect(ImportService.parseAmount("-$12.30")).toBe(-12.3);
+    expect(ImportService.parseAmount("(45.00)")).toBe(-45);
+    expect(ImportService.parseAmount("45.00 CR")).toBe(-45);
+    expect(ImportService.parseAmount(-19.99)).toBe(-19.99);
+  });
+
+  test("empty and zero amounts are unreadable", () => {
+    expect(ImportService.parseAmount("")).toBeNull();
+    expect(ImportService.parseAmount("0.00")).toBeNull();
+    expect(ImportService.parseAmount(0)).toBeNull();
+  });
+});
+
+describe("ImportService.detectMonthFirst", () => {
+  test("a day above 12 in first position means day-first", () => {
+    expect(ImportService.detectMonthFirst(["03/04/2025", "25/04/2025"])).toBe(false);
+  });
+
+  test("a day above 12 in second position means month-first", () => {
+    expect(ImportService.detectMonthFirst(["03/04/2025", "04/25/2025"])).toBe(true);
+  });
+
+  test("null when every date reads both ways", () => {
+    expect(ImportService.detectMonthFirst(["03/04/2025", "11.12.25"])).toBeNull();
+  });
+
+  test("ISO dates and Excel serials don't need a decision", () => {
+    expect(ImportService.detectMonthFirst(["2025-04-03", 45750])).toBe(false);
+  });
+});
+
+describe("ImportService.parseDate", () => {
+  test("reads numeric dates day-first unless told otherwise", () => {
+    expect(ImportService.parseDate("03/04/2025", TODAY)).toBe("2025-04-03");
+    expect(ImportService.parseDate("03/04/2025", TODAY, true)).toBe("2025-03-04");
+    expect(ImportService.parseDate("04/25/25", TODAY, true)).toBe("2025-04-25");
+  });
+
+  test("ISO dates are unaffected by the order", () => {
+    expect(ImportService.parseDate("2025-03-04", TODAY, true)).toBe("2025-03-04");
+  });
+});
+
+describe("ImportService.parseCsv", () => {
+  test("reads quoted fields with separators, quotes and line breaks", () => {
+    const csv = 'Date,Item,Price\r\n2025-04-20,"Rice, 5kg",450\r\n2025-04-21,"The ""good"" tea\nbox",120\r\n';
+    expect(ImportService.parseCsv(csv)).toEqual([
+      ["Date", "Item", "Price"],
+      ["2025-04-20", "Rice, 5kg", "450"],
+      ["2025-04-21", 'The "good" tea\nbox', "120"],
+    ]);
+  });
+
+  test("detects semicolon and tab separated files", () => {
+    expect(ImportService.parseCsv("Date;Item;Amount\n20.04.2025;Brot;3,50")).toEqual([
+      ["Date", "Item", "Amount"],
+      ["20.04.2025", "Brot", "3,50"],
+    ]);
+    expect(ImportService.parseCsv("Date\tItem\tAmount\n2025-04-20\tBread\t3.50\n\n")).toEqual([
+      ["Date", "Item", "Amount"],
+      ["2025-04-20", "Bread", "3.50"],
+    ]);
+  });
+
+  test("honours Excel's sep= line", () => {
+    expect(ImportService.parseCsv("sep=;\nDate;Item, brand;Amount")).toEqual([["Date", "Item, brand", "Amount"]]);
+  });
+});
+
+describe("ImportService.isSupportedFile", () => {
+  test("accepts CSV and declines Excel workbooks", () => {
+    expect(ImportService.isSupportedFile("expenses.csv", "application/vnd.ms-excel")).toBe(true);
+    expect(ImportService.isSupportedFile("export", "text/csv")).toBe(true);
+    expect(ImportService.isSupportedFile("expenses.xlsx", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet")).toBe(false);
+    expect(ImportService.isExcelFile("expenses.xlsx")).toBe(true);
+  });
+});
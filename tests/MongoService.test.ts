@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Budget, DeletedExpense, Expense, ExpenseHistory } from "../src/models/ExpenseModel";
+import { ExchangeRateService } from "../src/services/ExchangeRateService";
+import { MongoService } from "../src/services/MongoService";
+
+const userId = "8801700000000@c.us";
+
+function expense(fields: Record<string, unknown> = {}) {
+  return new Expense({ userId, item: "Lunch", category: "Food", price: 450, currency: "BDT", date: "2025-04-20", number: 7, ...fields });
+}
+
+// Stand-in for a Mongoose query that is only sorted before it's awaited
+const sorted = <T>(result: T) => ({ sort: async () => result }) as any;
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("MongoService.undoLastAction", () => {
+  const service = new MongoService(new ExchangeRateService({ name: "stub", getRate: async () => 1 }));
+
+  function editEntry(before: ReturnType<typeof expense>, after: ReturnType<typeof expense>) {
+    return {
+      _id: "h1",
+      userId,
+      expenseId: String(after._id),
+      number: 7,
+      action: "edit",
+      before: service["snapshotOf"](before),
+      after: service["snapshotOf"](after),
+      actionId: "a1",
+    };
+  }
+
+  test("an edit is reverted to the logged snapshot", async () => {
+    const before = expense();
+    const after = expense({ _id: before._id, price: 500 });
+    const entry = editEntry(before, after);
+    spyOn(ExpenseHistory, "findOne").mockReturnValue(sorted(entry));
+    spyOn(ExpenseHistory, "find").mockReturnValue(sorted([entry]));
+    spyOn(ExpenseHistory, "create").mockResolvedValue({} as any);
+    spyOn(ExpenseHistory, "updateMany").mockResolvedValue({} as any);
+    spyOn(Expense, "findById").mockResolvedValue(after as any);
+    const replaceOne = spyOn(Expense, "replaceOne").mockResolvedValue({} as any);
+
+    const result = await service.undoLastAction(userId);
+
+    expect(replaceOne).toHaveBeenCalledTimes(1);
+    expect((replaceOne.mock.calls[0]![1] as any).price).toBe(450);
+    expect(result?.reverted).toEqual([{ number: 7, item: "Lunch" }]);
+  });
+
+  test("an edit of an expense converted since is skipped, not overwritten", async () => {
+    const before = expense();
+    const after = expense({ _id: before._id, price: 500 });
+    const converted = expense({ _id: before._id, price: 4.5, currency: "USD", originalPrice: 500, originalCurrency: "BDT", exchangeRate: 0.009 });
+    const entry = editEntry(before, after);
+    spyOn(ExpenseHistory, "findOne").mockReturnValue(sorted(entry));
+    spyOn(ExpenseHistory, "find").mockReturnValue(sorted([entry]));
+    spyOn(ExpenseHistory, "updateMany").mockResolvedValue({} as any);
+    spyOn(Expense, "findById").mockResolvedValue(converted as any);
+    const replaceOne = spyOn(Expense, "replaceOne").mockResolvedValue({} as any);
+
+    const result = await service.undoLastAction(userId);
+
+    expect(replaceOne).not.toHaveBeenCalled();
+    expect(result?.skipped).toEqual([{ number: 7, item: "Lunch" }]);
+  });
+});
+
+describe("MongoService trash", () => {
+  const service = new MongoService(new ExchangeRateService({ name: "stub", getRate: async () => 1 }));
+
+  test("deleting keeps a snapshot in the trash and logs it", async () => {
+    const lunch = expense();
+    const trash = spyOn(DeletedExpense, "findOneAndUpdate").mockResolvedValue({} as any);
+    const remove = spyOn(Expense, "deleteOne").mockResolvedValue({} as any);
+    const log = spyOn(ExpenseHistory, "create").mockResolvedValue({} as any);
+
+    await service.deleteExpense(lunch, { text: "#007 delete", actionId: "a1" });
+
+    expect(trash.mock.calls[0]![0]).toEqual({ expenseId: String(lunch._id) });
+    expect((trash.mock.calls[0]![1] as any).expense).toMatchObject({ item: "Lunch", price: 450, number: 7 });
+    expect(remove).toHaveBeenCalledWith({ _id: lunch._id });
+    expect(log.mock.calls[0]![0]).toMatchObject({ action: "delete", number: 7, actionId: "a1", source: "#007 delete", before: { price: 450 } });
+  });
+
+  test("restoring puts the expense back under its old ID and number", async () => {
+    const lunch = expense();
+    const trashed = { _id: "t1", expenseId: String(lunch._id), number: 7, expense: service["snapshotOf"](lunch) };
+    spyOn(DeletedExpense, "findOne").mockReturnValue(sorted(trashed));
+    const create = spyOn(Expense, "create").mockImplementation(((fields: any) => Promise.resolve(expense(fields))) as any);
+    const untrash = spyOn(DeletedExpense, "deleteOne").mockResolvedValue({} as any);
+    const log = spyOn(ExpenseHistory, "create").mockResolvedValue({} as any);
+
+    const restored = await service.restoreExpense(userId, { number: 7 }, { text: "#007 restore" });
+
+    expect(String(restored?._id)).toBe(String(lunch._id));
+    expect(create.mock.calls[0]![0]).toMatchObject({ _id: String(lunch._id), userId, number: 7, price: 450 });
+    expect(untrash).toHaveBeenCalledWith({ _id: "t1" });
+    expect(log.mock.calls[0]![0]).toMatchObject({ action: "restore", number: 7, after: { price: 450 } });
+  });
+
+  test("null when the expense isn't in the trash", async () => {
+    spyOn(DeletedExpense, "findOne").mockReturnValue(sorted(null));
+    const create = spyOn(Expense, "create");
+
+    expect(await service.restoreExpense(userId, { number: 7 })).toBeNull();
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  test("undoing a delete restores the expense; undoing an add moves it to the trash", async () => {
+    const lunch = expense();
+    const deleted = { _id: "h1", userId, expenseId: String(lunch._id), number: 7, action: "delete", before: service["snapshotOf"](lunch), actionId: "a1" };
+    spyOn(ExpenseHistory, "findOne").mockReturnValue(sorted(deleted));
+    spyOn(ExpenseHistory, "find").mockReturnValue(sorted([deleted]));
+    spyOn(ExpenseHistory, "updateMany").mockResolvedValue({} as any);
+    spyOn(Expense, "findById").mockResolvedValue(null);
+    const restore = spyOn(service, "restoreExpense").mockResolvedValue(lunch as any);
+
+    const undone = await service.undoLastAction(userId);
+
+    expect(restore.mock.calls[0]![1]).toEqual({ expenseId: String(lunch._id) });
+    expect(restore.mock.calls[0]![3]).toBe("a1");
+    expect(undone).toMatchObject({ action: "delete", reverted: [{ number: 7, item: "Lunch" }], skipped: [] });
+
+    mock.restore();
+    const created = { ...deleted, action: "create", after: deleted.before, before: undefined, actionId: "a2" };
+    spyOn(ExpenseHistory, "findOne").mockReturnValue(sorted(created));
+    spyOn(ExpenseHistory, "find").mockReturnValue(sorted([created]));
+    const markUndone = spyOn(ExpenseHistory, "updateMany").mockResolvedValue({} as any);
+    spyOn(Expense, "findById").mockResolvedValue(lunch as any);
+    const remove = spyOn(service, "deleteExpense").mockResolvedValue(undefined);
+
+    expect(await service.undoLastAction(userId)).toMatchObject({ action: "create", reverted: [{ number: 7, item: "Lunch" }] });
+    expect(remove.mock.calls[0]![0]).toBe(lunch);
+    expect(remove.mock.calls[0]![2]).toBe("a2");
+    expect(markUndone.mock.calls[0]![1]).toHaveProperty("undoneAt");
+  });
+
+  test("nothing to undo", async () => {
+    spyOn(ExpenseHistory, "findOne").mockReturnValue(sorted(null));
+    expect(await service.undoLastAction(userId)).toBeNull();
+  });
+});
+
+describe("MongoService.convertUserHistory", () => {
+  test("logs every converted expense under one automatic action", async () => {
+    const service = new MongoService(new ExchangeRateService({ name: "stub", getRate: async () => 0.01 }));
+    const lunch = expense();
+    const taxi = expense({ item: "Taxi", price: 300, number: 8 });
+    spyOn(Expense, "find").mockResolvedValue([lunch, taxi] as any);
+    spyOn(Expense, "findByIdAndUpdate").mockImplementation(((id: unknown, update: any) =>
+      Promise.resolve(id === lunch._id ? expense({ _id: lunch._id, ...update }) : expense({ _id: taxi._id, item: "Taxi", number: 8, ...update }))) as any);
+    spyOn(Budget, "find").mockResolvedValue([] as any);
+    const logged: any[] = [];
+    spyOn(ExpenseHistory, "create").mockImplementation(((entry: unknown) => Promise.resolve(logged.push(entry))) as any);
+
+    const result = await service.convertUserHistory(userId, "USD", { text: "CONVERT" });
+
+    expect(result.expenses).toBe(2);
+    expect(logged).toHaveLength(2);
+    expect(new Set(logged.map((e) => e.actionId)).size).toBe(1);
+    expect(logged.every((e) => e.action === "edit" && e.automatic === true)).toBe(true);
+    expect(logged[0].before.price).toBe(450);
+    expect(logged[0].after).toMatchObject({ price: 4.5, currency: "USD", originalPrice: 450, originalCurrency: "BDT" });
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, mock, setSystemTime, spyOn, test } from "bun:test";
+import { Expense } from "../src/models/ExpenseModel";
+import { ExchangeRateService } from "../src/services/ExchangeRateService";
+import { ExpenseService } from "../src/services/ExpenseService";
+import type { MongoService } from "../src/services/MongoService";
+import { DEFAULT_OCR_CONFIDENCE_THRESHOLD, OcrConfidenceService } from "../src/services/OcrConfidenceService";
+import type { GroqExpenseResponse, ReceiptProvider } from "../src/types/types";
+import { MessageMedia, type Message } from "../src/types/wa";
+
+const TODAY = "2025-04-21";
+
+// Model replies as the vision model sends them (JSON, sometimes wrapped in prose)
+const FIXTURES = {
+  clean: `{"item":"Total","price":450,"currency":"BDT","date":"2025-04-20","merchant":"Star Kabab",
+    "paymentMethod":"cash","lineTotals":[200,250],"tax":0,"discount":0,"confidence":0.95}`,
+  mismatched: `{"item":"Total","price":900,"currency":"BDT","date":"2025-04-20","merchant":"Star Kabab",
+    "lineTotals":[200,250],"tax":0,"discount":0,"confidence":0.9}`,
+  futureDate: `{"item":"Total","price":450,"currency":"BDT","date":"2026-04-20","merchant":"Star Kabab","confidence":0.9}`,
+  garbled: `Here is the JSON: {"item":"","price":120,"currency":"","merchant":"#4$%1 8","confidence":0.3}`,
+  noTotal: `{"item":"Total","price":0,"currency":"BDT","confidence":0.9}`,
+  euro: `{"item":"Total","price":20,"currency":"EUR","date":"2025-04-20","merchant":"Café Central","confidence":0.95}`,
+};
+
+function parse(fixture: string): GroqExpenseResponse {
+  return JSON.parse(fixture.slice(fixture.indexOf("{"), fixture.lastIndexOf("}") + 1));
+}
+
+describe("OcrConfidenceService.score", () => {
+  test("a receipt whose lines add up scores high with no reasons", () => {
+    const result = OcrConfidenceService.score(parse(FIXTURES.clean), TODAY);
+    expect(result.confidence).toBeGreaterThanOrEqual(0.9);
+    expect(result.reasons).toEqual([]);
+  });
+
+  test("line items that don't add up to the total lower the score", () => {
+    const result = OcrConfidenceService.score(parse(FIXTURES.mismatched), TODAY);
+    expect(result.confidence).toBeLessThan(OcrConfidenceService.score(parse(FIXTURES.clean), TODAY).confidence);
+    expect(result.reasons).toEqual(["line items don't add up to the total"]);
+  });
+
+  test("a receipt dated in the future is flagged", () => {
+    const result = OcrConfidenceService.score(parse(FIXTURES.futureDate), TODAY);
+    expect(result.reasons).toEqual(["the receipt date (2026-04-20) looks wrong"]);
+  });
+
+  test("an unreadable photo falls below the default threshold", () => {
+    const result = OcrConfidenceService.score(parse(FIXTURES.garbled), TODAY);
+    expect(result.confidence).toBeLessThan(DEFAULT_OCR_CONFIDENCE_THRESHOLD);
+    expect(result.reasons).toEqual(["the photo was hard to read", "the shop name is unclear"]);
+  });
+
+  test("no total means zero confidence", () => {
+    expect(OcrConfidenceService.score(parse(FIXTURES.noTotal), TODAY)).toEqual({ confidence: 0, reasons: ["no total found"] });
+  });
+});
+
+describe("OcrConfidenceService.threshold", () => {
+  const configured = process.env.OCR_CONFIDENCE_THRESHOLD;
+  afterEach(() => {
+    if (configured === undefined) delete process.env.OCR_CONFIDENCE_THRESHOLD;
+    else process.env.OCR_CONFIDENCE_THRESHOLD = configured;
+  });
+
+  test("reads OCR_CONFIDENCE_THRESHOLD and ignores values outside 0..1", () => {
+    process.env.OCR_CONFIDENCE_THRESHOLD = "0.8";
+    expect(OcrConfidenceService.threshold()).toBe(0.8);
+    process.env.OCR_CONFIDENCE_THRESHOLD = "7";
+    expect(OcrConfidenceService.threshold()).toBe(DEFAULT_OCR_CONFIDENCE_THRESHOLD);
+  });
+});
+
+describe("ExpenseService.processImageMessage", () => {
+  const userId = "8801700000000@c.us";
+  const message: Message = { from: userId, hasMedia: true, type: "image" };
+  const media = new MessageMedia("image/jpeg", Buffer.from("receipt").toString("base64"));
+
+  let sent: string[];
+  let stored: unknown[];
+
+  // Only the calls the single-total scan path makes; there is no database here
+  const mongoService = {
+    getUserCurrency: async () => "BDT",
+    getUserTimezone: async () => "Asia/Dhaka",
+    findDuplicateExpense: async () => null,
+    storePendingExpense: async (_: string, pending: unknown) => { stored.push(pending); },
+    getNextExpenseNumber: async () => 7,
+    getUserCategories: async () => ["Food", "Other"],
+    getCategoryMappings: async () => [],
+    logExpenseCreated: async () => {},
+    calculateMonthlyTotal: async () => ({ month: "April", year: 2025, currency: "BDT", totalAmount: 450, expenseCount: 1 }),
+    getMonthlyBudget: async () => 0,
+    calculateTodaysSpending: async () => 450,
+    getCategoryBudgets: async () => [],
+    getBudgetCarryOver: async () => 0,
+  } as unknown as MongoService;
+
+  function service(reply: string): ExpenseService {
+    const provider: ReceiptProvider = { name: "stub", extract: async () => reply };
+    const client = { sendMessage: async (_: string, content: unknown) => { sent.push(String(content)); } };
+    return new ExpenseService(client, new ExchangeRateService({ name: "stub", getRate: async () => null }), provider, null);
+  }
+
+  beforeEach(() => {
+    sent = [];
+    stored = [];
+    setSystemTime(new Date(`${TODAY}T06:00:00Z`));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+    mock.restore();
+  });
+
+  test("a confident scan is saved straight away", async () => {
+    const create = spyOn(Expense, "create").mockImplementation((async (doc: any) => ({ ...doc })) as any);
+
+    await service(FIXTURES.clean).processImageMessage(media, "Dinner", message, mongoService);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0]![0]).toMatchObject({ userId, item: "Dinner", price: 450, currency: "BDT", number: 7 });
+    expect(stored).toEqual([]);
+    expect(sent[0]).toContain("Dinner");
+  });
+
+  test("a low-confidence scan asks for confirmation instead of saving", async () => {
+    const create = spyOn(Expense, "create");
+
+    await service(FIXTURES.garbled).processImageMessage(media, "", message, mongoService);
+
+    expect(create).not.toHaveBeenCalled();
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ item: "Image Scan", price: 120, currency: "BDT" });
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toContain("⚠️ Not sure: the photo was hard to read, the shop name is unclear.");
+    expect(sent[0]).toContain("Reply with YES or NO");
+  });
+
+  test("OCR_CONFIDENCE_THRESHOLD moves the cut-off", async () => {
+    process.env.OCR_CONFIDENCE_THRESHOLD = "0.99";
+    try {
+      const create = spyOn(Expense, "create");
+      await service(FIXTURES.clean).processImageMessage(media, "Dinner", message, mongoService);
+      expect(create).not.toHaveBeenCalled();
+      expect(stored).toHaveLength(1);
+    } finally {
+      delete process.env.OCR_CONFIDENCE_THRESHOLD;
+    }
+  });
+
+  test("a scan in a currency without an exchange rate is not saved as the user's currency", async () => {
+    const create = spyOn(Expense, "create");
+
+    await service(FIXTURES.euro).processImageMessage(media, "Lunch", message, mongoService);
+
+    expect(create).not.toHaveBeenCalled();
+    expect(stored).toEqual([]);
+    expect(sent).toEqual(["❌ I don't have an exchange rate for EUR → BDT. Please send the amount in BDT."]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { BulkEditService } from "../src/services/BulkEditService";
+import { QueryService } from "../src/services/QueryService";
+import { ReportRequestParser } from "../src/services/ReportRequestParser";
+
+describe("QueryService.looksLikeQuery", () => {
+  test.each([
+    "How much did I spend on food this month?",
+    "How many coffees this month?",
+    "how much did I spend last week",
+    "How many coffees did I buy in March",
+    "What did I spend on transport yesterday?",
+    "Show me food last month?",
+    "Top 5 items in March",
+    "How much did I spend in 2025?",
+  ])("%s is a question", (text) => {
+    expect(QueryService.looksLikeQuery(text)).toBe(true);
+  });
+
+  test.each([
+    "Show tickets 800",
+    "Total gym 500",
+    "Average joe coffee 250",
+    "Biggest burger 450",
+    "What a meal 1200",
+    "Top 500",
+    "How much did I spend 500",
+  ])("%s is an expense", (text) => {
+    expect(QueryService.looksLikeQuery(text)).toBe(false);
+  });
+});
+
+describe("routing of the old Excel keywords", () => {
+  test.each(["Show all expense", "give excel file", "Send expense info", "excel sheet this year"])(
+    "%s still asks for the spreadsheet",
+    (text) => {
+      expect(QueryService.looksLikeQuery(text)).toBe(false);
+      expect(BulkEditService.isBulkCommand(text)).toBe(false);
+      expect(ReportRequestParser.isSpreadsheetRequest(text)).toBe(true);
+    }
+  );
+
+  test("ordinary expenses don't match the spreadsheet keywords", () => {
+    expect(ReportRequestParser.isSpreadsheetRequest("Show tickets 800")).toBe(false);
+    expect(ReportRequestParser.isSpreadsheetRequest("Total gym 500")).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { RecurringService } from "../src/services/RecurringService";
+
+// A Sunday
+const TODAY = "2025-04-20";
+
+describe("RecurringService.parseRepeatCommand", () => {
+  test.each([
+    ["Repeat Netflix 15 monthly on 5th", { item: "Netflix", price: 15, frequency: "monthly", dayOfMonth: 5 }],
+    ["Repeat Gym 50 weekly on monday", { item: "Gym", price: 50, frequency: "weekly", dayOfWeek: 1 }],
+    ["Repeat Tea 20 daily", { item: "Tea", price: 20, frequency: "daily" }],
+    ["Repeat Insurance 300 on 5 mar", { item: "Insurance", price: 300, frequency: "yearly", dayOfMonth: 5, month: 3 }],
+    ["repeat Loan EMI 4500,50 every month on the 1st", { item: "Loan EMI", price: 4500.5, frequency: "monthly", dayOfMonth: 1 }],
+  ])("%s", (text, rule) => {
+    expect(RecurringService.parseRepeatCommand(text, TODAY)).toEqual(rule as any);
+  });
+
+  test("the schedule defaults to today", () => {
+    expect(RecurringService.parseRepeatCommand("Repeat Rent 12000", TODAY)).toEqual({ item: "Rent", price: 12000, frequency: "monthly", dayOfMonth: 20 });
+    expect(RecurringService.parseRepeatCommand("Repeat Cleaner 800 weekly", TODAY)).toEqual({ item: "Cleaner", price: 800, frequency: "weekly", dayOfWeek: 0 });
+  });
+
+  test("null without an item, a price or a readable day", () => {
+    expect(RecurringService.parseRepeatCommand("Repeat Gym on monday", TODAY)).toBeNull();
+    expect(RecurringService.parseRepeatCommand("Repeat 500 monthly", TODAY)).toBeNull();
+    expect(RecurringService.parseRepeatCommand("Repeat Rent 100 on 32nd", TODAY)).toBeNull();
+    expect(RecurringService.parseRepeatCommand("Repeat Rent 100 on payday", TODAY)).toBeNull();
+  });
+});
+
+describe("RecurringService.nextRunDate", () => {
+  test("monthly runs move to the next month once the day has passed", () => {
+    const rule = { item: "Netflix", price: 15, frequency: "monthly" as const, dayOfMonth: 5 };
+    expect(RecurringService.nextRunDate(rule, "2025-04-04")).toBe("2025-04-05");
+    expect(RecurringService.nextRunDate(rule, "2025-04-05")).toBe("2025-05-05");
+    expect(RecurringService.nextRunDate(rule, "2025-12-20")).toBe("2026-01-05");
+  });
+
+  test("the 31st falls on the last day of shorter months", () => {
+    const rule = { item: "Rent", price: 12000, frequency: "monthly" as const, dayOfMonth: 31 };
+    expect(RecurringService.nextRunDate(rule, "2025-01-31")).toBe("2025-02-28");
+    expect(RecurringService.nextRunDate(rule, "2025-03-31")).toBe("2025-04-30");
+  });
+
+  test("weekly runs go to the next matching weekday", () => {
+    const rule = { item: "Gym", price: 50, frequency: "weekly" as const, dayOfWeek: 1 };
+    expect(RecurringService.nextRunDate(rule, "2025-04-20")).toBe("2025-04-21");
+    expect(RecurringService.nextRunDate(rule, "2025-04-21")).toBe("2025-04-28");
+  });
+
+  test("daily and yearly runs", () => {
+    expect(RecurringService.nextRunDate({ item: "Tea", price: 20, frequency: "daily" }, "2025-12-31")).toBe("2026-01-01");
+    const leapDay = { item: "Domain", price: 12, frequency: "yearly" as const, month: 2, dayOfMonth: 29 };
+    expect(RecurringService.nextRunDate(leapDay, "2025-03-01")).toBe("2026-02-28");
+    expect(RecurringService.nextRunDate(leapDay, "2027-06-01")).toBe("2028-02-29");
+  });
+});